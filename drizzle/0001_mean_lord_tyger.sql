@@ -0,0 +1 @@
+ALTER TABLE "ingestions" ADD COLUMN "row_store" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "ingestions" ADD COLUMN "parse_options" jsonb;
\ No newline at end of file
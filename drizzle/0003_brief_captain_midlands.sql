@@ -0,0 +1 @@
+ALTER TABLE "ingestions" ADD COLUMN "dialect" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "ingestions" ADD COLUMN "parse_error_count" integer;--> statement-breakpoint
+ALTER TABLE "ingestions" ADD COLUMN "quarantine_file_key" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "ingestions" ADD COLUMN "parent_id" uuid;--> statement-breakpoint
+ALTER TABLE "ingestions" ADD CONSTRAINT "ingestions_parent_id_ingestions_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."ingestions"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "ingestions" ADD COLUMN "raw_file_sha256" text;--> statement-breakpoint
+ALTER TABLE "ingestions" ADD COLUMN "raw_file_bytes" bigint;
\ No newline at end of file
@@ -0,0 +1,34 @@
+CREATE TABLE "drop_zone_files" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"zone_id" uuid NOT NULL,
+	"filename" text NOT NULL,
+	"source_key" text NOT NULL,
+	"source_modified_at" timestamp with time zone NOT NULL,
+	"file_key" text NOT NULL,
+	"byte_count" bigint NOT NULL,
+	"status" text DEFAULT 'processing' NOT NULL,
+	"ingestion_id" uuid,
+	"error" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "drop_zone_files_zone_id_source_key_source_modified_at_unique" UNIQUE("zone_id","source_key","source_modified_at")
+);
+--> statement-breakpoint
+CREATE TABLE "drop_zones" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"prefix" text NOT NULL,
+	"schema_id" uuid NOT NULL,
+	"parse_options" jsonb,
+	"file_pattern" text DEFAULT '*.csv' NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"last_polled_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "drop_zones_name_unique" UNIQUE("name"),
+	CONSTRAINT "drop_zones_prefix_unique" UNIQUE("prefix")
+);
+--> statement-breakpoint
+ALTER TABLE "drop_zone_files" ADD CONSTRAINT "drop_zone_files_zone_id_drop_zones_id_fk" FOREIGN KEY ("zone_id") REFERENCES "public"."drop_zones"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "drop_zone_files" ADD CONSTRAINT "drop_zone_files_ingestion_id_ingestions_id_fk" FOREIGN KEY ("ingestion_id") REFERENCES "public"."ingestions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "drop_zones" ADD CONSTRAINT "drop_zones_schema_id_schemas_id_fk" FOREIGN KEY ("schema_id") REFERENCES "public"."schemas"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+CREATE INDEX "ingestions_created_at_id_idx" ON "ingestions" USING btree ("created_at","id");--> statement-breakpoint
+CREATE INDEX "ingestions_completed_at_id_idx" ON "ingestions" USING btree ("completed_at","id");--> statement-breakpoint
+CREATE INDEX "ingestions_status_created_at_idx" ON "ingestions" USING btree ("status","created_at");--> statement-breakpoint
+CREATE INDEX "ingestions_schema_id_created_at_idx" ON "ingestions" USING btree ("schema_id","created_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "ingestions" ADD COLUMN "rerun_of_id" uuid;--> statement-breakpoint
+ALTER TABLE "ingestions" ADD CONSTRAINT "ingestions_rerun_of_id_ingestions_id_fk" FOREIGN KEY ("rerun_of_id") REFERENCES "public"."ingestions"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -281,6 +281,27 @@ function StageRow({
             Requires human review for ambiguous mappings
           </p>
         )}
+        {stage.id === "parse" &&
+          status === "complete" &&
+          ingestion.dialect && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Delimiter {JSON.stringify(ingestion.dialect.delimiter)}
+              {ingestion.dialect.source === "sniffed" &&
+                ` (${Math.round(ingestion.dialect.confidence * 100)}% confidence)`}
+              {ingestion.dialect.ambiguous && ingestion.dialect.runnerUp && (
+                <span className="text-yellow-600 dark:text-yellow-400">
+                  {" "}
+                  · could also be{" "}
+                  {JSON.stringify(ingestion.dialect.runnerUp.delimiter)}
+                </span>
+              )}
+            </p>
+          )}
+        {stage.id === "parse" && !!ingestion.parseErrorCount && (
+          <p className="text-xs text-yellow-600 dark:text-yellow-400 mt-1">
+            {ingestion.parseErrorCount} malformed records quarantined
+          </p>
+        )}
         {stage.id === "infer" &&
           status === "complete" &&
           ingestion.inferredSchema && (
@@ -356,6 +377,7 @@ function StatusBadge({ status }: { status: IngestionStatus }) {
       label: "Complete",
     },
     failed: { variant: "destructive", label: "Failed" },
+    cancelled: { variant: "outline", label: "Cancelled" },
   };
 
   const { variant, className, label } = variants[status] || {
@@ -22,7 +22,12 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { useIngestionReview, useResolveIngestion } from "@/hooks/useIngestion";
-import type { ColumnMapping, MappingDecision, SchemaResponse } from "@/types";
+import type {
+  ColumnMapping,
+  HeaderChange,
+  MappingDecision,
+  SchemaResponse,
+} from "@/types";
 import { AlertTriangle, Check, HelpCircle, X } from "lucide-react";
 import { useMemo, useState } from "react";
 
@@ -130,6 +135,9 @@ export function ReviewPanel({
             <MappingRow
               key={mapping.sourceColumn}
               mapping={mapping}
+              headerChange={review.headerChanges.find(
+                (change) => change.normalized === mapping.sourceColumn
+              )}
               targetColumns={targetColumns}
               currentDecision={decisions[mapping.sourceColumn]}
               onDecisionChange={(target) =>
@@ -164,11 +172,13 @@ export function ReviewPanel({
 
 function MappingRow({
   mapping,
+  headerChange,
   targetColumns,
   currentDecision,
   onDecisionChange,
 }: {
   mapping: ColumnMapping;
+  headerChange: HeaderChange | undefined;
   targetColumns: string[];
   currentDecision: string | null | undefined;
   onDecisionChange: (target: string | null) => void;
@@ -183,6 +193,13 @@ function MappingRow({
           <code className="px-2 py-1 bg-muted rounded text-sm font-mono">
             {mapping.sourceColumn}
           </code>
+          {headerChange && (
+            <span className="text-xs text-muted-foreground">
+              {headerChange.reason === "blank"
+                ? "(blank header)"
+                : `(header "${headerChange.original}")`}
+            </span>
+          )}
           <span className="text-muted-foreground">→</span>
           <TooltipProvider>
             <Tooltip>
@@ -9,8 +9,13 @@ interface ValidationReportProps {
 }
 
 export function ValidationReport({ validationResult }: ValidationReportProps) {
-  const { validRowCount, invalidRowCount, errors, errorsByColumn } =
-    validationResult;
+  const {
+    validRowCount,
+    invalidRowCount,
+    errors,
+    errorsByColumn,
+    errorsTruncated,
+  } = validationResult;
 
   if (invalidRowCount === 0 && errors.length === 0) {
     return (
@@ -82,6 +87,12 @@ export function ValidationReport({ validationResult }: ValidationReportProps) {
       <Card>
         <CardHeader>
           <CardTitle>Error Details</CardTitle>
+          {errorsTruncated && (
+            <p className="text-xs text-muted-foreground">
+              Showing the first {errors.length} of {invalidRowCount} rows with
+              errors. Download the full error file from the API.
+            </p>
+          )}
         </CardHeader>
         <CardContent>
           <ScrollArea className="h-[400px] pr-4">
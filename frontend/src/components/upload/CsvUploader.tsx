@@ -11,6 +11,23 @@ import { cn, formatBytes } from "@/lib/utils";
 import { AlertCircle, FileSpreadsheet, Upload, X } from "lucide-react";
 import { useCallback, useRef, useState } from "react";
 
+const ACCEPTED_EXTENSIONS = [
+  "csv",
+  "tsv",
+  "txt",
+  "xlsx",
+  "xls",
+  "ods",
+  "json",
+  "ndjson",
+  "jsonl",
+  "gz",
+  "bz2",
+  "zip",
+];
+// Binary uploads get no text preview
+const BINARY_EXTENSIONS = ["xlsx", "xls", "ods", "gz", "bz2", "zip"];
+
 interface CsvUploaderProps {
   onFileSelect: (file: File) => void;
   selectedFile: File | null;
@@ -37,8 +54,10 @@ export function CsvUploader({
 
       // Check file extension
       const ext = file.name.split(".").pop()?.toLowerCase();
-      if (ext !== "csv" && ext !== "tsv" && ext !== "txt") {
-        setError("Please upload a CSV file (.csv, .tsv, or .txt)");
+      if (!ext || !ACCEPTED_EXTENSIONS.includes(ext)) {
+        setError(
+          "Please upload a CSV, spreadsheet or JSON file (.csv, .tsv, .txt, .xlsx, .xls, .ods, .json, or .ndjson), optionally compressed (.gz, .bz2, .zip)"
+        );
         return false;
       }
 
@@ -55,6 +74,12 @@ export function CsvUploader({
   );
 
   const loadPreview = useCallback((file: File) => {
+    const ext = file.name.split(".").pop()?.toLowerCase();
+    if (ext && BINARY_EXTENSIONS.includes(ext)) {
+      setPreview(null);
+      return;
+    }
+
     const reader = new FileReader();
     reader.onload = (e) => {
       const text = e.target?.result as string;
@@ -189,7 +214,7 @@ export function CsvUploader({
             <input
               ref={inputRef}
               type="file"
-              accept=".csv,.tsv,.txt"
+              accept={ACCEPTED_EXTENSIONS.map((ext) => `.${ext}`).join(",")}
               onChange={handleInputChange}
               className="hidden"
               disabled={disabled}
@@ -199,7 +224,8 @@ export function CsvUploader({
               {isDragOver ? "Drop your file here" : "Click or drag to upload"}
             </p>
             <p className="text-xs text-muted-foreground mt-1">
-              CSV, TSV, or TXT files up to {maxSizeMB}MB
+              CSV, TSV, TXT, Excel/ODS spreadsheets, or JSON/NDJSON up to{" "}
+              {maxSizeMB}MB
             </p>
           </div>
         )}
@@ -9,11 +9,12 @@ export function useHistoryRefresher() {
 
   // Filter incomplete entries that need monitoring
   // We monitor pending, parsing, inferring, mapping, validating, outputting
-  // We don't monitor complete, failed, or awaiting_review (unless we want to detect if review was done elsewhere)
+  // We don't monitor complete, failed, cancelled, or awaiting_review (unless we want to detect if review was done elsewhere)
   const incompleteEntries = entries.filter(
     (entry) =>
       entry.status !== "complete" &&
       entry.status !== "failed" &&
+      entry.status !== "cancelled" &&
       entry.status !== "awaiting_review"
   );
 
@@ -28,6 +29,7 @@ export function useHistoryRefresher() {
         if (
           data?.status === "complete" ||
           data?.status === "failed" ||
+          data?.status === "cancelled" ||
           data?.status === "awaiting_review"
         ) {
           return false;
@@ -31,8 +31,12 @@ export function useIngestion(id: string | null) {
     enabled: !!id,
     refetchInterval: (query) => {
       const data = query.state.data;
-      // Stop polling when complete or failed
-      if (data?.status === "complete" || data?.status === "failed") {
+      // Stop polling when complete, failed or cancelled
+      if (
+        data?.status === "complete" ||
+        data?.status === "failed" ||
+        data?.status === "cancelled"
+      ) {
         return false;
       }
       // Also stop polling when awaiting review
@@ -47,7 +51,11 @@ export function useIngestion(id: string | null) {
   useEffect(() => {
     const data = query.data;
     if (data) {
-      if (data.status === "complete" || data.status === "failed") {
+      if (
+        data.status === "complete" ||
+        data.status === "failed" ||
+        data.status === "cancelled"
+      ) {
         updateEntry(data.id, {
           status: data.status,
           completedAt: data.completedAt,
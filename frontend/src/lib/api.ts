@@ -2,10 +2,15 @@ import type {
   SchemaResponse,
   CanonicalSchema,
   IngestionResponse,
+  IngestionStage,
+  IngestionStatus,
+  IngestionListParams,
+  IngestionListResponse,
   CreateIngestionResponse,
   PendingReviewResponse,
   MappingDecision,
   DecisionLog,
+  ParseOptions,
 } from '@/types';
 import { config } from './config';
 
@@ -80,6 +85,19 @@ export async function createIngestion(
   return handleResponse<CreateIngestionResponse>(response);
 }
 
+export async function listIngestions(
+  params: IngestionListParams = {}
+): Promise<IngestionListResponse> {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined) continue;
+    query.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  }
+
+  const response = await fetch(`${API_BASE}/ingestions?${query}`);
+  return handleResponse<IngestionListResponse>(response);
+}
+
 export async function getIngestion(id: string): Promise<IngestionResponse> {
   const response = await fetch(`${API_BASE}/ingestions/${id}`);
   return handleResponse<IngestionResponse>(response);
@@ -102,6 +120,46 @@ export async function resolveIngestion(
   return handleResponse<{ status: string; message: string }>(response);
 }
 
+export async function cancelIngestion(
+  id: string
+): Promise<{ id: string; status: 'cancelled'; message: string }> {
+  const response = await fetch(`${API_BASE}/ingestions/${id}/cancel`, {
+    method: 'POST',
+  });
+  return handleResponse<{ id: string; status: 'cancelled'; message: string }>(response);
+}
+
+export async function retryIngestion(
+  id: string,
+  stage?: IngestionStage
+): Promise<{ id: string; status: IngestionStatus; stage: IngestionStage | 'review'; message: string }> {
+  const response = await fetch(`${API_BASE}/ingestions/${id}/retry`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(stage ? { stage } : {}),
+  });
+  return handleResponse<{
+    id: string;
+    status: IngestionStatus;
+    stage: IngestionStage | 'review';
+    message: string;
+  }>(response);
+}
+
+export async function rerunIngestion(
+  id: string,
+  options: { schemaId?: string; parseOptions?: ParseOptions } = {}
+): Promise<{ id: string; status: 'pending'; rerunOfId: string; message: string }> {
+  const response = await fetch(`${API_BASE}/ingestions/${id}/rerun`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(options),
+  });
+  return handleResponse<{ id: string; status: 'pending'; rerunOfId: string; message: string }>(
+    response
+  );
+}
+
 export async function getIngestionDecisions(id: string): Promise<DecisionLog[]> {
   const response = await fetch(`${API_BASE}/ingestions/${id}/decisions`);
   return handleResponse<DecisionLog[]>(response);
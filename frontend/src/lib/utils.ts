@@ -54,6 +54,8 @@ export function getStatusColor(status: string): string {
       return 'text-green-600 bg-green-100 dark:text-green-400 dark:bg-green-900/30';
     case 'failed':
       return 'text-red-600 bg-red-100 dark:text-red-400 dark:bg-red-900/30';
+    case 'cancelled':
+      return 'text-gray-600 bg-gray-100 dark:text-gray-400 dark:bg-gray-800';
     case 'awaiting_review':
       return 'text-yellow-600 bg-yellow-100 dark:text-yellow-400 dark:bg-yellow-900/30';
     case 'pending':
@@ -83,6 +85,8 @@ export function getStatusLabel(status: string): string {
       return 'Complete';
     case 'failed':
       return 'Failed';
+    case 'cancelled':
+      return 'Cancelled';
     default:
       return status;
   }
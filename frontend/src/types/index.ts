@@ -39,6 +39,61 @@ export interface ColumnDefinition {
 // Error policy options
 export type ErrorPolicy = 'reject_row' | 'flag' | 'coerce_default' | 'abort';
 
+export type InputFormat =
+  | 'csv'
+  | 'xlsx'
+  | 'xls'
+  | 'ods'
+  | 'json'
+  | 'ndjson'
+  | 'fixed_width';
+
+// Field positions of a fixed-width text file (0-indexed start)
+export interface FixedWidthField {
+  name: string;
+  start: number;
+  length: number;
+  trim?: 'none' | 'left' | 'right' | 'both';
+  padChar?: string;
+}
+
+export interface FixedWidthLayout {
+  fields: FixedWidthField[];
+  skipLines?: number;
+}
+
+// How a file is read; omitted options are detected or defaulted
+export interface ParseOptions {
+  format?: InputFormat;
+  delimiter?: string;
+  quote?: string;
+  escape?: string;
+  encoding?: 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252' | 'iso-8859-1';
+  headerRow?: number;
+  skipTrailingRows?: number;
+  detectFooter?: boolean;
+  commentPrefix?: string;
+  trim?: 'none' | 'left' | 'right' | 'both';
+  skipEmptyLines?: boolean;
+  relaxColumnCount?: boolean;
+  sheet?: string;
+  flattenDepth?: number;
+  fixedWidth?: FixedWidthLayout;
+  maxErrorRatio?: number;
+  splitArchive?: boolean;
+}
+
+// Delimiter, quote and escape the parser settled on
+export interface DialectDetection {
+  delimiter: string;
+  quote: string;
+  escape: string;
+  confidence: number;
+  ambiguous: boolean;
+  runnerUp: { delimiter: string; confidence: number } | null;
+  source: 'sniffed' | 'override' | 'default';
+}
+
 // Canonical schema for CSV normalization
 export interface CanonicalSchema {
   name: string;
@@ -47,6 +102,7 @@ export interface CanonicalSchema {
   columns: ColumnDefinition[];
   errorPolicy?: ErrorPolicy;
   strict?: boolean;
+  parseOptions?: ParseOptions;
 }
 
 // Schema response from API
@@ -70,7 +126,11 @@ export type IngestionStatus =
   | 'validating'
   | 'outputting'
   | 'complete'
-  | 'failed';
+  | 'failed'
+  | 'cancelled';
+
+// Stages a failed or cancelled ingestion can be retried from
+export type IngestionStage = 'parse' | 'infer' | 'map' | 'validate' | 'output';
 
 // Inferred column from type inference
 export interface InferredColumn {
@@ -82,6 +142,7 @@ export interface InferredColumn {
   sampleValues: unknown[];
   nullCount: number;
   totalCount: number;
+  originalName?: string;
 }
 
 // Inferred schema from parsing stage
@@ -98,6 +159,8 @@ export type MappingMethod =
   | 'alias'
   | 'fuzzy'
   | 'ai'
+  | 'template'
+  | 'content'
   | 'manual'
   | 'unmapped';
 
@@ -107,6 +170,7 @@ export interface ColumnMapping {
   targetColumn: string | null;
   method: MappingMethod;
   confidence: number;
+  signals?: { signal: 'header' | 'type' | 'enum' | 'regex'; score: number; detail: string }[];
   alternativeMappings?: { targetColumn: string; confidence: number }[];
 }
 
@@ -143,32 +207,77 @@ export interface ValidationResult {
   outputRowCount?: number;
   errors: RowError[];
   errorsByColumn: Record<string, number>;
+  errorsFileKey?: string;
+  errorsTruncated?: boolean;
 }
 
 // Full ingestion response
 export interface IngestionResponse {
   id: string;
   schemaId: string | null;
+  parentId: string | null;
+  rerunOfId: string | null;
   status: IngestionStatus;
   rawFileKey: string;
+  rawFileSha256: string | null;
+  rawFileBytes: number | null;
   originalFilename: string | null;
   outputFileKey: string | null;
   rowCount: number | null;
   validRowCount: number | null;
+  parseErrorCount: number | null;
+  quarantineFileKey: string | null;
   error: string | null;
+  parseOptions: ParseOptions | null;
+  dialect: DialectDetection | null;
   inferredSchema: InferredSchema | null;
   mappingResult: MappingResult | null;
   validationResult: ValidationResult | null;
+  childIds: string[];
   createdAt: string;
   updatedAt: string;
   completedAt: string | null;
 }
 
+// Ingestion as listed by GET /ingestions, without the pipeline outputs
+export type IngestionSummary = Omit<
+  IngestionResponse,
+  'inferredSchema' | 'mappingResult' | 'validationResult' | 'childIds'
+>;
+
+export interface IngestionListParams {
+  status?: IngestionStatus[];
+  schemaId?: string;
+  filename?: string;
+  createdFrom?: string;
+  createdTo?: string;
+  minRowCount?: number;
+  maxRowCount?: number;
+  sort?: 'createdAt' | 'completedAt';
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+export interface IngestionListResponse {
+  items: IngestionSummary[];
+  nextCursor: string | null;
+}
+
 // Pending review response
+// Header renamed by the parse stage
+export interface HeaderChange {
+  index: number;
+  original: string;
+  normalized: string;
+  reason: 'duplicate' | 'blank' | 'trimmed';
+}
+
 export interface PendingReviewResponse {
   ingestionId: string;
   status: 'awaiting_review';
   ambiguousMappings: ColumnMapping[];
+  headerChanges: HeaderChange[];
 }
 
 // Human decision for resolving mappings
@@ -190,6 +299,8 @@ export interface DecisionLog {
 export interface CreateIngestionResponse {
   id: string;
   status: 'pending';
+  sha256: string;
+  byteCount: number;
   message: string;
 }
 
@@ -0,0 +1,403 @@
+import { and, desc, eq } from "drizzle-orm";
+import { FastifyPluginAsyncZod } from "fastify-type-provider-zod";
+import { z } from "zod";
+import { db } from "../db/index.js";
+import {
+  dropZoneFiles,
+  dropZones,
+  schemas,
+  type DropZoneFileRow,
+  type DropZoneRow,
+} from "../db/schema.js";
+import {
+  compileFilePattern,
+  normalizeDropZonePrefix,
+  prefixesOverlap,
+} from "../services/drop-zones.js";
+import {
+  CreateDropZoneRequestSchema,
+  DropZoneFileStatusSchema,
+  ParseOptionsSchema,
+  UpdateDropZoneRequestSchema,
+} from "../types/index.js";
+import { dropZoneQueue } from "../workers/queues.js";
+
+// =============================================================================
+// RESPONSE SCHEMAS
+// =============================================================================
+
+const DropZoneResponseSchema = z.object({
+  id: z.uuid(),
+  name: z.string(),
+  prefix: z.string(),
+  schemaId: z.uuid(),
+  parseOptions: ParseOptionsSchema.nullable(),
+  filePattern: z.string(),
+  enabled: z.boolean(),
+  lastPolledAt: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const DropZoneFileResponseSchema = z.object({
+  id: z.uuid(),
+  filename: z.string(),
+  fileKey: z.string(), // Where the file is now
+  byteCount: z.number(),
+  status: DropZoneFileStatusSchema,
+  ingestionId: z.uuid().nullable(),
+  error: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const ErrorResponseSchema = z.object({ error: z.string() });
+
+function toResponse(zone: DropZoneRow) {
+  return {
+    id: zone.id,
+    name: zone.name,
+    prefix: zone.prefix,
+    schemaId: zone.schemaId,
+    parseOptions: zone.parseOptions,
+    filePattern: zone.filePattern,
+    enabled: zone.enabled,
+    lastPolledAt: zone.lastPolledAt?.toISOString() ?? null,
+    createdAt: zone.createdAt.toISOString(),
+    updatedAt: zone.updatedAt.toISOString(),
+  };
+}
+
+function toFileResponse(file: DropZoneFileRow) {
+  return {
+    id: file.id,
+    filename: file.filename,
+    fileKey: file.fileKey,
+    byteCount: file.byteCount,
+    status: file.status,
+    ingestionId: file.ingestionId,
+    error: file.error,
+    createdAt: file.createdAt.toISOString(),
+    updatedAt: file.updatedAt.toISOString(),
+  };
+}
+
+// Returns an error message if the pattern will not compile
+function checkFilePattern(pattern: string): string | null {
+  try {
+    compileFilePattern(pattern);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+async function findZone(id: string): Promise<DropZoneRow | undefined> {
+  const [zone] = await db.select().from(dropZones).where(eq(dropZones.id, id));
+  return zone;
+}
+
+async function schemaExists(id: string): Promise<boolean> {
+  const [schema] = await db
+    .select({ id: schemas.id })
+    .from(schemas)
+    .where(eq(schemas.id, id));
+  return schema !== undefined;
+}
+
+// =============================================================================
+// ROUTES
+// =============================================================================
+
+export const dropZoneRoutes: FastifyPluginAsyncZod = async (fastify) => {
+  // Watch a storage prefix
+  fastify.post(
+    "/",
+    {
+      schema: {
+        summary: "Create drop zone",
+        description:
+          "Watch a storage prefix for new files. Files matching the pattern are claimed into processing/, ingested with the zone's schema, then moved to processed/ or failed/ once the ingestion finishes.",
+        tags: ["drop-zones"],
+        body: CreateDropZoneRequestSchema,
+        response: {
+          201: DropZoneResponseSchema,
+          400: ErrorResponseSchema,
+          409: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { name, schemaId, parseOptions, filePattern, enabled } = request.body;
+
+      const prefix = normalizeDropZonePrefix(request.body.prefix);
+      if (!prefix) {
+        return reply.code(400).send({
+          error: "Prefix must be a relative path outside the service's own folders",
+        });
+      }
+
+      const problem = checkFilePattern(filePattern);
+      if (problem) {
+        return reply.code(400).send({ error: problem });
+      }
+
+      if (!(await schemaExists(schemaId))) {
+        return reply.code(400).send({ error: "Schema not found" });
+      }
+
+      const existing = await db
+        .select({ name: dropZones.name, prefix: dropZones.prefix })
+        .from(dropZones);
+      const overlapping = existing.find((zone) => prefixesOverlap(zone.prefix, prefix));
+      if (overlapping) {
+        return reply.code(409).send({
+          error: `Prefix overlaps drop zone "${overlapping.name}" (${overlapping.prefix})`,
+        });
+      }
+
+      const [created] = await db
+        .insert(dropZones)
+        .values({
+          name,
+          prefix,
+          schemaId,
+          parseOptions: parseOptions ?? null,
+          filePattern,
+          enabled,
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      if (!created) {
+        return reply.code(409).send({ error: "A drop zone with this name or prefix already exists" });
+      }
+
+      return reply.code(201).send(toResponse(created));
+    }
+  );
+
+  // List zones
+  fastify.get(
+    "/",
+    {
+      schema: {
+        summary: "List drop zones",
+        description: "Retrieve all drop zones",
+        tags: ["drop-zones"],
+        response: {
+          200: z.array(DropZoneResponseSchema),
+        },
+      },
+    },
+    async () => {
+      const zones = await db.select().from(dropZones).orderBy(dropZones.name);
+      return zones.map(toResponse);
+    }
+  );
+
+  // Get a single zone
+  fastify.get(
+    "/:id",
+    {
+      schema: {
+        summary: "Get drop zone",
+        description: "Retrieve a specific drop zone",
+        tags: ["drop-zones"],
+        params: z.object({
+          id: z.uuid(),
+        }),
+        response: {
+          200: DropZoneResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const zone = await findZone(request.params.id);
+      if (!zone) {
+        return reply.code(404).send({ error: "Drop zone not found" });
+      }
+
+      return toResponse(zone);
+    }
+  );
+
+  // Change a zone's settings
+  fastify.patch(
+    "/:id",
+    {
+      schema: {
+        summary: "Update drop zone",
+        description:
+          "Change a zone's name, schema, parse options, file pattern or enabled flag. The prefix cannot change. New settings apply to files claimed from the next poll on.",
+        tags: ["drop-zones"],
+        params: z.object({
+          id: z.uuid(),
+        }),
+        body: UpdateDropZoneRequestSchema,
+        response: {
+          200: DropZoneResponseSchema,
+          400: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+          409: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+      const { name, schemaId, parseOptions, filePattern, enabled } = request.body;
+
+      if (filePattern !== undefined) {
+        const problem = checkFilePattern(filePattern);
+        if (problem) {
+          return reply.code(400).send({ error: problem });
+        }
+      }
+
+      if (schemaId !== undefined && !(await schemaExists(schemaId))) {
+        return reply.code(400).send({ error: "Schema not found" });
+      }
+
+      if (name !== undefined) {
+        const [named] = await db
+          .select({ id: dropZones.id })
+          .from(dropZones)
+          .where(eq(dropZones.name, name));
+        if (named && named.id !== id) {
+          return reply.code(409).send({ error: "A drop zone with this name already exists" });
+        }
+      }
+
+      const [updated] = await db
+        .update(dropZones)
+        .set({
+          ...(name !== undefined && { name }),
+          ...(schemaId !== undefined && { schemaId }),
+          ...(parseOptions !== undefined && { parseOptions }),
+          ...(filePattern !== undefined && { filePattern }),
+          ...(enabled !== undefined && { enabled }),
+          updatedAt: new Date(),
+        })
+        .where(eq(dropZones.id, id))
+        .returning();
+
+      if (!updated) {
+        return reply.code(404).send({ error: "Drop zone not found" });
+      }
+
+      return toResponse(updated);
+    }
+  );
+
+  // Stop watching a prefix
+  fastify.delete(
+    "/:id",
+    {
+      schema: {
+        summary: "Delete drop zone",
+        description:
+          "Stop watching the zone and forget its file history. Files in storage, including processed/ and failed/, are left in place.",
+        tags: ["drop-zones"],
+        params: z.object({
+          id: z.uuid(),
+        }),
+        response: {
+          204: z.null(),
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+
+      if (!(await findZone(id))) {
+        return reply.code(404).send({ error: "Drop zone not found" });
+      }
+
+      await db.delete(dropZoneFiles).where(eq(dropZoneFiles.zoneId, id));
+      await db.delete(dropZones).where(eq(dropZones.id, id));
+
+      return reply.code(204).send();
+    }
+  );
+
+  // Files picked up from a zone
+  fastify.get(
+    "/:id/files",
+    {
+      schema: {
+        summary: "List drop zone files",
+        description: "Retrieve files claimed from a zone, newest first",
+        tags: ["drop-zones"],
+        params: z.object({
+          id: z.uuid(),
+        }),
+        querystring: z.object({
+          status: DropZoneFileStatusSchema.optional(),
+          limit: z.coerce.number().int().min(1).max(500).default(100),
+        }),
+        response: {
+          200: z.array(DropZoneFileResponseSchema),
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+      const { status, limit } = request.query;
+
+      if (!(await findZone(id))) {
+        return reply.code(404).send({ error: "Drop zone not found" });
+      }
+
+      const files = await db
+        .select()
+        .from(dropZoneFiles)
+        .where(
+          and(
+            eq(dropZoneFiles.zoneId, id),
+            status ? eq(dropZoneFiles.status, status) : undefined
+          )
+        )
+        .orderBy(desc(dropZoneFiles.createdAt))
+        .limit(limit);
+
+      return files.map(toFileResponse);
+    }
+  );
+
+  // Poll now rather than waiting for the schedule
+  fastify.post(
+    "/:id/poll",
+    {
+      schema: {
+        summary: "Poll drop zone",
+        description:
+          "Queue an immediate poll of the zone. Zones are otherwise polled every DROP_ZONE_POLL_SECONDS.",
+        tags: ["drop-zones"],
+        params: z.object({
+          id: z.uuid(),
+        }),
+        response: {
+          202: z.object({ message: z.string() }),
+          404: ErrorResponseSchema,
+          409: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const zone = await findZone(request.params.id);
+      if (!zone) {
+        return reply.code(404).send({ error: "Drop zone not found" });
+      }
+      if (!zone.enabled) {
+        return reply.code(409).send({ error: "Drop zone is disabled" });
+      }
+
+      await dropZoneQueue.add(`poll-${zone.id}`, { zoneId: zone.id });
+
+      return reply.code(202).send({ message: "Poll queued" });
+    }
+  );
+};
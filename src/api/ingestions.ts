@@ -1,24 +1,171 @@
 import { randomUUID } from "crypto";
-import { eq } from "drizzle-orm";
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  getTableColumns,
+  gte,
+  ilike,
+  inArray,
+  isNotNull,
+  lt,
+  lte,
+  notInArray,
+  sql,
+  type SQL,
+} from "drizzle-orm";
 import { FastifyPluginAsyncZod } from "fastify-type-provider-zod";
 import { createReadStream } from "fs";
 import { z } from "zod";
 import { db } from "../db/index.js";
-import { decisionLogs, ingestions, schemas } from "../db/schema.js";
+import {
+  decisionLogs,
+  ingestions,
+  schemas,
+  type IngestionRow,
+} from "../db/schema.js";
 import { applyHumanDecisions } from "../services/column-mapping.js";
+import { decodeSample, detectEncoding } from "../services/encoding.js";
+import { suggestFixedWidthLayout } from "../services/fixed-width.js";
+import {
+  FINISHED_STATUSES,
+  RETRYABLE_STATUSES,
+  canRestartFrom,
+  clearResultsFrom,
+  queuedStatus,
+  resumePoint,
+} from "../services/ingestion-control.js";
 import {
+  decodeListCursor,
+  encodeListCursor,
+  escapeLikePattern,
+} from "../services/ingestion-list.js";
+import { upsertMappingTemplate } from "../services/mapping-templates.js";
+import {
+  openSourceUrl,
+  openStorageSource,
+  SourceFetchError,
+  type SourceFetchFailure,
+  type SourceStream,
+} from "../services/source-fetch.js";
+import {
+  clearLocalCache,
+  fileExists,
   generateRawFileKey,
   getFilePath,
-  saveFile,
+  saveFileWithChecksum,
+  type StoredFile,
 } from "../services/storage.js";
 import {
+  DialectDetectionSchema,
+  FixedWidthLayoutSchema,
+  HeaderChangeSchema,
   InferredSchemaSchema,
   IngestionStatusSchema,
   MappingResultSchema,
+  ParseOptionsSchema,
+  PipelineStageSchema,
   ResolveAmbiguityRequestSchema,
   ValidationResultSchema,
+  type ParseOptions,
 } from "../types/index.js";
-import { mapQueue, startIngestionPipeline } from "../workers/queues.js";
+import {
+  enqueueStage,
+  hasRunningJobs,
+  mapQueue,
+  removeIngestionJobs,
+  startIngestionPipeline,
+} from "../workers/queues.js";
+import { claimUpload, type StoredUpload, type UploadSample } from "./uploads.js";
+
+// =============================================================================
+// REQUEST SCHEMAS
+// =============================================================================
+
+const BooleanFieldSchema = z
+  .enum(["true", "false"])
+  .transform((value) => value === "true");
+
+// Structured options arrive as JSON text; bad JSON is left for the schema to reject
+function parseJsonField(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+// Parse options arrive as strings, either in the query or as multipart fields
+const ParseOptionsFieldsSchema = ParseOptionsSchema.extend({
+  headerRow: z.coerce.number().int().min(0).optional(),
+  skipTrailingRows: z.coerce.number().int().min(0).optional(),
+  flattenDepth: z.coerce.number().int().min(0).optional(),
+  detectFooter: BooleanFieldSchema.optional(),
+  skipEmptyLines: BooleanFieldSchema.optional(),
+  relaxColumnCount: BooleanFieldSchema.optional(),
+  splitArchive: BooleanFieldSchema.optional(),
+  maxErrorRatio: z.coerce.number().min(0).max(1).optional(),
+  fixedWidth: z.preprocess(parseJsonField, FixedWidthLayoutSchema).optional(),
+});
+
+// A file to fetch instead of a multipart body: an allowlisted http(s) URL or
+// a key already in storage
+const ImportSourceSchema = z.union([
+  z.object({ url: z.url({ protocol: /^https?$/ }) }).strict(),
+  z.object({ storageKey: z.string().min(1) }).strict(),
+]);
+
+const ImportIngestionRequestSchema = z.object({
+  schemaId: z.uuid(),
+  source: ImportSourceSchema,
+  filename: z.string().min(1).optional(), // Defaults to the URL's or key's last segment
+  parseOptions: ParseOptionsSchema.optional(),
+});
+
+// Statuses may be repeated or comma-separated: ?status=failed,complete
+const StatusFilterSchema = z.preprocess(
+  (value) =>
+    (Array.isArray(value) ? value : [value]).flatMap((item) =>
+      typeof item === "string" ? item.split(",").filter(Boolean) : [item]
+    ),
+  z.array(IngestionStatusSchema).min(1)
+);
+
+const ListIngestionsQuerySchema = z.object({
+  status: StatusFilterSchema.optional(),
+  schemaId: z.uuid().optional(),
+  filename: z.string().min(1).optional(), // Case-insensitive substring
+  createdFrom: z.coerce.date().optional(), // Inclusive
+  createdTo: z.coerce.date().optional(), // Exclusive
+  minRowCount: z.coerce.number().int().min(0).optional(),
+  maxRowCount: z.coerce.number().int().min(0).optional(),
+  // Sorting by completedAt leaves out ingestions that have not completed
+  sort: z.enum(["createdAt", "completedAt"]).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  cursor: z.string().optional(), // nextCursor from the previous page
+});
+
+const RerunIngestionRequestSchema = z.object({
+  schemaId: z.uuid().optional(), // Defaults to the original's schema, as it is now
+  parseOptions: ParseOptionsSchema.optional(), // Replace the original's options
+});
+
+// Enough lines to see every column's widest value
+const LAYOUT_SAMPLE_BYTES = 64 * 1024;
+
+// With attachFieldsToBody, each multipart text field arrives as a part object
+function unwrapMultipartFields(body: unknown): unknown {
+  if (!body || typeof body !== "object") return body;
+  return Object.fromEntries(
+    Object.entries(body).map(([name, part]) => [
+      name,
+      part?.type === "field" ? part.value : part,
+    ])
+  );
+}
 
 // =============================================================================
 // RESPONSE SCHEMAS
@@ -27,13 +174,21 @@ import { mapQueue, startIngestionPipeline } from "../workers/queues.js";
 const IngestionResponseSchema = z.object({
   id: z.uuid(),
   schemaId: z.uuid().nullable(),
+  parentId: z.uuid().nullable(), // Archive upload this ingestion was split from
+  rerunOfId: z.uuid().nullable(), // Ingestion whose raw file this one re-processes
   status: IngestionStatusSchema,
   rawFileKey: z.string(),
+  rawFileSha256: z.string().nullable(),
+  rawFileBytes: z.number().nullable(),
   originalFilename: z.string().nullable(),
   outputFileKey: z.string().nullable(),
   rowCount: z.number().nullable(),
   validRowCount: z.number().nullable(),
+  parseErrorCount: z.number().nullable(),
+  quarantineFileKey: z.string().nullable(),
   error: z.string().nullable(),
+  parseOptions: ParseOptionsSchema.nullable(),
+  dialect: DialectDetectionSchema.nullable(),
   createdAt: z.string(),
   updatedAt: z.string(),
   completedAt: z.string().nullable(),
@@ -43,8 +198,53 @@ const IngestionDetailResponseSchema = IngestionResponseSchema.extend({
   inferredSchema: InferredSchemaSchema.nullable(),
   mappingResult: MappingResultSchema.nullable(),
   validationResult: ValidationResultSchema.nullable(),
+  childIds: z.array(z.uuid()), // Ingestions split from this archive upload
+});
+
+const IngestionListResponseSchema = z.object({
+  items: z.array(IngestionResponseSchema),
+  nextCursor: z.string().nullable(), // Null on the last page
 });
 
+// Everything but the large pipeline outputs, which only the detail view returns
+const {
+  inferredSchema: _inferredSchema,
+  mappingResult: _mappingResult,
+  validationResult: _validationResult,
+  rowStore: _rowStore,
+  ...summaryColumns
+} = getTableColumns(ingestions);
+
+type IngestionSummaryRow = Omit<
+  IngestionRow,
+  "inferredSchema" | "mappingResult" | "validationResult" | "rowStore"
+>;
+
+function toResponse(ingestion: IngestionSummaryRow) {
+  return {
+    id: ingestion.id,
+    schemaId: ingestion.schemaId,
+    parentId: ingestion.parentId,
+    rerunOfId: ingestion.rerunOfId,
+    status: ingestion.status,
+    rawFileKey: ingestion.rawFileKey,
+    rawFileSha256: ingestion.rawFileSha256,
+    rawFileBytes: ingestion.rawFileBytes,
+    originalFilename: ingestion.originalFilename ?? null,
+    outputFileKey: ingestion.outputFileKey,
+    rowCount: ingestion.rowCount,
+    validRowCount: ingestion.validRowCount,
+    parseErrorCount: ingestion.parseErrorCount,
+    quarantineFileKey: ingestion.quarantineFileKey,
+    error: ingestion.error,
+    parseOptions: ingestion.parseOptions,
+    dialect: ingestion.dialect,
+    createdAt: ingestion.createdAt.toISOString(),
+    updatedAt: ingestion.updatedAt.toISOString(),
+    completedAt: ingestion.completedAt?.toISOString() ?? null,
+  };
+}
+
 const PendingReviewResponseSchema = z.object({
   ingestionId: z.uuid(),
   status: z.literal("awaiting_review"),
@@ -63,8 +263,67 @@ const PendingReviewResponseSchema = z.object({
         .optional(),
     })
   ),
+  // Headers the parse stage renamed, so reviewers see the file's own text
+  headerChanges: z.array(HeaderChangeSchema),
 });
 
+const CreatedResponseSchema = z.object({
+  id: z.uuid(),
+  status: z.string(),
+  sha256: z.string(),
+  byteCount: z.number(),
+  message: z.string(),
+});
+
+// How each way of failing to fetch a source is reported
+const SOURCE_FAILURE_STATUS = {
+  not_allowed: 403,
+  not_found: 404,
+  too_large: 413,
+  bad_status: 502,
+  unreachable: 502,
+  timeout: 504,
+} as const satisfies Record<SourceFetchFailure, number>;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Record a raw file already in storage as a new ingestion and start its
+ * pipeline.
+ */
+async function startIngestion(ingestion: {
+  id: string;
+  schemaId: string;
+  rawFile: StoredFile;
+  originalFilename: string;
+  parseOptions: ParseOptions;
+}) {
+  const { id, schemaId, rawFile, originalFilename, parseOptions } = ingestion;
+
+  await db.insert(ingestions).values({
+    id,
+    schemaId,
+    status: "pending",
+    rawFileKey: rawFile.key,
+    rawFileSha256: rawFile.sha256,
+    rawFileBytes: rawFile.byteCount,
+    originalFilename,
+    parseOptions,
+  });
+
+  await startIngestionPipeline(id, rawFile.key, parseOptions);
+
+  return {
+    id,
+    status: "pending",
+    sha256: rawFile.sha256,
+    byteCount: rawFile.byteCount,
+    message: "Ingestion started. Poll GET /ingestions/:id for status.",
+  };
+}
+
 // =============================================================================
 // ROUTES
 // =============================================================================
@@ -74,76 +333,264 @@ export const ingestionRoutes: FastifyPluginAsyncZod = async (fastify) => {
   fastify.post(
     "/",
     {
+      config: { streamUpload: true },
       schema: {
         summary: "Upload CSV",
-        description: "Upload a CSV file to start the ingestion pipeline",
+        description:
+          "Upload a CSV, XLSX/XLS/ODS, JSON/NDJSON or fixed-width file, optionally gzip/bzip2 compressed or zipped, to start the ingestion pipeline. With splitArchive, each file in a zip becomes a child ingestion.",
         tags: ["ingestions"],
         consumes: ["multipart/form-data"],
-        querystring: z.object({
+        querystring: ParseOptionsFieldsSchema.extend({
           schemaId: z.uuid(),
         }),
-        body: z.object({
-          // FIXME On swagger UI, this appears as type "string" - need to fix
-          file: z.any().describe("CSV file to upload"),
-        }),
+        body: z.preprocess(
+          unwrapMultipartFields,
+          ParseOptionsFieldsSchema.extend({
+            // FIXME On swagger UI, this appears as type "string" - need to fix
+            file: z.any().describe("CSV file to upload"),
+          })
+        ),
         response: {
-          202: z.object({
-            id: z.uuid(),
-            status: z.string(),
-            message: z.string(),
-          }),
+          202: CreatedResponseSchema,
           400: z.object({ error: z.string() }),
         },
       },
     },
     async (request, reply) => {
-      const { schemaId } = request.query;
-      const { file } = request.body;
-
-      // Validate schema exists if provided
-      if (schemaId) {
-        const [schema] = await db
-          .select()
-          .from(schemas)
-          .where(eq(schemas.id, schemaId));
-
-        if (!schema) {
-          return reply.code(400).send({ error: "Schema not found" });
-        }
-      }
+      const { schemaId, ...queryOptions } = request.query;
+      const { file, ...bodyOptions } = request.body;
+
+      const [schema] = await db
+        .select()
+        .from(schemas)
+        .where(eq(schemas.id, schemaId));
 
-      if (!file || !file.file) {
+      // The file was streamed to storage while the request was read
+      const upload: StoredUpload | undefined = file?.stored;
+      if (!upload) {
         return reply.code(400).send({ error: "No file uploaded" });
       }
 
-      // Generate ingestion ID
+      // Unclaimed uploads are deleted once the response is sent
+      if (!schema) {
+        return reply.code(400).send({ error: "Schema not found" });
+      }
+
+      // Upload options override the schema's defaults one option at a time
+      const parseOptions = {
+        ...schema.definition.parseOptions,
+        ...queryOptions,
+        ...bodyOptions,
+      };
+
+      // From here the ingestion owns the file, even if queueing fails
+      claimUpload(request, upload);
+
+      return reply.code(202).send(
+        await startIngestion({
+          id: upload.id,
+          schemaId,
+          rawFile: upload,
+          originalFilename: file.filename,
+          parseOptions,
+        })
+      );
+    }
+  );
+
+  // Create new ingestion from a URL or an existing storage key
+  fastify.post(
+    "/import",
+    {
+      schema: {
+        summary: "Import file",
+        description:
+          "Start an ingestion from a file that already exists elsewhere: an http(s) URL on SOURCE_URL_ALLOWLIST, or a key in this service's storage. The file is streamed into storage, within the MAX_FILE_SIZE_MB limit.",
+        tags: ["ingestions"],
+        body: ImportIngestionRequestSchema,
+        response: {
+          202: CreatedResponseSchema,
+          400: z.object({ error: z.string() }),
+          403: z.object({ error: z.string() }),
+          404: z.object({ error: z.string() }),
+          413: z.object({ error: z.string() }),
+          502: z.object({ error: z.string() }),
+          504: z.object({ error: z.string() }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { schemaId, source, filename, parseOptions: importOptions } = request.body;
+
+      const [schema] = await db
+        .select()
+        .from(schemas)
+        .where(eq(schemas.id, schemaId));
+
+      if (!schema) {
+        return reply.code(400).send({ error: "Schema not found" });
+      }
+
       const ingestionId = randomUUID();
-      const rawFileKey = generateRawFileKey(ingestionId, file.filename);
+      let opened: SourceStream | undefined;
+      let rawFile: StoredFile;
+      try {
+        opened =
+          "url" in source
+            ? await openSourceUrl(source.url)
+            : await openStorageSource(source.storageKey);
+        rawFile = await saveFileWithChecksum(
+          generateRawFileKey(ingestionId, filename ?? opened.filename),
+          opened.stream
+        );
+      } catch (error) {
+        if (error instanceof SourceFetchError) {
+          return reply.code(SOURCE_FAILURE_STATUS[error.reason]).send({ error: error.message });
+        }
+        throw error;
+      } finally {
+        if ("storageKey" in source) await clearLocalCache(source.storageKey);
+      }
 
-      // Save file to storage - convert multipart file to buffer
-      const fileBuffer = await file.toBuffer();
-      await saveFile(rawFileKey, fileBuffer);
+      // Import options override the schema's defaults one option at a time
+      const parseOptions = {
+        ...schema.definition.parseOptions,
+        ...importOptions,
+      };
 
-      // Create ingestion record
-      await db.insert(ingestions).values({
-        id: ingestionId,
-        schemaId: schemaId ?? null,
-        status: "pending",
-        rawFileKey,
-        originalFilename: file.filename,
-      });
+      return reply.code(202).send(
+        await startIngestion({
+          id: ingestionId,
+          schemaId,
+          rawFile,
+          originalFilename: filename ?? opened.filename,
+          parseOptions,
+        })
+      );
+    }
+  );
 
-      // Start pipeline
-      await startIngestionPipeline(ingestionId, rawFileKey);
+  // Suggest a fixed-width layout from a sample file
+  fastify.post(
+    "/fixed-width/suggest",
+    {
+      config: { sampleUpload: LAYOUT_SAMPLE_BYTES },
+      schema: {
+        summary: "Suggest fixed-width layout",
+        description:
+          "Guess field boundaries of a fixed-width text file from whitespace alignment in its first 64KB. Review the layout, then pass it as the fixedWidth parse option.",
+        tags: ["ingestions"],
+        consumes: ["multipart/form-data"],
+        body: z.preprocess(
+          unwrapMultipartFields,
+          z.object({
+            file: z.any().describe("Fixed-width text file"),
+            commentPrefix: z.string().min(1).optional(),
+          })
+        ),
+        response: {
+          200: z.object({
+            layout: FixedWidthLayoutSchema,
+            sampledLines: z.number(),
+            header: z.boolean(),
+          }),
+          400: z.object({ error: z.string() }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { file, commentPrefix } = request.body;
 
-      return reply.code(202).send({
-        id: ingestionId,
-        status: "pending",
-        message: "Ingestion started. Poll GET /ingestions/:id for status.",
+      // Only the first LAYOUT_SAMPLE_BYTES were kept while the request was read
+      const sample: UploadSample | undefined = file?.sample;
+      if (!sample) {
+        return reply.code(400).send({ error: "No file uploaded" });
+      }
+
+      const text = decodeSample(sample.bytes, detectEncoding(sample.bytes).encoding);
+
+      return suggestFixedWidthLayout(text, {
+        ...(commentPrefix && { commentPrefix }),
+        complete: sample.complete,
       });
     }
   );
 
+  // List ingestions, newest first by default
+  fastify.get(
+    "/",
+    {
+      schema: {
+        summary: "List ingestions",
+        description:
+          "List ingestions with optional filters, one page at a time. Pass the returned nextCursor as `cursor` with the same sort and order to fetch the next page.",
+        tags: ["ingestions"],
+        querystring: ListIngestionsQuerySchema,
+        response: {
+          200: IngestionListResponseSchema,
+          400: z.object({ error: z.string() }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const query = request.query;
+      const sortColumn = query.sort === "completedAt" ? ingestions.completedAt : ingestions.createdAt;
+      const direction = query.order === "asc" ? asc : desc;
+
+      const conditions: (SQL | undefined)[] = [
+        query.status ? inArray(ingestions.status, query.status) : undefined,
+        query.schemaId ? eq(ingestions.schemaId, query.schemaId) : undefined,
+        query.filename
+          ? ilike(ingestions.originalFilename, `%${escapeLikePattern(query.filename)}%`)
+          : undefined,
+        query.createdFrom ? gte(ingestions.createdAt, query.createdFrom) : undefined,
+        query.createdTo ? lt(ingestions.createdAt, query.createdTo) : undefined,
+        query.minRowCount !== undefined ? gte(ingestions.rowCount, query.minRowCount) : undefined,
+        query.maxRowCount !== undefined ? lte(ingestions.rowCount, query.maxRowCount) : undefined,
+        query.sort === "completedAt" ? isNotNull(ingestions.completedAt) : undefined,
+      ];
+
+      if (query.cursor) {
+        const cursor = decodeListCursor(query.cursor);
+        if (!cursor) {
+          return reply.code(400).send({ error: "Invalid cursor" });
+        }
+        if (cursor.sort !== query.sort || cursor.order !== query.order) {
+          return reply.code(400).send({
+            error: `Cursor was issued for sort=${cursor.sort}&order=${cursor.order}`,
+          });
+        }
+        // Row comparison matches the (sort column, id) index
+        const after = query.order === "asc" ? sql`>` : sql`<`;
+        conditions.push(
+          sql`(${sortColumn}, ${ingestions.id}) ${after} (${cursor.value}::timestamptz, ${cursor.id}::uuid)`
+        );
+      }
+
+      // One extra row tells us whether another page follows
+      const rows = await db
+        .select({ ...summaryColumns, sortValue: sql<string>`${sortColumn}::text` })
+        .from(ingestions)
+        .where(and(...conditions))
+        .orderBy(direction(sortColumn), direction(ingestions.id))
+        .limit(query.limit + 1);
+
+      const page = rows.slice(0, query.limit);
+      const last = page[page.length - 1];
+      const nextCursor =
+        rows.length > query.limit && last
+          ? encodeListCursor({
+              sort: query.sort,
+              order: query.order,
+              value: last.sortValue,
+              id: last.id,
+            })
+          : null;
+
+      return { items: page.map(toResponse), nextCursor };
+    }
+  );
+
   // Get ingestion status
   fastify.get(
     "/:id",
@@ -174,22 +621,18 @@ export const ingestionRoutes: FastifyPluginAsyncZod = async (fastify) => {
         return reply.code(404).send({ error: "Ingestion not found" });
       }
 
+      const children = await db
+        .select({ id: ingestions.id })
+        .from(ingestions)
+        .where(eq(ingestions.parentId, id))
+        .orderBy(ingestions.createdAt);
+
       return {
-        id: ingestion.id,
-        schemaId: ingestion.schemaId,
-        status: ingestion.status,
-        rawFileKey: ingestion.rawFileKey,
-        originalFilename: ingestion.originalFilename ?? null,
-        outputFileKey: ingestion.outputFileKey,
-        rowCount: ingestion.rowCount,
-        validRowCount: ingestion.validRowCount,
-        error: ingestion.error,
+        ...toResponse(ingestion),
         inferredSchema: ingestion.inferredSchema,
         mappingResult: ingestion.mappingResult,
         validationResult: ingestion.validationResult,
-        createdAt: ingestion.createdAt.toISOString(),
-        updatedAt: ingestion.updatedAt.toISOString(),
-        completedAt: ingestion.completedAt?.toISOString() ?? null,
+        childIds: children.map((child) => child.id),
       };
     }
   );
@@ -237,6 +680,7 @@ export const ingestionRoutes: FastifyPluginAsyncZod = async (fastify) => {
         ingestionId: ingestion.id,
         status: "awaiting_review" as const,
         ambiguousMappings: mappingResult?.ambiguousMappings ?? [],
+        headerChanges: ingestion.rowStore?.headerChanges ?? [],
       };
     }
   );
@@ -297,6 +741,28 @@ export const ingestionRoutes: FastifyPluginAsyncZod = async (fastify) => {
         details: { decisions },
       });
 
+      // Remember the full set of decisions for future files with the same headers
+      if (ingestion.schemaId) {
+        const template = await upsertMappingTemplate(
+          ingestion.schemaId,
+          updatedMappingResult.mappings.map((m) => ({
+            sourceColumn: m.sourceColumn,
+            targetColumn: m.targetColumn,
+          }))
+        );
+
+        await db.insert(decisionLogs).values({
+          ingestionId: id,
+          stage: "map",
+          decisionType: "template_saved",
+          details: {
+            templateId: template.id,
+            sourceFingerprint: template.sourceFingerprint,
+            usageCount: template.usageCount,
+          },
+        });
+      }
+
       // Update ingestion with resolved mappings
       await db
         .update(ingestions)
@@ -324,6 +790,243 @@ export const ingestionRoutes: FastifyPluginAsyncZod = async (fastify) => {
     }
   );
 
+  // Stop an ingestion that is still running
+  fastify.post(
+    "/:id/cancel",
+    {
+      schema: {
+        summary: "Cancel ingestion",
+        description:
+          "Stop an ingestion that has not finished. Queued jobs are removed; a stage that is already running stops at its next checkpoint. Cancelled ingestions can be retried.",
+        tags: ["ingestions"],
+        params: z.object({
+          id: z.uuid(),
+        }),
+        response: {
+          200: z.object({
+            id: z.uuid(),
+            status: IngestionStatusSchema,
+            message: z.string(),
+          }),
+          404: z.object({ error: z.string() }),
+          409: z.object({ error: z.string() }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+
+      const [cancelled] = await db
+        .update(ingestions)
+        .set({ status: "cancelled", updatedAt: new Date() })
+        .where(and(eq(ingestions.id, id), notInArray(ingestions.status, FINISHED_STATUSES)))
+        .returning({ id: ingestions.id });
+
+      if (!cancelled) {
+        const [ingestion] = await db
+          .select({ status: ingestions.status })
+          .from(ingestions)
+          .where(eq(ingestions.id, id));
+        if (!ingestion) {
+          return reply.code(404).send({ error: "Ingestion not found" });
+        }
+        return reply.code(409).send({ error: `Ingestion is already ${ingestion.status}` });
+      }
+
+      await removeIngestionJobs(id);
+
+      return {
+        id,
+        status: "cancelled" as const,
+        message: "Ingestion cancelled. Retry it with POST /ingestions/:id/retry.",
+      };
+    }
+  );
+
+  // Pick a failed or cancelled ingestion up where it stopped
+  fastify.post(
+    "/:id/retry",
+    {
+      schema: {
+        summary: "Retry ingestion",
+        description:
+          "Restart a failed or cancelled ingestion from the first stage whose result was not saved, reusing the results of earlier stages. Pass `stage` to restart from an earlier stage instead. An ingestion stopped while awaiting review returns to review.",
+        tags: ["ingestions"],
+        params: z.object({
+          id: z.uuid(),
+        }),
+        body: z
+          .object({
+            stage: PipelineStageSchema.optional(),
+          })
+          .optional(),
+        response: {
+          202: z.object({
+            id: z.uuid(),
+            status: IngestionStatusSchema,
+            stage: z.union([PipelineStageSchema, z.literal("review")]),
+            message: z.string(),
+          }),
+          400: z.object({ error: z.string() }),
+          404: z.object({ error: z.string() }),
+          409: z.object({ error: z.string() }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+      const stage = request.body?.stage;
+
+      const [ingestion] = await db
+        .select()
+        .from(ingestions)
+        .where(eq(ingestions.id, id));
+
+      if (!ingestion) {
+        return reply.code(404).send({ error: "Ingestion not found" });
+      }
+
+      if (!RETRYABLE_STATUSES.includes(ingestion.status)) {
+        return reply.code(409).send({
+          error: `Only failed or cancelled ingestions can be retried. Current status: ${ingestion.status}`,
+        });
+      }
+
+      const stoppedAt = resumePoint(ingestion);
+      if (stage && !canRestartFrom(stage, stoppedAt)) {
+        return reply.code(400).send({
+          error: `Cannot restart from ${stage}: the ingestion stopped before it, at ${stoppedAt}`,
+        });
+      }
+      const point = stage ?? stoppedAt;
+
+      if (await hasRunningJobs(id)) {
+        return reply.code(409).send({
+          error: "A stage of the cancelled run is still stopping; retry shortly",
+        });
+      }
+
+      // Clears old and delayed jobs, whose fixed ids would block new ones
+      await removeIngestionJobs(id);
+
+      const [restarted] = await db
+        .update(ingestions)
+        .set({
+          ...clearResultsFrom(point),
+          status: queuedStatus(point),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(ingestions.id, id), eq(ingestions.status, ingestion.status)))
+        .returning();
+
+      if (!restarted) {
+        return reply.code(409).send({ error: "Ingestion changed while it was being retried" });
+      }
+
+      if (point !== "review") {
+        await enqueueStage(restarted, point);
+      }
+
+      return reply.code(202).send({
+        id,
+        status: restarted.status,
+        stage: point,
+        message:
+          point === "review"
+            ? "Ingestion is awaiting review again. Resolve it to continue."
+            : `Ingestion restarted from the ${point} stage. Poll GET /ingestions/:id for status.`,
+      });
+    }
+  );
+
+  // Process the same raw file again as a new ingestion
+  fastify.post(
+    "/:id/rerun",
+    {
+      schema: {
+        summary: "Rerun ingestion",
+        description:
+          "Create a new ingestion from this one's raw file, optionally against a different schema or with different parse options. The new ingestion links back through rerunOfId; the original is left as it is.",
+        tags: ["ingestions"],
+        params: z.object({
+          id: z.uuid(),
+        }),
+        body: RerunIngestionRequestSchema.optional(),
+        response: {
+          202: z.object({
+            id: z.uuid(),
+            status: z.string(),
+            rerunOfId: z.uuid(),
+            message: z.string(),
+          }),
+          400: z.object({ error: z.string() }),
+          404: z.object({ error: z.string() }),
+          410: z.object({ error: z.string() }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+
+      const [original] = await db
+        .select()
+        .from(ingestions)
+        .where(eq(ingestions.id, id));
+
+      if (!original) {
+        return reply.code(404).send({ error: "Ingestion not found" });
+      }
+
+      const { schemaId: requestedSchemaId, parseOptions: requestedOptions } = request.body ?? {};
+      const schemaId = requestedSchemaId ?? original.schemaId;
+      if (!schemaId) {
+        return reply.code(400).send({ error: "The ingestion has no schema; pass schemaId" });
+      }
+
+      const [schema] = await db
+        .select()
+        .from(schemas)
+        .where(eq(schemas.id, schemaId));
+
+      if (!schema) {
+        return reply.code(400).send({ error: "Schema not found" });
+      }
+
+      if (!(await fileExists(original.rawFileKey))) {
+        return reply.code(410).send({ error: "The raw file is no longer in storage" });
+      }
+
+      // New options override the target schema's defaults; without them the
+      // file is read exactly as before
+      const parseOptions = requestedOptions
+        ? { ...schema.definition.parseOptions, ...requestedOptions }
+        : (original.parseOptions ?? { ...schema.definition.parseOptions });
+
+      // Both ingestions read the same raw file
+      const rerunId = randomUUID();
+      await db.insert(ingestions).values({
+        id: rerunId,
+        schemaId,
+        rerunOfId: original.id,
+        status: "pending",
+        rawFileKey: original.rawFileKey,
+        rawFileSha256: original.rawFileSha256,
+        rawFileBytes: original.rawFileBytes,
+        originalFilename: original.originalFilename,
+        parseOptions,
+      });
+
+      await startIngestionPipeline(rerunId, original.rawFileKey, parseOptions);
+
+      return reply.code(202).send({
+        id: rerunId,
+        status: "pending",
+        rerunOfId: original.id,
+        message: "Rerun started. Poll GET /ingestions/:id for status.",
+      });
+    }
+  );
+
   // Get decision log for an ingestion
   fastify.get(
     "/:id/decisions",
@@ -378,6 +1081,105 @@ export const ingestionRoutes: FastifyPluginAsyncZod = async (fastify) => {
     }
   );
 
+  // Download every validation error
+  fastify.get(
+    "/:id/errors",
+    {
+      schema: {
+        summary: "Download validation errors",
+        description:
+          "Download every row error found during validation as NDJSON, one row error per line. The ingestion's validationResult only carries a leading sample.",
+        tags: ["ingestions"],
+        params: z.object({
+          id: z.uuid(),
+        }),
+        produces: ["application/x-ndjson"],
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+
+      const [ingestion] = await db
+        .select()
+        .from(ingestions)
+        .where(eq(ingestions.id, id));
+
+      if (!ingestion) {
+        return reply.code(404).send({ error: "Ingestion not found" });
+      }
+
+      if (!ingestion.validationResult) {
+        return reply.code(400).send({
+          error: `Ingestion not validated yet. Current status: ${ingestion.status}`,
+        });
+      }
+
+      reply.header("Content-Type", "application/x-ndjson");
+      reply.header(
+        "Content-Disposition",
+        `attachment; filename="${ingestion.originalFilename ?? "output"}.errors.ndjson"`
+      );
+
+      // No file is written when every row passed
+      const errorsFileKey = ingestion.validationResult.errorsFileKey;
+      if (!errorsFileKey) {
+        return reply.send("");
+      }
+
+      const filePath = await getFilePath(errorsFileKey);
+      return reply.send(createReadStream(filePath));
+    }
+  );
+
+  // Download records the parser could not read
+  fastify.get(
+    "/:id/quarantine",
+    {
+      schema: {
+        summary: "Download quarantined records",
+        description:
+          "Download the malformed records skipped during parsing as NDJSON, one record per line with its line number, csv-parse error code, message and raw text.",
+        tags: ["ingestions"],
+        params: z.object({
+          id: z.uuid(),
+        }),
+        produces: ["application/x-ndjson"],
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+
+      const [ingestion] = await db
+        .select()
+        .from(ingestions)
+        .where(eq(ingestions.id, id));
+
+      if (!ingestion) {
+        return reply.code(404).send({ error: "Ingestion not found" });
+      }
+
+      if (ingestion.parseErrorCount === null) {
+        return reply.code(400).send({
+          error: `Ingestion not parsed yet. Current status: ${ingestion.status}`,
+        });
+      }
+
+      reply.header("Content-Type", "application/x-ndjson");
+      reply.header(
+        "Content-Disposition",
+        `attachment; filename="${ingestion.originalFilename ?? "output"}.quarantine.ndjson"`
+      );
+
+      // No file is written when every record parsed
+      if (!ingestion.quarantineFileKey) {
+        return reply.send("");
+      }
+
+      const filePath = await getFilePath(ingestion.quarantineFileKey);
+      return reply.send(createReadStream(filePath));
+    }
+  );
+
   // Download output file
   fastify.get(
     "/:id/output",
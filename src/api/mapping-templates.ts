@@ -0,0 +1,324 @@
+import { and, desc, eq } from "drizzle-orm";
+import { FastifyPluginAsyncZod } from "fastify-type-provider-zod";
+import { z } from "zod";
+import { db } from "../db/index.js";
+import {
+  mappingTemplates,
+  schemas,
+  type MappingTemplateRow,
+} from "../db/schema.js";
+import { fingerprintColumns } from "../services/mapping-templates.js";
+import {
+  MappingTemplateRequestSchema,
+  type CanonicalSchema,
+  type MappingTemplateRequest,
+} from "../types/index.js";
+
+// =============================================================================
+// RESPONSE SCHEMAS
+// =============================================================================
+
+const MappingTemplateResponseSchema = z.object({
+  id: z.uuid(),
+  schemaId: z.uuid(),
+  sourceFingerprint: z.string(),
+  mappings: z.array(
+    z.object({
+      sourceColumn: z.string(),
+      targetColumn: z.string().nullable(),
+    })
+  ),
+  usageCount: z.number(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const TemplateParamsSchema = z.object({
+  id: z.uuid(),
+  templateId: z.uuid(),
+});
+
+function toResponse(template: MappingTemplateRow) {
+  return {
+    id: template.id,
+    schemaId: template.schemaId,
+    sourceFingerprint: template.sourceFingerprint,
+    mappings: template.mappings,
+    usageCount: template.usageCount ?? 0,
+    createdAt: template.createdAt.toISOString(),
+    updatedAt: template.updatedAt.toISOString(),
+  };
+}
+
+// Returns an error message if the template does not fit the schema
+function checkTemplate(
+  body: MappingTemplateRequest,
+  definition: CanonicalSchema
+): string | null {
+  const targetNames = new Set(definition.columns.map((c) => c.name));
+  const sources = new Set<string>();
+  const targets = new Set<string>();
+
+  for (const m of body.mappings) {
+    if (sources.has(m.sourceColumn)) {
+      return `Duplicate source column: ${m.sourceColumn}`;
+    }
+    sources.add(m.sourceColumn);
+
+    if (m.targetColumn === null) continue;
+    if (!targetNames.has(m.targetColumn)) {
+      return `Unknown target column: ${m.targetColumn}`;
+    }
+    if (targets.has(m.targetColumn)) {
+      return `Target column mapped more than once: ${m.targetColumn}`;
+    }
+    targets.add(m.targetColumn);
+  }
+
+  return null;
+}
+
+// =============================================================================
+// ROUTES
+// =============================================================================
+
+export const mappingTemplateRoutes: FastifyPluginAsyncZod = async (fastify) => {
+  // List templates learned for a schema
+  fastify.get(
+    "/:id/mapping-templates",
+    {
+      schema: {
+        summary: "List mapping templates",
+        description:
+          "Retrieve remembered column mappings that are reused for files with the same headers",
+        tags: ["mapping-templates"],
+        params: z.object({
+          id: z.uuid(),
+        }),
+        response: {
+          200: z.array(MappingTemplateResponseSchema),
+          404: z.object({ error: z.string() }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+
+      const [schema] = await db.select().from(schemas).where(eq(schemas.id, id));
+      if (!schema) {
+        return reply.code(404).send({ error: "Schema not found" });
+      }
+
+      const templates = await db
+        .select()
+        .from(mappingTemplates)
+        .where(eq(mappingTemplates.schemaId, id))
+        .orderBy(desc(mappingTemplates.updatedAt));
+
+      return templates.map(toResponse);
+    }
+  );
+
+  // Get a single template
+  fastify.get(
+    "/:id/mapping-templates/:templateId",
+    {
+      schema: {
+        summary: "Get mapping template",
+        description: "Retrieve a specific mapping template",
+        tags: ["mapping-templates"],
+        params: TemplateParamsSchema,
+        response: {
+          200: MappingTemplateResponseSchema,
+          404: z.object({ error: z.string() }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id, templateId } = request.params;
+
+      const [template] = await db
+        .select()
+        .from(mappingTemplates)
+        .where(
+          and(
+            eq(mappingTemplates.id, templateId),
+            eq(mappingTemplates.schemaId, id)
+          )
+        );
+
+      if (!template) {
+        return reply.code(404).send({ error: "Mapping template not found" });
+      }
+
+      return toResponse(template);
+    }
+  );
+
+  // Create a template manually
+  fastify.post(
+    "/:id/mapping-templates",
+    {
+      schema: {
+        summary: "Create mapping template",
+        description:
+          "Define a mapping for a set of source headers. The header set is taken from the mappings' source columns.",
+        tags: ["mapping-templates"],
+        params: z.object({
+          id: z.uuid(),
+        }),
+        body: MappingTemplateRequestSchema,
+        response: {
+          201: MappingTemplateResponseSchema,
+          400: z.object({ error: z.string() }),
+          404: z.object({ error: z.string() }),
+          409: z.object({ error: z.string() }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+
+      const [schema] = await db.select().from(schemas).where(eq(schemas.id, id));
+      if (!schema) {
+        return reply.code(404).send({ error: "Schema not found" });
+      }
+
+      const problem = checkTemplate(request.body, schema.definition);
+      if (problem) {
+        return reply.code(400).send({ error: problem });
+      }
+
+      const [created] = await db
+        .insert(mappingTemplates)
+        .values({
+          schemaId: id,
+          sourceFingerprint: fingerprintColumns(
+            request.body.mappings.map((m) => m.sourceColumn)
+          ),
+          mappings: request.body.mappings,
+          usageCount: 0,
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      if (!created) {
+        return reply.code(409).send({
+          error: "A template for this set of source columns already exists",
+        });
+      }
+
+      return reply.code(201).send(toResponse(created));
+    }
+  );
+
+  // Replace a template's mappings
+  fastify.put(
+    "/:id/mapping-templates/:templateId",
+    {
+      schema: {
+        summary: "Update mapping template",
+        description: "Replace the mappings stored in a template",
+        tags: ["mapping-templates"],
+        params: TemplateParamsSchema,
+        body: MappingTemplateRequestSchema,
+        response: {
+          200: MappingTemplateResponseSchema,
+          400: z.object({ error: z.string() }),
+          404: z.object({ error: z.string() }),
+          409: z.object({ error: z.string() }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id, templateId } = request.params;
+
+      const [schema] = await db.select().from(schemas).where(eq(schemas.id, id));
+      if (!schema) {
+        return reply.code(404).send({ error: "Schema not found" });
+      }
+
+      const problem = checkTemplate(request.body, schema.definition);
+      if (problem) {
+        return reply.code(400).send({ error: problem });
+      }
+
+      const sourceFingerprint = fingerprintColumns(
+        request.body.mappings.map((m) => m.sourceColumn)
+      );
+
+      const [existing] = await db
+        .select()
+        .from(mappingTemplates)
+        .where(
+          and(
+            eq(mappingTemplates.schemaId, id),
+            eq(mappingTemplates.sourceFingerprint, sourceFingerprint)
+          )
+        );
+
+      if (existing && existing.id !== templateId) {
+        return reply.code(409).send({
+          error: "Another template already covers this set of source columns",
+        });
+      }
+
+      const [updated] = await db
+        .update(mappingTemplates)
+        .set({
+          sourceFingerprint,
+          mappings: request.body.mappings,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(mappingTemplates.id, templateId),
+            eq(mappingTemplates.schemaId, id)
+          )
+        )
+        .returning();
+
+      if (!updated) {
+        return reply.code(404).send({ error: "Mapping template not found" });
+      }
+
+      return toResponse(updated);
+    }
+  );
+
+  // Delete a template
+  fastify.delete(
+    "/:id/mapping-templates/:templateId",
+    {
+      schema: {
+        summary: "Delete mapping template",
+        description: "Forget a remembered mapping",
+        tags: ["mapping-templates"],
+        params: TemplateParamsSchema,
+        response: {
+          204: z.null(),
+          404: z.object({ error: z.string() }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id, templateId } = request.params;
+
+      const deleted = await db
+        .delete(mappingTemplates)
+        .where(
+          and(
+            eq(mappingTemplates.id, templateId),
+            eq(mappingTemplates.schemaId, id)
+          )
+        )
+        .returning();
+
+      if (deleted.length === 0) {
+        return reply.code(404).send({ error: "Mapping template not found" });
+      }
+
+      return reply.code(204).send();
+    }
+  );
+};
@@ -2,7 +2,7 @@ import { eq } from "drizzle-orm";
 import { FastifyPluginAsyncZod } from "fastify-type-provider-zod";
 import { z } from "zod";
 import { db } from "../db/index.js";
-import { schemas } from "../db/schema.js";
+import { dropZones, mappingTemplates, schemas } from "../db/schema.js";
 import { CanonicalSchemaSchema } from "../types/index.js";
 
 // =============================================================================
@@ -157,12 +157,26 @@ export const schemaRoutes: FastifyPluginAsyncZod = async (fastify) => {
         response: {
           204: z.null(),
           404: z.object({ error: z.string() }),
+          409: z.object({ error: z.string() }),
         },
       },
     },
     async (request, reply) => {
       const { id } = request.params;
 
+      const [zone] = await db
+        .select({ name: dropZones.name })
+        .from(dropZones)
+        .where(eq(dropZones.schemaId, id));
+      if (zone) {
+        return reply.code(409).send({
+          error: `Schema is used by drop zone "${zone.name}"`,
+        });
+      }
+
+      // Templates belong to the schema, so they go with it
+      await db.delete(mappingTemplates).where(eq(mappingTemplates.schemaId, id));
+
       const deleted = await db
         .delete(schemas)
         .where(eq(schemas.id, id))
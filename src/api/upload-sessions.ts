@@ -0,0 +1,467 @@
+import { randomUUID } from "crypto";
+import { and, eq, sql } from "drizzle-orm";
+import { FastifyPluginAsyncZod } from "fastify-type-provider-zod";
+import { z } from "zod";
+import { config } from "../config.js";
+import { db } from "../db/index.js";
+import {
+  ingestions,
+  schemas,
+  uploadSessions,
+  type UploadSessionRow,
+} from "../db/schema.js";
+import {
+  deleteFile,
+  generateRawFileKey,
+  generateUploadChunkKey,
+  saveFileWithChecksum,
+  type StoredFile,
+} from "../services/storage.js";
+import {
+  assembleUpload,
+  chunksCoverFile,
+  discardUploadChunks,
+  uploadSessionExpiry,
+} from "../services/upload-sessions.js";
+import {
+  CreateUploadSessionRequestSchema,
+  UploadSessionStatusSchema,
+  type UploadChunk,
+} from "../types/index.js";
+import { startIngestionPipeline } from "../workers/queues.js";
+
+// Chunks are sent as raw bytes, as in the tus protocol
+const CHUNK_CONTENT_TYPE = "application/offset+octet-stream";
+
+// =============================================================================
+// RESPONSE SCHEMAS
+// =============================================================================
+
+const UploadSessionResponseSchema = z.object({
+  id: z.uuid(),
+  schemaId: z.uuid(),
+  status: UploadSessionStatusSchema,
+  filename: z.string(),
+  totalBytes: z.number(),
+  offset: z.number(), // Bytes received so far; the next chunk starts here
+  maxChunkBytes: z.number(),
+  ingestionId: z.uuid().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  expiresAt: z.string(),
+});
+
+const ErrorResponseSchema = z.object({ error: z.string() });
+
+// Conflicts report where the upload actually stands so the client can resume
+const ConflictResponseSchema = z.object({
+  error: z.string(),
+  offset: z.number(),
+});
+
+function toResponse(session: UploadSessionRow) {
+  return {
+    id: session.id,
+    schemaId: session.schemaId,
+    status: session.status,
+    filename: session.filename,
+    totalBytes: session.totalBytes,
+    offset: session.receivedBytes,
+    maxChunkBytes: config.uploadChunkMaxMb * 1024 * 1024,
+    ingestionId: session.ingestionId,
+    createdAt: session.createdAt.toISOString(),
+    updatedAt: session.updatedAt.toISOString(),
+    expiresAt: session.expiresAt.toISOString(),
+  };
+}
+
+async function findSession(id: string): Promise<UploadSessionRow | undefined> {
+  const [session] = await db
+    .select()
+    .from(uploadSessions)
+    .where(eq(uploadSessions.id, id));
+  return session;
+}
+
+// =============================================================================
+// ROUTES
+// =============================================================================
+
+export const uploadSessionRoutes: FastifyPluginAsyncZod = async (fastify) => {
+  // Chunk bodies are streamed to storage by the handler, never buffered
+  fastify.addContentTypeParser(CHUNK_CONTENT_TYPE, (_request, _payload, done) => {
+    done(null);
+  });
+
+  // Start a resumable upload
+  fastify.post(
+    "/",
+    {
+      schema: {
+        summary: "Create upload session",
+        description:
+          "Start a resumable upload. Send the file in chunks with PATCH, then finalize it to create the ingestion. Sessions that receive nothing for UPLOAD_SESSION_TTL_HOURS are discarded.",
+        tags: ["uploads"],
+        body: CreateUploadSessionRequestSchema,
+        response: {
+          201: UploadSessionResponseSchema,
+          400: ErrorResponseSchema,
+          413: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { schemaId, filename, totalBytes, parseOptions } = request.body;
+
+      const [schema] = await db
+        .select({ id: schemas.id })
+        .from(schemas)
+        .where(eq(schemas.id, schemaId));
+      if (!schema) {
+        return reply.code(400).send({ error: "Schema not found" });
+      }
+
+      if (totalBytes > config.maxFileSizeMb * 1024 * 1024) {
+        return reply.code(413).send({
+          error: `File exceeds the ${config.maxFileSizeMb}MB upload limit`,
+        });
+      }
+
+      const [session] = await db
+        .insert(uploadSessions)
+        .values({
+          schemaId,
+          filename,
+          totalBytes,
+          parseOptions: parseOptions ?? null,
+          expiresAt: uploadSessionExpiry(),
+        })
+        .returning();
+
+      return reply.code(201).send(toResponse(session!));
+    }
+  );
+
+  // Where an upload stands, to resume after a dropped connection
+  fastify.get(
+    "/:id",
+    {
+      schema: {
+        summary: "Get upload session",
+        description:
+          "Retrieve an upload session. Resume by sending the next chunk from `offset`.",
+        tags: ["uploads"],
+        params: z.object({
+          id: z.uuid(),
+        }),
+        response: {
+          200: UploadSessionResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const session = await findSession(request.params.id);
+      if (!session) {
+        return reply.code(404).send({ error: "Upload session not found" });
+      }
+
+      return toResponse(session);
+    }
+  );
+
+  // Append a chunk
+  fastify.patch(
+    "/:id",
+    {
+      schema: {
+        summary: "Upload a chunk",
+        description: `Append the request body, sent as ${CHUNK_CONTENT_TYPE}, at the byte offset in the Upload-Offset header. The offset must equal the session's current offset; a 409 reports the offset to resume from.`,
+        tags: ["uploads"],
+        params: z.object({
+          id: z.uuid(),
+        }),
+        headers: z.object({
+          "upload-offset": z.coerce.number().int().min(0),
+          "content-length": z.coerce.number().int().positive(),
+        }),
+        response: {
+          200: UploadSessionResponseSchema,
+          400: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+          409: ConflictResponseSchema,
+          410: ErrorResponseSchema,
+          413: ErrorResponseSchema,
+          415: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+      const offset = request.headers["upload-offset"];
+      const length = request.headers["content-length"];
+
+      if (!request.headers["content-type"]?.startsWith(CHUNK_CONTENT_TYPE)) {
+        return reply.code(415).send({ error: `Chunks must be sent as ${CHUNK_CONTENT_TYPE}` });
+      }
+
+      const session = await findSession(id);
+      if (!session) {
+        return reply.code(404).send({ error: "Upload session not found" });
+      }
+      if (session.status !== "open") {
+        return reply.code(410).send({ error: `Upload session is ${session.status}` });
+      }
+      if (offset !== session.receivedBytes) {
+        return reply.code(409).send({
+          error: "Upload-Offset does not match the bytes received so far",
+          offset: session.receivedBytes,
+        });
+      }
+      if (length > config.uploadChunkMaxMb * 1024 * 1024) {
+        return reply.code(413).send({
+          error: `Chunks are limited to ${config.uploadChunkMaxMb}MB`,
+        });
+      }
+      if (offset + length > session.totalBytes) {
+        return reply.code(413).send({ error: "Chunk runs past the declared file size" });
+      }
+
+      const stored = await saveFileWithChecksum(
+        generateUploadChunkKey(id, randomUUID()),
+        request.raw
+      );
+      if (stored.byteCount !== length) {
+        await deleteFile(stored.key);
+        return reply.code(400).send({ error: "Chunk ended before Content-Length bytes" });
+      }
+
+      // Only one chunk can land at a given offset, even when requests race
+      const chunk: UploadChunk = { key: stored.key, offset, byteCount: stored.byteCount };
+      const [updated] = await db
+        .update(uploadSessions)
+        .set({
+          receivedBytes: offset + stored.byteCount,
+          chunks: sql`${uploadSessions.chunks} || ${JSON.stringify([chunk])}::jsonb`,
+          updatedAt: new Date(),
+          expiresAt: uploadSessionExpiry(),
+        })
+        .where(
+          and(
+            eq(uploadSessions.id, id),
+            eq(uploadSessions.status, "open"),
+            eq(uploadSessions.receivedBytes, offset)
+          )
+        )
+        .returning();
+
+      if (!updated) {
+        await deleteFile(stored.key);
+        const current = await findSession(id);
+        return reply.code(409).send({
+          error: "Another chunk was stored at this offset first",
+          offset: current?.receivedBytes ?? 0,
+        });
+      }
+
+      reply.header("upload-offset", String(updated.receivedBytes));
+      return toResponse(updated);
+    }
+  );
+
+  // Assemble the chunks, verify the checksum and start the ingestion
+  fastify.post(
+    "/:id/finalize",
+    {
+      schema: {
+        summary: "Finalize upload",
+        description:
+          "Assemble a fully received upload and verify its SHA-256 checksum. On a match the ingestion is created and started; on a mismatch the upload is discarded.",
+        tags: ["uploads"],
+        params: z.object({
+          id: z.uuid(),
+        }),
+        body: z.object({
+          sha256: z
+            .string()
+            .regex(/^[0-9a-fA-F]{64}$/)
+            .transform((value) => value.toLowerCase()),
+        }),
+        response: {
+          202: z.object({
+            id: z.uuid(),
+            status: z.string(),
+            sha256: z.string(),
+            byteCount: z.number(),
+            message: z.string(),
+          }),
+          400: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+          409: ConflictResponseSchema,
+          410: ErrorResponseSchema,
+          422: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+
+      // Claim the session so a repeated finalize cannot assemble it twice
+      const [session] = await db
+        .update(uploadSessions)
+        .set({ status: "finalizing", updatedAt: new Date() })
+        .where(
+          and(
+            eq(uploadSessions.id, id),
+            eq(uploadSessions.status, "open"),
+            eq(uploadSessions.receivedBytes, uploadSessions.totalBytes)
+          )
+        )
+        .returning();
+
+      if (!session) {
+        const current = await findSession(id);
+        if (!current) {
+          return reply.code(404).send({ error: "Upload session not found" });
+        }
+        if (current.status !== "open") {
+          return reply.code(410).send({ error: `Upload session is ${current.status}` });
+        }
+        return reply.code(409).send({
+          error: `Upload is incomplete: ${current.receivedBytes} of ${current.totalBytes} bytes received`,
+          offset: current.receivedBytes,
+        });
+      }
+
+      const [schema] = await db
+        .select()
+        .from(schemas)
+        .where(eq(schemas.id, session.schemaId));
+
+      if (!schema || !chunksCoverFile(session.chunks, session.totalBytes)) {
+        await db
+          .update(uploadSessions)
+          .set({ status: "open", updatedAt: new Date() })
+          .where(eq(uploadSessions.id, id));
+        return reply.code(400).send({
+          error: schema ? "Stored chunks do not cover the file" : "Schema not found",
+        });
+      }
+
+      const ingestionId = randomUUID();
+      let rawFile: StoredFile;
+      try {
+        rawFile = await assembleUpload(
+          session.chunks,
+          generateRawFileKey(ingestionId, session.filename)
+        );
+      } catch (error) {
+        // The chunks are intact, so finalize can be retried
+        await db
+          .update(uploadSessions)
+          .set({ status: "open", updatedAt: new Date() })
+          .where(eq(uploadSessions.id, id));
+        throw error;
+      }
+      if (rawFile.sha256 !== request.body.sha256) {
+        await deleteFile(rawFile.key);
+        await discardUploadChunks(session.chunks);
+        await db
+          .update(uploadSessions)
+          .set({ status: "failed", chunks: [], updatedAt: new Date() })
+          .where(eq(uploadSessions.id, id));
+        return reply.code(422).send({
+          error: `Checksum mismatch: received bytes hash to ${rawFile.sha256}. Start a new upload.`,
+        });
+      }
+
+      // Upload options override the schema's defaults one option at a time
+      const parseOptions = {
+        ...schema.definition.parseOptions,
+        ...session.parseOptions,
+      };
+
+      try {
+        await db.insert(ingestions).values({
+          id: ingestionId,
+          schemaId: session.schemaId,
+          status: "pending",
+          rawFileKey: rawFile.key,
+          rawFileSha256: rawFile.sha256,
+          rawFileBytes: rawFile.byteCount,
+          originalFilename: session.filename,
+          parseOptions,
+        });
+        await startIngestionPipeline(ingestionId, rawFile.key, parseOptions);
+      } catch (error) {
+        // Undo the assembly; the chunks are still there, so finalize can be retried
+        await db.delete(ingestions).where(eq(ingestions.id, ingestionId)).catch(() => undefined);
+        await deleteFile(rawFile.key).catch(() => undefined);
+        await db
+          .update(uploadSessions)
+          .set({ status: "open", updatedAt: new Date() })
+          .where(eq(uploadSessions.id, id));
+        throw error;
+      }
+
+      await discardUploadChunks(session.chunks);
+      await db
+        .update(uploadSessions)
+        .set({ status: "complete", ingestionId, chunks: [], updatedAt: new Date() })
+        .where(eq(uploadSessions.id, id));
+
+      return reply.code(202).send({
+        id: ingestionId,
+        status: "pending",
+        sha256: rawFile.sha256,
+        byteCount: rawFile.byteCount,
+        message: "Ingestion started. Poll GET /ingestions/:id for status.",
+      });
+    }
+  );
+
+  // Abandon an upload
+  fastify.delete(
+    "/:id",
+    {
+      schema: {
+        summary: "Cancel upload",
+        description: "Discard an open upload session and the chunks stored so far",
+        tags: ["uploads"],
+        params: z.object({
+          id: z.uuid(),
+        }),
+        response: {
+          204: z.null(),
+          404: ErrorResponseSchema,
+          410: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+
+      const [session] = await db
+        .update(uploadSessions)
+        .set({ status: "expired", updatedAt: new Date() })
+        .where(and(eq(uploadSessions.id, id), eq(uploadSessions.status, "open")))
+        .returning();
+
+      if (!session) {
+        const current = await findSession(id);
+        if (!current) {
+          return reply.code(404).send({ error: "Upload session not found" });
+        }
+        return reply.code(410).send({ error: `Upload session is ${current.status}` });
+      }
+
+      await discardUploadChunks(session.chunks);
+      await db
+        .update(uploadSessions)
+        .set({ chunks: [] })
+        .where(eq(uploadSessions.id, id));
+
+      return reply.code(204).send();
+    }
+  );
+};
@@ -0,0 +1,140 @@
+import type { MultipartFile } from "@fastify/multipart";
+import { randomUUID } from "crypto";
+import type { FastifyReply, FastifyRequest } from "fastify";
+import {
+  deleteFile,
+  generateRawFileKey,
+  saveFileWithChecksum,
+  type StoredFile,
+} from "../services/storage.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface StoredUpload extends StoredFile {
+  id: string; // Generated for the upload; becomes the ingestion ID
+}
+
+export interface UploadSample {
+  bytes: Buffer; // The file's first bytes, up to the route's sample size
+  complete: boolean; // Whether the sample is the whole file
+}
+
+declare module "fastify" {
+  interface FastifyContextConfig {
+    // Stream uploaded files straight to storage instead of buffering them
+    streamUpload?: boolean;
+    // Keep only this many leading bytes of each uploaded file
+    sampleUpload?: number;
+  }
+
+  interface FastifyRequest {
+    // Files streamed to storage that no handler has claimed yet
+    unclaimedUploads: StoredUpload[] | null;
+  }
+}
+
+declare module "@fastify/multipart" {
+  interface MultipartFile {
+    stored?: StoredUpload; // Set on routes with `streamUpload`
+    sample?: UploadSample; // Set on routes with `sampleUpload`
+  }
+}
+
+export class UploadTooLargeError extends Error {
+  readonly statusCode = 413;
+
+  constructor(maxBytes: number) {
+    super(`File exceeds the ${Math.round(maxBytes / (1024 * 1024))}MB upload limit`);
+    this.name = "UploadTooLargeError";
+  }
+}
+
+// =============================================================================
+// MULTIPART FILE HANDLER
+// =============================================================================
+
+// Read the first `limit` bytes of a stream and discard the rest
+async function readSample(stream: AsyncIterable<Buffer>, limit: number): Promise<UploadSample> {
+  const chunks: Buffer[] = [];
+  let kept = 0;
+  let complete = true;
+
+  for await (const chunk of stream) {
+    if (kept < limit) {
+      const part = chunk.subarray(0, limit - kept);
+      chunks.push(part);
+      kept += part.length;
+      if (part.length < chunk.length) complete = false;
+    } else if (chunk.length > 0) {
+      complete = false;
+    }
+  }
+
+  return { bytes: Buffer.concat(chunks), complete };
+}
+
+/**
+ * Multipart `onFile` handler. Routes that set `config.streamUpload` get each
+ * file piped into raw storage as it arrives, with its checksum and size on
+ * `part.stored`. Routes that set `config.sampleUpload` get the file's first
+ * bytes on `part.sample`; other routes get the file buffered as usual.
+ */
+export function createUploadHandler(maxBytes: number) {
+  return async function onFile(this: FastifyRequest, part: MultipartFile): Promise<void> {
+    const { streamUpload, sampleUpload } = this.routeOptions.config;
+
+    if (sampleUpload) {
+      part.sample = await readSample(part.file, sampleUpload);
+      return;
+    }
+    if (!streamUpload) {
+      await part.toBuffer();
+      return;
+    }
+
+    const id = randomUUID();
+    const stored = await saveFileWithChecksum(generateRawFileKey(id, part.filename), part.file);
+
+    // Busboy ends an oversized file early rather than failing the stream
+    if (part.file.truncated) {
+      await deleteFile(stored.key).catch(() => undefined);
+      throw new UploadTooLargeError(maxBytes);
+    }
+
+    part.stored = { id, ...stored };
+    (this.unclaimedUploads ??= []).push(part.stored);
+  };
+}
+
+// =============================================================================
+// CLEANUP
+// =============================================================================
+
+/** Keep a streamed file: the handler has recorded it against an ingestion. */
+export function claimUpload(request: FastifyRequest, upload: StoredUpload): void {
+  request.unclaimedUploads =
+    request.unclaimedUploads?.filter((u) => u.key !== upload.key) ?? null;
+}
+
+/**
+ * `onResponse` hook. Files are streamed before the route's schema is
+ * checked, so a request can fail validation, error out or carry extra file
+ * parts after its files are already stored; whatever the handler did not
+ * claim is deleted once the response is sent.
+ */
+export async function discardUnclaimedUploads(
+  request: FastifyRequest,
+  _reply: FastifyReply
+): Promise<void> {
+  const uploads = request.unclaimedUploads;
+  if (!uploads || uploads.length === 0) return;
+  request.unclaimedUploads = null;
+
+  for (const upload of uploads) {
+    await deleteFile(upload.key).catch((error) => {
+      request.log.warn({ key: upload.key, error }, "Could not delete unclaimed upload");
+    });
+  }
+}
@@ -23,11 +23,51 @@ const ConfigSchema = z.object({
 
   // OpenAI
   openaiApiKey: z.string().optional(),
+  openaiModel: z.string().default("gpt-4o-mini"),
+
+  // AI-assisted mapping ("openai" when a key is configured, otherwise "none")
+  aiMappingProvider: z.enum(["none", "openai", "stub"]).optional(),
+  aiMappingTimeoutMs: z.coerce.number().default(30000),
 
   // Pipeline settings
   inferenceSampleSize: z.coerce.number().default(1000),
+  rowStoreChunkRows: z.coerce.number().int().positive().default(50000),
+  uniqueMemoryBudgetMb: z.coerce.number().positive().default(64),
+  // Share of malformed CSV records tolerated before a parse fails (0-1)
+  parseMaxErrorRatio: z.coerce.number().min(0).max(1).default(0),
+  validationErrorSampleSize: z.coerce.number().int().nonnegative().default(100),
+  // Files with at least this many rows validate their row-store chunks in parallel
+  validationChunkMinRows: z.coerce.number().int().positive().default(200000),
+  validationChunkConcurrency: z.coerce.number().int().positive().default(2),
   mappingConfidenceThreshold: z.coerce.number().default(0.8),
   maxFileSizeMb: z.coerce.number().default(100),
+  // Zip-bomb guards for compressed and archived uploads
+  decompressMaxMb: z.coerce.number().positive().default(2048),
+  decompressMaxRatio: z.coerce.number().positive().default(200),
+  archiveMaxEntries: z.coerce.number().int().positive().default(100),
+  // Resumable uploads
+  uploadChunkMaxMb: z.coerce.number().positive().default(32),
+  uploadSessionTtlHours: z.coerce.number().positive().default(24),
+  uploadCleanupIntervalMinutes: z.coerce.number().positive().default(15),
+  // Ingestion from a URL: comma-separated hosts ("*.example.com" for
+  // subdomains); empty disables it. Private addresses need an explicit opt-in
+  sourceUrlAllowlist: z
+    .string()
+    .default("")
+    .transform((value) =>
+      value
+        .split(",")
+        .map((host) => host.trim())
+        .filter((host) => host.length > 0)
+    ),
+  sourceAllowPrivateNetworks: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+  sourceFetchTimeoutMs: z.coerce.number().int().positive().default(120000),
+  // Drop zones: files are picked up once unchanged for the settle time
+  dropZonePollSeconds: z.coerce.number().positive().default(30),
+  dropZoneSettleSeconds: z.coerce.number().min(0).default(10),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
@@ -47,9 +87,29 @@ function loadConfig(): Config {
     awsSecretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
     s3Bucket: process.env.S3_BUCKET,
     openaiApiKey: process.env.OPENAI_API_KEY,
+    openaiModel: process.env.OPENAI_MODEL,
+    aiMappingProvider: process.env.AI_MAPPING_PROVIDER,
+    aiMappingTimeoutMs: process.env.AI_MAPPING_TIMEOUT_MS,
     inferenceSampleSize: process.env.INFERENCE_SAMPLE_SIZE,
+    rowStoreChunkRows: process.env.ROW_STORE_CHUNK_ROWS,
+    uniqueMemoryBudgetMb: process.env.UNIQUE_MEMORY_BUDGET_MB,
+    parseMaxErrorRatio: process.env.PARSE_MAX_ERROR_RATIO,
+    validationErrorSampleSize: process.env.VALIDATION_ERROR_SAMPLE_SIZE,
+    validationChunkMinRows: process.env.VALIDATION_CHUNK_MIN_ROWS,
+    validationChunkConcurrency: process.env.VALIDATION_CHUNK_CONCURRENCY,
     mappingConfidenceThreshold: process.env.MAPPING_CONFIDENCE_THRESHOLD,
     maxFileSizeMb: process.env.MAX_FILE_SIZE_MB,
+    decompressMaxMb: process.env.DECOMPRESS_MAX_MB,
+    decompressMaxRatio: process.env.DECOMPRESS_MAX_RATIO,
+    archiveMaxEntries: process.env.ARCHIVE_MAX_ENTRIES,
+    uploadChunkMaxMb: process.env.UPLOAD_CHUNK_MAX_MB,
+    uploadSessionTtlHours: process.env.UPLOAD_SESSION_TTL_HOURS,
+    uploadCleanupIntervalMinutes: process.env.UPLOAD_CLEANUP_INTERVAL_MINUTES,
+    sourceUrlAllowlist: process.env.SOURCE_URL_ALLOWLIST,
+    sourceAllowPrivateNetworks: process.env.SOURCE_ALLOW_PRIVATE_NETWORKS,
+    sourceFetchTimeoutMs: process.env.SOURCE_FETCH_TIMEOUT_MS,
+    dropZonePollSeconds: process.env.DROP_ZONE_POLL_SECONDS,
+    dropZoneSettleSeconds: process.env.DROP_ZONE_SETTLE_SECONDS,
   });
 
   if (!result.success) {
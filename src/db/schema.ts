@@ -1,4 +1,8 @@
 import {
+  type AnyPgColumn,
+  bigint,
+  boolean,
+  index,
   integer,
   jsonb,
   pgTable,
@@ -9,9 +13,15 @@ import {
 } from "drizzle-orm/pg-core";
 import type {
   CanonicalSchema,
+  DialectDetection,
+  DropZoneFileStatus,
   InferredSchema,
   IngestionStatus,
   MappingResult,
+  ParseOptions,
+  RowStoreManifest,
+  UploadChunk,
+  UploadSessionStatus,
   ValidationResult,
 } from "../types/index.js";
 
@@ -40,35 +50,62 @@ export type NewSchemaRow = typeof schemas.$inferInsert;
 // INGESTIONS TABLE
 // =============================================================================
 
-export const ingestions = pgTable("ingestions", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  schemaId: uuid("schema_id").references(() => schemas.id),
-  status: text("status").notNull().$type<IngestionStatus>().default("pending"),
-  rawFileKey: text("raw_file_key").notNull(),
-  originalFilename: text("original_filename"),
-  outputFileKey: text("output_file_key"),
+export const ingestions = pgTable(
+  "ingestions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    schemaId: uuid("schema_id").references(() => schemas.id),
+    // Archive upload this ingestion was split from
+    parentId: uuid("parent_id").references((): AnyPgColumn => ingestions.id),
+    // Ingestion whose raw file this one re-processes
+    rerunOfId: uuid("rerun_of_id").references((): AnyPgColumn => ingestions.id),
+    status: text("status").notNull().$type<IngestionStatus>().default("pending"),
+    rawFileKey: text("raw_file_key").notNull(),
+    rawFileSha256: text("raw_file_sha256"), // Hex digest of the stored upload
+    rawFileBytes: bigint("raw_file_bytes", { mode: "number" }),
+    originalFilename: text("original_filename"),
+    outputFileKey: text("output_file_key"),
 
-  // Pipeline outputs (stored as JSONB)
-  inferredSchema: jsonb("inferred_schema").$type<InferredSchema>(),
-  mappingResult: jsonb("mapping_result").$type<MappingResult>(),
-  validationResult: jsonb("validation_result").$type<ValidationResult>(),
+    // How the raw file is read: schema defaults overlaid with upload options
+    parseOptions: jsonb("parse_options").$type<ParseOptions>(),
+    dialect: jsonb("dialect").$type<DialectDetection>(), // What the parser settled on
 
-  // Stats
-  rowCount: integer("row_count"),
-  validRowCount: integer("valid_row_count"),
+    // Parsed rows, written once by the parse stage and streamed by later stages
+    rowStore: jsonb("row_store").$type<RowStoreManifest>(),
 
-  // Error handling
-  error: text("error"),
+    // Pipeline outputs (stored as JSONB)
+    inferredSchema: jsonb("inferred_schema").$type<InferredSchema>(),
+    mappingResult: jsonb("mapping_result").$type<MappingResult>(),
+    validationResult: jsonb("validation_result").$type<ValidationResult>(),
 
-  // Timestamps
-  createdAt: timestamp("created_at", { withTimezone: true })
-    .defaultNow()
-    .notNull(),
-  updatedAt: timestamp("updated_at", { withTimezone: true })
-    .defaultNow()
-    .notNull(),
-  completedAt: timestamp("completed_at", { withTimezone: true }),
-});
+    // Stats
+    rowCount: integer("row_count"),
+    validRowCount: integer("valid_row_count"),
+    parseErrorCount: integer("parse_error_count"),
+
+    // Malformed records skipped by the parser, as NDJSON
+    quarantineFileKey: text("quarantine_file_key"),
+
+    // Error handling
+    error: text("error"),
+
+    // Timestamps
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+  },
+  // Keyset pagination for GET /ingestions, alone or after a filter
+  (table) => ({
+    createdAtIdx: index("ingestions_created_at_id_idx").on(table.createdAt, table.id),
+    completedAtIdx: index("ingestions_completed_at_id_idx").on(table.completedAt, table.id),
+    statusCreatedAtIdx: index("ingestions_status_created_at_idx").on(table.status, table.createdAt),
+    schemaCreatedAtIdx: index("ingestions_schema_id_created_at_idx").on(table.schemaId, table.createdAt),
+  })
+);
 
 export type IngestionRow = typeof ingestions.$inferSelect;
 export type NewIngestionRow = typeof ingestions.$inferInsert;
@@ -118,6 +155,104 @@ export const mappingTemplates = pgTable(
 export type MappingTemplateRow = typeof mappingTemplates.$inferSelect;
 export type NewMappingTemplateRow = typeof mappingTemplates.$inferInsert;
 
+// =============================================================================
+// UPLOAD SESSIONS TABLE
+// =============================================================================
+
+// Resumable uploads: chunks are stored as they arrive and assembled into the
+// raw file on finalize, when the ingestion is created
+export const uploadSessions = pgTable("upload_sessions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  schemaId: uuid("schema_id")
+    .references(() => schemas.id)
+    .notNull(),
+  status: text("status").notNull().$type<UploadSessionStatus>().default("open"),
+  filename: text("filename").notNull(),
+  parseOptions: jsonb("parse_options").$type<ParseOptions>(),
+
+  totalBytes: bigint("total_bytes", { mode: "number" }).notNull(),
+  receivedBytes: bigint("received_bytes", { mode: "number" }).notNull().default(0),
+  chunks: jsonb("chunks").notNull().$type<UploadChunk[]>().default([]),
+
+  // Set once finalized
+  ingestionId: uuid("ingestion_id").references(() => ingestions.id),
+
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  // Pushed back by every chunk; open sessions past it are cleaned up
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+});
+
+export type UploadSessionRow = typeof uploadSessions.$inferSelect;
+export type NewUploadSessionRow = typeof uploadSessions.$inferInsert;
+
+// =============================================================================
+// DROP ZONES TABLES
+// =============================================================================
+
+// Storage prefixes polled for new files, each ingested with a fixed schema
+export const dropZones = pgTable("drop_zones", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull().unique(),
+  prefix: text("prefix").notNull().unique(), // Always ends in "/"
+  schemaId: uuid("schema_id")
+    .references(() => schemas.id)
+    .notNull(),
+  parseOptions: jsonb("parse_options").$type<ParseOptions>(),
+  filePattern: text("file_pattern").notNull().default("*.csv"),
+  enabled: boolean("enabled").notNull().default(true),
+  lastPolledAt: timestamp("last_polled_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+});
+
+export type DropZoneRow = typeof dropZones.$inferSelect;
+export type NewDropZoneRow = typeof dropZones.$inferInsert;
+
+// One row per file picked up from a zone
+export const dropZoneFiles = pgTable(
+  "drop_zone_files",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    zoneId: uuid("zone_id")
+      .references(() => dropZones.id)
+      .notNull(),
+    filename: text("filename").notNull(),
+
+    // Where the file was dropped, and when it was last modified there. Unique
+    // together, so a file is claimed once however many pollers see it
+    sourceKey: text("source_key").notNull(),
+    sourceModifiedAt: timestamp("source_modified_at", { withTimezone: true }).notNull(),
+
+    fileKey: text("file_key").notNull(), // Current location
+    byteCount: bigint("byte_count", { mode: "number" }).notNull(),
+    status: text("status").notNull().$type<DropZoneFileStatus>().default("processing"),
+    ingestionId: uuid("ingestion_id").references(() => ingestions.id),
+    error: text("error"),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    uniqueDrop: unique().on(table.zoneId, table.sourceKey, table.sourceModifiedAt),
+  })
+);
+
+export type DropZoneFileRow = typeof dropZoneFiles.$inferSelect;
+export type NewDropZoneFileRow = typeof dropZoneFiles.$inferInsert;
+
 // =============================================================================
 // DECISION LOG TABLE
 // =============================================================================
@@ -15,9 +15,13 @@ import { waitForDeps } from "./utils/waitForDeps.js";
 import { redis } from "./workers/queues.js";
 
 // Import routes
+import { dropZoneRoutes } from "./api/drop-zones.js";
 import { healthRoutes } from "./api/health.js";
 import { ingestionRoutes } from "./api/ingestions.js";
+import { mappingTemplateRoutes } from "./api/mapping-templates.js";
 import { schemaRoutes } from "./api/schemas.js";
+import { uploadSessionRoutes } from "./api/upload-sessions.js";
+import { createUploadHandler, discardUnclaimedUploads } from "./api/uploads.js";
 
 export async function buildServer() {
   const fastify = Fastify({
@@ -33,12 +37,16 @@ export async function buildServer() {
     origin: true,
   });
 
+  const maxFileBytes = config.maxFileSizeMb * 1024 * 1024;
   await fastify.register(multipart, {
     attachFieldsToBody: true,
+    onFile: createUploadHandler(maxFileBytes),
     limits: {
-      fileSize: config.maxFileSizeMb * 1024 * 1024,
+      fileSize: maxFileBytes,
     },
   });
+  fastify.decorateRequest("unclaimedUploads", null);
+  fastify.addHook("onResponse", discardUnclaimedUploads);
 
   const serverUrl = config.publicUrl || `http://${config.host === '0.0.0.0' ? 'localhost' : config.host}:${config.port}`;
 
@@ -66,7 +74,10 @@ export async function buildServer() {
   // Register routes
   await fastify.register(healthRoutes, { prefix: "/health" });
   await fastify.register(schemaRoutes, { prefix: "/schemas" });
+  await fastify.register(mappingTemplateRoutes, { prefix: "/schemas" });
   await fastify.register(ingestionRoutes, { prefix: "/ingestions" });
+  await fastify.register(uploadSessionRoutes, { prefix: "/uploads" });
+  await fastify.register(dropZoneRoutes, { prefix: "/drop-zones" });
 
   return fastify;
 }
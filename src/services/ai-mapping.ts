@@ -0,0 +1,416 @@
+import OpenAI from "openai";
+import { z } from "zod";
+import { config } from "../config.js";
+import type {
+  CanonicalSchema,
+  ColumnMapping,
+  ColumnType,
+  InferredSchema,
+  MappingResult,
+} from "../types/index.js";
+import { logger } from "../utils/logger.js";
+import { buildMappingResult } from "./column-mapping.js";
+
+// =============================================================================
+// PROVIDER INTERFACE
+// =============================================================================
+
+export interface AiSourceColumn {
+  name: string;
+  inferredType: ColumnType;
+  sampleValues: unknown[];
+  currentTarget: string | null;
+  currentConfidence: number;
+}
+
+export interface AiTargetColumn {
+  name: string;
+  type: ColumnType;
+  description?: string;
+  aliases: string[];
+}
+
+export interface AiMappingRequest {
+  sourceColumns: AiSourceColumn[];
+  targetColumns: AiTargetColumn[];
+}
+
+export interface AiMappingSuggestion {
+  sourceColumn: string;
+  targetColumn: string | null;
+  confidence: number;
+  reason?: string | undefined;
+}
+
+export interface AiMappingResponse {
+  provider: string;
+  model: string;
+  prompt: string;
+  rawResponse: string;
+  // Suggestions per source column, best first
+  suggestions: AiMappingSuggestion[];
+}
+
+export interface AiMappingProvider {
+  readonly name: string;
+  suggest(request: AiMappingRequest): Promise<AiMappingResponse>;
+}
+
+const SuggestionsPayloadSchema = z.object({
+  suggestions: z.array(
+    z.object({
+      sourceColumn: z.string(),
+      targetColumn: z.string().nullable(),
+      confidence: z.number().min(0).max(1),
+      reason: z.string().optional(),
+    })
+  ),
+});
+
+// =============================================================================
+// PROMPT
+// =============================================================================
+
+const SYSTEM_PROMPT = [
+  "You map columns from an uploaded CSV file onto a canonical schema.",
+  "For each source column, suggest up to 3 target columns ranked best first,",
+  "using the column name, inferred type and sample values.",
+  "Only use target names from the provided list. Use null when no target fits.",
+  "Confidence is between 0 and 1. Never suggest the same target for two source columns with high confidence.",
+  'Respond with JSON: {"suggestions":[{"sourceColumn":string,"targetColumn":string|null,"confidence":number,"reason":string}]}',
+].join(" ");
+
+export function buildMappingPrompt(request: AiMappingRequest): string {
+  return JSON.stringify(
+    {
+      sourceColumns: request.sourceColumns.map((c) => ({
+        name: c.name,
+        inferredType: c.inferredType,
+        sampleValues: c.sampleValues.slice(0, 5),
+      })),
+      targetColumns: request.targetColumns,
+    },
+    null,
+    2
+  );
+}
+
+// =============================================================================
+// OPENAI PROVIDER
+// =============================================================================
+
+class OpenAiMappingProvider implements AiMappingProvider {
+  readonly name = "openai";
+  private client: OpenAI;
+  private model: string;
+
+  constructor(apiKey: string, model: string) {
+    this.client = new OpenAI({ apiKey, timeout: config.aiMappingTimeoutMs });
+    this.model = model;
+  }
+
+  async suggest(request: AiMappingRequest): Promise<AiMappingResponse> {
+    const prompt = buildMappingPrompt(request);
+
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      temperature: 0,
+      response_format: { type: "json_object" },
+      messages: [
+        { role: "system", content: SYSTEM_PROMPT },
+        { role: "user", content: prompt },
+      ],
+    });
+
+    const rawResponse = completion.choices[0]?.message.content ?? "";
+    const payload = SuggestionsPayloadSchema.parse(JSON.parse(rawResponse));
+
+    return {
+      provider: this.name,
+      model: this.model,
+      prompt,
+      rawResponse,
+      suggestions: payload.suggestions,
+    };
+  }
+}
+
+// =============================================================================
+// LOCAL STUB PROVIDER (deterministic, offline)
+// =============================================================================
+
+function tokenize(str: string): Set<string> {
+  return new Set(
+    str
+      .replace(/([a-z])([A-Z])/g, "$1 $2")
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((t) => t.length > 0)
+  );
+}
+
+function tokenOverlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared++;
+  }
+  return shared / Math.max(a.size, b.size);
+}
+
+const NUMERIC_TYPES: ColumnType[] = ["integer", "float"];
+const TEMPORAL_TYPES: ColumnType[] = ["date", "datetime"];
+
+function typeAffinity(source: ColumnType, target: ColumnType): number {
+  if (source === target) return 1;
+  if (target === "string") return 0.5;
+  if (NUMERIC_TYPES.includes(source) && NUMERIC_TYPES.includes(target)) return 0.7;
+  if (TEMPORAL_TYPES.includes(source) && TEMPORAL_TYPES.includes(target)) return 0.7;
+  return 0;
+}
+
+/**
+ * Scores targets by name-token overlap and type affinity. Useful for tests
+ * and air-gapped deployments; it never claims more than 0.75 confidence.
+ */
+export class LocalStubMappingProvider implements AiMappingProvider {
+  readonly name = "stub";
+
+  async suggest(request: AiMappingRequest): Promise<AiMappingResponse> {
+    const prompt = buildMappingPrompt(request);
+    const suggestions: AiMappingSuggestion[] = [];
+
+    for (const source of request.sourceColumns) {
+      const sourceTokens = tokenize(source.name);
+
+      const ranked = request.targetColumns
+        .map((target) => {
+          const vocabulary = [target.name, ...target.aliases, target.description ?? ""];
+          const nameScore = Math.max(
+            ...vocabulary.map((v) => tokenOverlap(sourceTokens, tokenize(v)))
+          );
+          const score =
+            0.6 * nameScore + 0.4 * typeAffinity(source.inferredType, target.type);
+          return { target: target.name, score };
+        })
+        .filter((r) => r.score >= 0.3)
+        .sort((a, b) => b.score - a.score || a.target.localeCompare(b.target))
+        .slice(0, 3);
+
+      if (ranked.length === 0) {
+        suggestions.push({
+          sourceColumn: source.name,
+          targetColumn: null,
+          confidence: 0,
+          reason: "No target shares name tokens or a compatible type",
+        });
+        continue;
+      }
+
+      for (const r of ranked) {
+        suggestions.push({
+          sourceColumn: source.name,
+          targetColumn: r.target,
+          confidence: Math.round(Math.min(r.score, 0.75) * 100) / 100,
+          reason: "Name token overlap and type affinity",
+        });
+      }
+    }
+
+    return {
+      provider: this.name,
+      model: "local-stub",
+      prompt,
+      rawResponse: JSON.stringify({ suggestions }),
+      suggestions,
+    };
+  }
+}
+
+// =============================================================================
+// PROVIDER FACTORY
+// =============================================================================
+
+export function createAiMappingProvider(): AiMappingProvider | null {
+  const provider =
+    config.aiMappingProvider ?? (config.openaiApiKey ? "openai" : "none");
+
+  if (provider === "stub") {
+    return new LocalStubMappingProvider();
+  }
+  if (provider === "openai") {
+    if (!config.openaiApiKey) {
+      logger.warn("AI_MAPPING_PROVIDER=openai but OPENAI_API_KEY is not set");
+      return null;
+    }
+    return new OpenAiMappingProvider(config.openaiApiKey, config.openaiModel);
+  }
+  return null;
+}
+
+// =============================================================================
+// REQUEST BUILDING & MERGING
+// =============================================================================
+
+/**
+ * Build a request for the columns heuristics could not settle. Columns in
+ * `settledSources` were decided by a person (through a template) and are
+ * never asked about, even when they were deliberately left unmapped. Returns
+ * null when every column is confidently mapped or settled.
+ */
+export function buildAiMappingRequest(
+  mappingResult: MappingResult,
+  inferredSchema: InferredSchema,
+  canonicalSchema: CanonicalSchema,
+  confidenceThreshold: number = config.mappingConfidenceThreshold,
+  settledSources: ReadonlySet<string> = new Set()
+): AiMappingRequest | null {
+  const confidentTargets = new Set(
+    mappingResult.mappings
+      .filter((m) => m.targetColumn && m.confidence >= confidenceThreshold)
+      .map((m) => m.targetColumn as string)
+  );
+
+  const inferredByName = new Map(inferredSchema.columns.map((c) => [c.name, c]));
+
+  const sourceColumns: AiSourceColumn[] = mappingResult.mappings
+    .filter((m) => !settledSources.has(m.sourceColumn))
+    .filter((m) => m.method === "unmapped" || m.confidence < confidenceThreshold)
+    .map((m) => {
+      const inferred = inferredByName.get(m.sourceColumn);
+      return {
+        name: m.sourceColumn,
+        inferredType: inferred?.inferredType ?? "string",
+        sampleValues: inferred?.sampleValues ?? [],
+        currentTarget: m.targetColumn,
+        currentConfidence: m.confidence,
+      };
+    });
+
+  const targetColumns: AiTargetColumn[] = canonicalSchema.columns
+    .filter((c) => !confidentTargets.has(c.name))
+    .map((c) => ({
+      name: c.name,
+      type: c.type,
+      aliases: c.aliases,
+      ...(c.description !== undefined && { description: c.description }),
+    }));
+
+  if (sourceColumns.length === 0 || targetColumns.length === 0) {
+    return null;
+  }
+
+  return { sourceColumns, targetColumns };
+}
+
+/**
+ * Fold provider suggestions into the heuristic result. A suggestion replaces
+ * the current mapping only when it is more confident and its target is free;
+ * the replaced target is kept as an alternative for reviewers. Columns left
+ * out of the request stay ambiguous exactly when they were before.
+ */
+export function mergeAiSuggestions(
+  mappingResult: MappingResult,
+  request: AiMappingRequest,
+  suggestions: AiMappingSuggestion[],
+  canonicalSchema: CanonicalSchema,
+  confidenceThreshold: number = config.mappingConfidenceThreshold
+): MappingResult {
+  const allowedTargets = new Set(request.targetColumns.map((t) => t.name));
+  const askedFor = new Set(request.sourceColumns.map((c) => c.name));
+
+  const bySource = new Map<string, AiMappingSuggestion[]>();
+  for (const s of suggestions) {
+    if (!askedFor.has(s.sourceColumn)) continue;
+    if (s.targetColumn !== null && !allowedTargets.has(s.targetColumn)) continue;
+    const list = bySource.get(s.sourceColumn) ?? [];
+    list.push(s);
+    bySource.set(s.sourceColumn, list);
+  }
+
+  // Targets held by mappings we are not touching stay claimed
+  const claimed = new Set(
+    mappingResult.mappings
+      .filter((m) => m.targetColumn && !askedFor.has(m.sourceColumn))
+      .map((m) => m.targetColumn as string)
+  );
+
+  // Resolve the most confident suggestions first so they win contested targets
+  const order = [...mappingResult.mappings].sort((a, b) => {
+    const bestA = Math.max(0, ...(bySource.get(a.sourceColumn) ?? []).map((s) => s.confidence));
+    const bestB = Math.max(0, ...(bySource.get(b.sourceColumn) ?? []).map((s) => s.confidence));
+    return bestB - bestA;
+  });
+
+  const updated = new Map<string, ColumnMapping>();
+  for (const mapping of order) {
+    if (!askedFor.has(mapping.sourceColumn)) continue;
+
+    const ranked = (bySource.get(mapping.sourceColumn) ?? [])
+      .filter((s) => s.targetColumn !== null)
+      .sort((a, b) => b.confidence - a.confidence);
+    const pick = ranked.find((s) => !claimed.has(s.targetColumn as string));
+
+    if (pick && pick.confidence > mapping.confidence) {
+      claimed.add(pick.targetColumn as string);
+
+      const alternatives = [
+        ...ranked
+          .filter((s) => s !== pick)
+          .map((s) => ({ targetColumn: s.targetColumn as string, confidence: s.confidence })),
+        ...(mapping.targetColumn
+          ? [{ targetColumn: mapping.targetColumn, confidence: mapping.confidence }]
+          : []),
+      ];
+
+      updated.set(mapping.sourceColumn, {
+        sourceColumn: mapping.sourceColumn,
+        targetColumn: pick.targetColumn,
+        method: "ai",
+        confidence: pick.confidence,
+        alternativeMappings: alternatives.length > 0 ? alternatives.slice(0, 3) : undefined,
+      });
+    } else if (mapping.targetColumn && claimed.has(mapping.targetColumn)) {
+      // A stronger suggestion took this column's weak heuristic target
+      updated.set(mapping.sourceColumn, {
+        sourceColumn: mapping.sourceColumn,
+        targetColumn: null,
+        method: "unmapped",
+        confidence: 0,
+        alternativeMappings: [
+          { targetColumn: mapping.targetColumn, confidence: mapping.confidence },
+        ],
+      });
+    } else if (mapping.targetColumn) {
+      claimed.add(mapping.targetColumn);
+    }
+  }
+
+  const mappings = mappingResult.mappings.map(
+    (m) => updated.get(m.sourceColumn) ?? m
+  );
+
+  // Only the columns the provider saw are judged again. The rest keep their
+  // verdict, so near-tie contests and template decisions survive the merge
+  const keptAmbiguous = new Set(
+    mappingResult.ambiguousMappings
+      .map((m) => m.sourceColumn)
+      .filter((source) => !askedFor.has(source))
+  );
+  const rejudged = buildMappingResult(
+    mappings.filter((m) => askedFor.has(m.sourceColumn)),
+    canonicalSchema,
+    confidenceThreshold
+  );
+  const ambiguousSources = new Set([
+    ...keptAmbiguous,
+    ...rejudged.ambiguousMappings.map((m) => m.sourceColumn),
+  ]);
+  const ambiguousMappings = mappings.filter((m) => ambiguousSources.has(m.sourceColumn));
+
+  return {
+    mappings,
+    requiresReview: ambiguousMappings.length > 0,
+    ambiguousMappings,
+  };
+}
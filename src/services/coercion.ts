@@ -0,0 +1,199 @@
+import type { ColumnDefinition, ColumnType } from "../types/index.js";
+import {
+  formatDateValue,
+  parseDate,
+  resolveDateFormats,
+} from "./date-formats.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type CoercionRule =
+  | "null" // Empty input kept as null
+  | "default" // Empty input replaced by the column default
+  | "converted" // Parsed/normalized into the target type
+  | "failed"; // Could not be represented as the target type
+
+export interface CoercionProvenance {
+  type: ColumnType;
+  rule: CoercionRule;
+  changed: boolean; // Output differs from the raw input text
+  format?: string; // Date format that matched, for date/datetime
+}
+
+export interface CoercionResult {
+  success: boolean;
+  value: unknown;
+  error?: string;
+  provenance: CoercionProvenance;
+}
+
+// =============================================================================
+// VALUE RECOGNIZERS
+// =============================================================================
+
+const INTEGER_REGEX = /^[+-]?\d+(\.0+)?$/;
+const FLOAT_REGEX = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+const BOOLEAN_TRUE = new Set(["true", "1", "yes", "y", "on"]);
+const BOOLEAN_FALSE = new Set(["false", "0", "no", "n", "off"]);
+
+export function isEmptyValue(value: unknown): boolean {
+  return value === null || value === undefined || value === "";
+}
+
+// Cell text; nested values from JSON input arrive as objects
+function valueText(value: unknown): string {
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+// =============================================================================
+// COERCION
+// =============================================================================
+
+/**
+ * Coerce one raw cell into a column's type. This is the only coercion used by
+ * the pipeline: validation decides with it and output writes what it returns.
+ */
+export function coerceValue(
+  value: unknown,
+  columnDef: ColumnDefinition
+): CoercionResult {
+  const type = columnDef.type;
+
+  if (isEmptyValue(value)) {
+    if (columnDef.nullable) {
+      return {
+        success: true,
+        value: null,
+        provenance: { type, rule: "null", changed: value !== null },
+      };
+    }
+    if (columnDef.default !== undefined) {
+      return {
+        success: true,
+        value: columnDef.default,
+        provenance: { type, rule: "default", changed: true },
+      };
+    }
+    if (columnDef.required) {
+      return {
+        success: false,
+        value: null,
+        error: "Required value is missing",
+        provenance: { type, rule: "failed", changed: false },
+      };
+    }
+    return {
+      success: true,
+      value: null,
+      provenance: { type, rule: "null", changed: value !== null },
+    };
+  }
+
+  const raw = valueText(value);
+  const str = raw.trim();
+
+  const ok = (coerced: unknown, format?: string): CoercionResult => ({
+    success: true,
+    value: coerced,
+    provenance: {
+      type,
+      rule: "converted",
+      changed: valueText(coerced) !== raw,
+      ...(format !== undefined && { format }),
+    },
+  });
+  const fail = (error: string): CoercionResult => ({
+    success: false,
+    value,
+    error,
+    provenance: { type, rule: "failed", changed: false },
+  });
+
+  switch (type) {
+    case "string":
+      return ok(str);
+
+    case "integer": {
+      if (!INTEGER_REGEX.test(str)) {
+        return fail(`Cannot parse "${str}" as integer`);
+      }
+      const num = parseInt(str, 10);
+      if (!Number.isSafeInteger(num)) {
+        return fail(`"${str}" is outside the safe integer range`);
+      }
+      return ok(num);
+    }
+
+    case "float": {
+      const num = Number(str);
+      if (!FLOAT_REGEX.test(str) || !Number.isFinite(num)) {
+        return fail(`Cannot parse "${str}" as float`);
+      }
+      return ok(num);
+    }
+
+    case "boolean": {
+      const lower = str.toLowerCase();
+      if (BOOLEAN_TRUE.has(lower)) return ok(true);
+      if (BOOLEAN_FALSE.has(lower)) return ok(false);
+      return fail(`Cannot parse "${str}" as boolean`);
+    }
+
+    case "date":
+    case "datetime": {
+      // Declared dateFormat/coerceFormats first, in order
+      const formats = resolveDateFormats(columnDef.dateFormat, columnDef.coerceFormats);
+      const parsed = parseDate(str, formats);
+      if (parsed) {
+        return ok(formatDateValue(parsed.date, type), parsed.format);
+      }
+      return fail(`Cannot parse "${str}" as ${type} (tried ${formats.join(", ")})`);
+    }
+
+    case "email":
+      if (EMAIL_REGEX.test(str)) return ok(str.toLowerCase());
+      return fail(`"${str}" is not a valid email`);
+
+    case "uuid":
+      if (UUID_REGEX.test(str)) return ok(str.toLowerCase());
+      return fail(`"${str}" is not a valid UUID`);
+
+    case "url":
+      try {
+        new URL(str);
+        return ok(str);
+      } catch {
+        return fail(`"${str}" is not a valid URL`);
+      }
+
+    case "json":
+      try {
+        return ok(JSON.parse(str));
+      } catch {
+        return fail(`"${str}" is not valid JSON`);
+      }
+
+    default:
+      return ok(str);
+  }
+}
+
+// =============================================================================
+// SERIALIZATION
+// =============================================================================
+
+/**
+ * Render a coerced value as output cell text. Coercing the returned text
+ * again with the same column type yields the same value.
+ */
+export function serializeValue(value: unknown, type?: ColumnType): string {
+  if (value === null || value === undefined) return "";
+  // JSON cells stay JSON even when they hold a bare string or number
+  if (type === "json" || typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
@@ -3,11 +3,25 @@ import type {
   CanonicalSchema,
   ColumnDefinition,
   ColumnMapping,
+  ColumnType,
+  InferredColumn,
   MappingMethod,
   MappingResult,
+  MappingSignal,
   InferredSchema,
 } from '../types/index.js';
 import { config } from '../config.js';
+import {
+  isBoolean,
+  isEmail,
+  isFloat,
+  isISODate,
+  isISODateTime,
+  isInteger,
+  isJSON,
+  isUUID,
+  isUrl,
+} from './type-inference.js';
 
 // =============================================================================
 // STRING NORMALIZATION
@@ -28,14 +42,20 @@ interface MappingCandidate {
   targetColumn: string;
   method: MappingMethod;
   confidence: number;
+  signals?: MappingSignal[];
 }
 
-function findExactMatch(
+const FUZZY_MIN_SCORE = 0.5;
+const ALTERNATIVE_MIN_SCORE = 0.4;
+
+// Two candidates closer than this are treated as a tie that needs a human
+const NEAR_TIE_MARGIN = 0.05;
+
+function matchExact(
   sourceColumn: string,
-  targetColumns: ColumnDefinition[]
+  target: ColumnDefinition
 ): MappingCandidate | null {
-  const target = targetColumns.find((t) => t.name === sourceColumn);
-  if (target) {
+  if (target.name === sourceColumn) {
     return {
       targetColumn: target.name,
       method: 'exact',
@@ -45,13 +65,11 @@ function findExactMatch(
   return null;
 }
 
-function findCaseInsensitiveMatch(
+function matchCaseInsensitive(
   sourceColumn: string,
-  targetColumns: ColumnDefinition[]
+  target: ColumnDefinition
 ): MappingCandidate | null {
-  const sourceLower = sourceColumn.toLowerCase();
-  const target = targetColumns.find((t) => t.name.toLowerCase() === sourceLower);
-  if (target) {
+  if (target.name.toLowerCase() === sourceColumn.toLowerCase()) {
     return {
       targetColumn: target.name,
       method: 'case_insensitive',
@@ -61,66 +79,291 @@ function findCaseInsensitiveMatch(
   return null;
 }
 
-function findAliasMatch(
+function matchAlias(
   sourceColumn: string,
-  targetColumns: ColumnDefinition[]
+  target: ColumnDefinition
 ): MappingCandidate | null {
   const sourceLower = sourceColumn.toLowerCase();
   const sourceNormalized = normalize(sourceColumn);
   
-  for (const target of targetColumns) {
-    for (const alias of target.aliases) {
-      if (alias.toLowerCase() === sourceLower || normalize(alias) === sourceNormalized) {
-        return {
-          targetColumn: target.name,
-          method: 'alias',
-          confidence: 0.9,
-        };
-      }
+  for (const alias of target.aliases) {
+    if (alias.toLowerCase() === sourceLower || normalize(alias) === sourceNormalized) {
+      return {
+        targetColumn: target.name,
+        method: 'alias',
+        confidence: 0.9,
+      };
     }
   }
   return null;
 }
 
-function findFuzzyMatch(
+function matchFuzzy(
   sourceColumn: string,
-  targetColumns: ColumnDefinition[]
+  target: ColumnDefinition
 ): MappingCandidate | null {
   const sourceNormalized = normalize(sourceColumn);
   
-  let bestMatch: MappingCandidate | null = null;
-  let bestScore = 0;
+  // Best of the target name and its aliases
+  let bestScore = stringSimilarity(sourceNormalized, normalize(target.name));
+  for (const alias of target.aliases) {
+    bestScore = Math.max(bestScore, stringSimilarity(sourceNormalized, normalize(alias)));
+  }
   
-  for (const target of targetColumns) {
-    const targetNormalized = normalize(target.name);
-    const score = stringSimilarity(sourceNormalized, targetNormalized);
-    
-    if (score > bestScore && score >= 0.5) {
-      bestScore = score;
-      bestMatch = {
-        targetColumn: target.name,
-        method: 'fuzzy',
-        confidence: score,
-      };
+  if (bestScore >= FUZZY_MIN_SCORE) {
+    return {
+      targetColumn: target.name,
+      method: 'fuzzy',
+      confidence: bestScore,
+    };
+  }
+  return null;
+}
+
+// Best header-based candidate across all strategies for one source/target pair
+function matchHeader(
+  sourceColumn: string,
+  target: ColumnDefinition
+): MappingCandidate | null {
+  return (
+    matchExact(sourceColumn, target) ??
+    matchCaseInsensitive(sourceColumn, target) ??
+    matchAlias(sourceColumn, target) ??
+    matchFuzzy(sourceColumn, target)
+  );
+}
+
+// =============================================================================
+// VALUE PROFILE SIGNALS
+// =============================================================================
+
+// Below this share of conforming samples a candidate is type-incompatible
+const TYPE_COMPATIBLE_MIN = 0.5;
+const INCOMPATIBLE_PENALTY = 0.6;
+const FUZZY_HEADER_WEIGHT = 0.7;
+
+// Content alone may map a column only for value shapes that are hard to fake
+const CONTENT_ONLY_MIN_SCORE = 0.9;
+const CONTENT_ONLY_WEIGHT = 0.6;
+const SPECIFIC_TYPES = new Set<ColumnType>(['email', 'uuid', 'url', 'date', 'datetime', 'json']);
+
+const TYPE_CHECKS: Partial<Record<ColumnType, (value: string) => boolean>> = {
+  integer: isInteger,
+  float: isFloat,
+  boolean: isBoolean,
+  date: (v) => isISODate(v) || isISODateTime(v),
+  datetime: (v) => isISODateTime(v) || isISODate(v),
+  email: isEmail,
+  uuid: isUUID,
+  url: isUrl,
+  json: isJSON,
+};
+
+// Fallback when a column has no sample values to look at
+function inferredTypeAffinity(source: ColumnType, target: ColumnType): number {
+  if (source === target) return 1;
+  if (source === 'integer' && target === 'float') return 1;
+  if (source === 'date' && target === 'datetime') return 0.8;
+  if (source === 'datetime' && target === 'date') return 0.8;
+  return 0;
+}
+
+function shareMatching(samples: string[], test: (value: string) => boolean): number {
+  if (samples.length === 0) return 0;
+  return samples.filter(test).length / samples.length;
+}
+
+/**
+ * Signals derived from the source column's values. Only informative signals
+ * are returned: a plain string target without validators accepts anything
+ * and says nothing about fit.
+ */
+function profileContent(
+  source: InferredColumn,
+  target: ColumnDefinition
+): MappingSignal[] {
+  const samples = source.sampleValues
+    .filter((v) => v !== null && v !== undefined && v !== '')
+    .map((v) => String(v).trim());
+  const signals: MappingSignal[] = [];
+
+  const check = TYPE_CHECKS[target.type];
+  if (check) {
+    const score =
+      samples.length > 0
+        ? shareMatching(samples, check)
+        : inferredTypeAffinity(source.inferredType, target.type);
+    signals.push({
+      signal: 'type',
+      score,
+      detail:
+        samples.length > 0
+          ? `${Math.round(score * 100)}% of samples look like ${target.type}`
+          : `inferred ${source.inferredType} vs expected ${target.type}`,
+    });
+  }
+
+  for (const validator of target.validators) {
+    if (samples.length === 0) break;
+
+    if (validator.type === 'enum') {
+      const allowed = new Set(validator.values.map((v) => v.toLowerCase()));
+      const score = shareMatching(samples, (v) => allowed.has(v.toLowerCase()));
+      signals.push({
+        signal: 'enum',
+        score,
+        detail: `${Math.round(score * 100)}% of samples are allowed enum values`,
+      });
+    } else if (validator.type === 'regex') {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(validator.pattern);
+      } catch {
+        continue;
+      }
+      const score = shareMatching(samples, (v) => regex.test(v));
+      signals.push({
+        signal: 'regex',
+        score,
+        detail: `${Math.round(score * 100)}% of samples match ${validator.pattern}`,
+      });
     }
-    
-    // Also check aliases
-    for (const alias of target.aliases) {
-      const aliasNormalized = normalize(alias);
-      const aliasScore = stringSimilarity(sourceNormalized, aliasNormalized);
-      
-      if (aliasScore > bestScore && aliasScore >= 0.5) {
-        bestScore = aliasScore;
-        bestMatch = {
-          targetColumn: target.name,
-          method: 'fuzzy',
-          confidence: aliasScore,
-        };
+  }
+
+  return signals;
+}
+
+// Blend header similarity with what the values say about the target
+function scorePair(
+  source: InferredColumn,
+  target: ColumnDefinition
+): MappingCandidate | null {
+  const header = matchHeader(source.name, target);
+  const contentSignals = profileContent(source, target);
+
+  const contentScore =
+    contentSignals.length > 0
+      ? contentSignals.reduce((sum, s) => sum + s.score, 0) / contentSignals.length
+      : null;
+  const typeSignal = contentSignals.find((s) => s.signal === 'type');
+  const incompatible = typeSignal !== undefined && typeSignal.score < TYPE_COMPATIBLE_MIN;
+
+  if (header) {
+    const signals: MappingSignal[] = [
+      {
+        signal: 'header',
+        score: header.confidence,
+        detail: `${header.method} header match`,
+      },
+      ...contentSignals,
+    ];
+
+    let confidence = header.confidence;
+    if (incompatible) {
+      confidence *= INCOMPATIBLE_PENALTY;
+    } else if (header.method === 'fuzzy' && contentScore !== null) {
+      confidence = FUZZY_HEADER_WEIGHT * confidence + (1 - FUZZY_HEADER_WEIGHT) * contentScore;
+    }
+
+    return { ...header, confidence, signals };
+  }
+
+  // No header signal: only distinctive value shapes may carry a match
+  const distinctive =
+    SPECIFIC_TYPES.has(target.type) ||
+    contentSignals.some((s) => s.signal === 'enum' || s.signal === 'regex');
+
+  if (contentScore !== null && distinctive && !incompatible && contentScore >= CONTENT_ONLY_MIN_SCORE) {
+    return {
+      targetColumn: target.name,
+      method: 'content',
+      confidence: CONTENT_ONLY_WEIGHT * contentScore,
+      signals: contentSignals,
+    };
+  }
+
+  return null;
+}
+
+// =============================================================================
+// OPTIMAL ASSIGNMENT
+// =============================================================================
+
+/**
+ * Maximum-weight bipartite assignment (Hungarian algorithm, O(n^3)).
+ * Returns, for each row, the assigned column index or -1.
+ */
+export function solveAssignment(weights: number[][]): number[] {
+  const rows = weights.length;
+  const cols = rows > 0 ? Math.max(...weights.map((r) => r.length)) : 0;
+  const n = Math.max(rows, cols);
+  if (n === 0) return [];
+
+  let maxWeight = 0;
+  for (const row of weights) {
+    for (const w of row) maxWeight = Math.max(maxWeight, w);
+  }
+
+  // Square cost matrix (1-indexed) where padding cells cost as much as a zero weight
+  const cost = (i: number, j: number): number =>
+    maxWeight - (weights[i - 1]?.[j - 1] ?? 0);
+
+  const u = new Array<number>(n + 1).fill(0);
+  const v = new Array<number>(n + 1).fill(0);
+  const p = new Array<number>(n + 1).fill(0); // column -> row
+  const way = new Array<number>(n + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array<number>(n + 1).fill(Infinity);
+    const used = new Array<boolean>(n + 1).fill(false);
+
+    do {
+      used[j0] = true;
+      const i0 = p[j0]!;
+      let delta = Infinity;
+      let j1 = 0;
+
+      for (let j = 1; j <= n; j++) {
+        if (used[j]) continue;
+        const cur = cost(i0, j) - u[i0]! - v[j]!;
+        if (cur < minv[j]!) {
+          minv[j] = cur;
+          way[j] = j0;
+        }
+        if (minv[j]! < delta) {
+          delta = minv[j]!;
+          j1 = j;
+        }
       }
+
+      for (let j = 0; j <= n; j++) {
+        if (used[j]) {
+          u[p[j]!]! += delta;
+          v[j]! -= delta;
+        } else {
+          minv[j]! -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+
+    do {
+      const j1 = way[j0]!;
+      p[j0] = p[j1]!;
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const assignment = new Array<number>(rows).fill(-1);
+  for (let j = 1; j <= n; j++) {
+    const row = p[j]! - 1;
+    if (row >= 0 && row < rows && j - 1 < cols) {
+      assignment[row] = j - 1;
     }
   }
-  
-  return bestMatch;
+  return assignment;
 }
 
 // =============================================================================
@@ -140,61 +383,84 @@ export function mapColumns(input: MapColumnsInput): MappingResult {
     confidenceThreshold = config.mappingConfidenceThreshold,
   } = input;
   
+  const sources = inferredSchema.columns;
+  const targets = canonicalSchema.columns;
+  
+  // Score every source x target pair across all strategies
+  const candidates: Array<Array<MappingCandidate | null>> = sources.map((sourceCol) =>
+    targets.map((target) => scorePair(sourceCol, target))
+  );
+  const weights = candidates.map((row) => row.map((c) => c?.confidence ?? 0));
+  
+  const assignment = solveAssignment(weights);
+  
   const mappings: ColumnMapping[] = [];
-  const usedTargets = new Set<string>();
+  const contested = new Set<string>();
   
-  for (const sourceCol of inferredSchema.columns) {
-    // Filter out already-mapped targets
-    const availableTargets = canonicalSchema.columns.filter(
-      (t) => !usedTargets.has(t.name)
-    );
-    
-    // Try mapping strategies in order of confidence
-    let candidate: MappingCandidate | null = null;
-    
-    candidate = findExactMatch(sourceCol.name, availableTargets);
-    if (!candidate) candidate = findCaseInsensitiveMatch(sourceCol.name, availableTargets);
-    if (!candidate) candidate = findAliasMatch(sourceCol.name, availableTargets);
-    if (!candidate) candidate = findFuzzyMatch(sourceCol.name, availableTargets);
+  sources.forEach((sourceCol, i) => {
+    const j = assignment[i] ?? -1;
+    const candidate = j >= 0 ? candidates[i]![j] : null;
     
-    // Collect alternative mappings for ambiguous cases
-    const alternatives: Array<{ targetColumn: string; confidence: number }> = [];
-    if (candidate && candidate.confidence < confidenceThreshold) {
-      for (const target of availableTargets) {
-        if (target.name !== candidate.targetColumn) {
-          const score = stringSimilarity(normalize(sourceCol.name), normalize(target.name));
-          if (score >= 0.4) {
-            alternatives.push({ targetColumn: target.name, confidence: score });
-          }
-        }
-      }
-      alternatives.sort((a, b) => b.confidence - a.confidence);
-    }
-    
-    if (candidate) {
-      usedTargets.add(candidate.targetColumn);
-      mappings.push({
-        sourceColumn: sourceCol.name,
-        targetColumn: candidate.targetColumn,
-        method: candidate.method,
-        confidence: candidate.confidence,
-        alternativeMappings: alternatives.length > 0 ? alternatives.slice(0, 3) : undefined,
-      });
-    } else {
+    if (!candidate) {
       mappings.push({
         sourceColumn: sourceCol.name,
         targetColumn: null,
         method: 'unmapped',
         confidence: 0,
       });
+      return;
     }
-  }
+    
+    // Other plausible targets for this source
+    const alternatives = candidates[i]!
+      .filter((c): c is MappingCandidate =>
+        c !== null && c.targetColumn !== candidate.targetColumn && c.confidence >= ALTERNATIVE_MIN_SCORE
+      )
+      .map((c) => ({ targetColumn: c.targetColumn, confidence: c.confidence }))
+      .sort((a, b) => b.confidence - a.confidence);
+    
+    // A near-tie either way (another target for this source, or another
+    // source for this target) means the optimum is not clear-cut
+    const rivalTarget = alternatives.some(
+      (a) => candidate.confidence - a.confidence < NEAR_TIE_MARGIN
+    );
+    const rivalSource = candidates.some(
+      (row, k) =>
+        k !== i && row[j] !== null && candidate.confidence - row[j]!.confidence < NEAR_TIE_MARGIN
+    );
+    if (rivalTarget || rivalSource) {
+      contested.add(sourceCol.name);
+    }
+    
+    const showAlternatives =
+      candidate.confidence < confidenceThreshold || contested.has(sourceCol.name);
+    
+    mappings.push({
+      sourceColumn: sourceCol.name,
+      targetColumn: candidate.targetColumn,
+      method: candidate.method,
+      confidence: candidate.confidence,
+      signals: candidate.signals,
+      alternativeMappings:
+        showAlternatives && alternatives.length > 0 ? alternatives.slice(0, 3) : undefined,
+    });
+  });
   
-  // Identify ambiguous mappings that need review
+  return buildMappingResult(mappings, canonicalSchema, confidenceThreshold, contested);
+}
+
+// Identify ambiguous mappings that need review
+export function buildMappingResult(
+  mappings: ColumnMapping[],
+  canonicalSchema: CanonicalSchema,
+  confidenceThreshold: number = config.mappingConfidenceThreshold,
+  contestedSources: Set<string> = new Set()
+): MappingResult {
   const ambiguousMappings = mappings.filter(
     (m) =>
       (m.confidence < confidenceThreshold && m.confidence > 0) ||
-      (m.method === 'unmapped' && canonicalSchema.strict)
+      (m.method === 'unmapped' && canonicalSchema.strict) ||
+      contestedSources.has(m.sourceColumn)
   );
   
   return {
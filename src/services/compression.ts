@@ -0,0 +1,319 @@
+import { randomUUID } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import { unlink } from "fs/promises";
+import { tmpdir } from "os";
+import { basename, extname, join } from "path";
+import { Transform, type Readable } from "stream";
+import { pipeline } from "stream/promises";
+import bz2 from "unbzip2-stream";
+import yauzl from "yauzl";
+import { createGunzip } from "zlib";
+import { config } from "../config.js";
+import { readFileSample } from "./encoding.js";
+import { detectSpreadsheetFormat } from "./spreadsheet.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type CompressionFormat = "gzip" | "bzip2" | "zip";
+
+export interface DecompressionLimits {
+  maxBytes: number;
+  maxRatio: number; // Decompressed bytes per compressed byte
+  maxEntries: number;
+}
+
+export interface ArchiveEntry {
+  name: string;
+  compressedSize: number;
+  uncompressedSize: number;
+}
+
+export class DecompressionLimitError extends Error {
+  constructor(message: string) {
+    super(`Decompression aborted: ${message}`);
+    this.name = "DecompressionLimitError";
+  }
+}
+
+export function defaultDecompressionLimits(): DecompressionLimits {
+  return {
+    maxBytes: config.decompressMaxMb * 1024 * 1024,
+    maxRatio: config.decompressMaxRatio,
+    maxEntries: config.archiveMaxEntries,
+  };
+}
+
+// Small outputs are never bombs, however well they compress
+const RATIO_CHECK_MIN_BYTES = 1024 * 1024;
+
+// Files in an archive that can be ingested; anything else is ignored
+const DATA_EXTENSIONS = new Set([
+  ".csv",
+  ".tsv",
+  ".txt",
+  ".dat",
+  ".xlsx",
+  ".xls",
+  ".ods",
+  ".json",
+  ".ndjson",
+  ".jsonl",
+  ".gz",
+  ".bz2",
+]);
+
+// =============================================================================
+// DETECTION
+// =============================================================================
+
+/**
+ * Recognise a compressed upload from its first bytes. XLSX and ODS files are
+ * ZIP packages too, but are left to the spreadsheet reader.
+ */
+export function detectCompression(sample: Buffer): CompressionFormat | null {
+  if (sample[0] === 0x1f && sample[1] === 0x8b) return "gzip";
+  if (sample.subarray(0, 3).toString("latin1") === "BZh") return "bzip2";
+  if (
+    sample.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04])) &&
+    !detectSpreadsheetFormat(sample)
+  ) {
+    return "zip";
+  }
+  return null;
+}
+
+// =============================================================================
+// SIZE GUARD
+// =============================================================================
+
+function formatMb(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))}MB`;
+}
+
+/**
+ * Pass decompressed bytes through, failing once they exceed the size limit
+ * or outgrow the compressed input by more than the ratio limit.
+ * `compressedBytes` reports how much input has been consumed so far.
+ */
+function createSizeGuard(limits: DecompressionLimits, compressedBytes: () => number): Transform {
+  let total = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      total += chunk.length;
+      if (total > limits.maxBytes) {
+        callback(new DecompressionLimitError(`output exceeds ${formatMb(limits.maxBytes)}`));
+        return;
+      }
+      const compressed = compressedBytes();
+      if (total > RATIO_CHECK_MIN_BYTES && compressed > 0 && total / compressed > limits.maxRatio) {
+        callback(
+          new DecompressionLimitError(`compression ratio exceeds ${limits.maxRatio}:1`)
+        );
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+}
+
+// =============================================================================
+// GZIP / BZIP2
+// =============================================================================
+
+function tempPath(): string {
+  return join(tmpdir(), `decompressed-${randomUUID()}`);
+}
+
+// Stream into a temp file, removed again on failure
+async function writeTempFile(streams: [Readable, ...NodeJS.ReadWriteStream[]]): Promise<string> {
+  const path = tempPath();
+  try {
+    await pipeline([...streams, createWriteStream(path)]);
+    return path;
+  } catch (error) {
+    await unlink(path).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Decompress a gzip or bzip2 file to a local temp file, streaming, and
+ * return its path. The caller removes the file when done.
+ */
+export async function decompressFile(
+  filePath: string,
+  format: "gzip" | "bzip2",
+  limits: DecompressionLimits = defaultDecompressionLimits()
+): Promise<string> {
+  const source = createReadStream(filePath);
+  let consumed = 0;
+  source.on("data", (chunk) => {
+    consumed += chunk.length;
+  });
+
+  const decompressor = format === "gzip" ? createGunzip() : bz2();
+  return writeTempFile([source, decompressor, createSizeGuard(limits, () => consumed)]);
+}
+
+// =============================================================================
+// ZIP
+// =============================================================================
+
+function isDataEntry(name: string): boolean {
+  if (name.endsWith("/") || name.startsWith("__MACOSX/")) return false;
+  if (basename(name).startsWith(".")) return false;
+  return DATA_EXTENSIONS.has(extname(name).toLowerCase());
+}
+
+/**
+ * A zip archive opened for reading its data files. Declared sizes are
+ * checked against the limits before anything is extracted, and again while
+ * each entry streams, since headers can lie.
+ */
+export class ZipArchive {
+  private constructor(
+    private readonly zip: yauzl.ZipFile,
+    private readonly byName: Map<string, yauzl.Entry>,
+    private readonly limits: DecompressionLimits
+  ) {}
+
+  static async open(
+    filePath: string,
+    limits: DecompressionLimits = defaultDecompressionLimits()
+  ): Promise<ZipArchive> {
+    const zip = await yauzl.openPromise(filePath, { lazyEntries: true, autoClose: false });
+
+    try {
+      const byName = new Map<string, yauzl.Entry>();
+      await new Promise<void>((resolve, reject) => {
+        zip.on("entry", (entry: yauzl.Entry) => {
+          if (isDataEntry(entry.fileName)) {
+            byName.set(entry.fileName, entry);
+          }
+          if (byName.size > limits.maxEntries) {
+            reject(new DecompressionLimitError(`archive holds more than ${limits.maxEntries} files`));
+            return;
+          }
+          zip.readEntry();
+        });
+        zip.on("end", resolve);
+        zip.on("error", reject);
+        zip.readEntry();
+      });
+
+      let total = 0;
+      for (const entry of byName.values()) {
+        total += entry.uncompressedSize;
+        if (
+          entry.uncompressedSize > RATIO_CHECK_MIN_BYTES &&
+          entry.uncompressedSize / Math.max(entry.compressedSize, 1) > limits.maxRatio
+        ) {
+          throw new DecompressionLimitError(
+            `${entry.fileName} compression ratio exceeds ${limits.maxRatio}:1`
+          );
+        }
+      }
+      if (total > limits.maxBytes) {
+        throw new DecompressionLimitError(`archive contents exceed ${formatMb(limits.maxBytes)}`);
+      }
+
+      return new ZipArchive(zip, byName, limits);
+    } catch (error) {
+      zip.close();
+      throw error;
+    }
+  }
+
+  get entries(): ArchiveEntry[] {
+    return [...this.byName.values()].map((entry) => ({
+      name: entry.fileName,
+      compressedSize: entry.compressedSize,
+      uncompressedSize: entry.uncompressedSize,
+    }));
+  }
+
+  /**
+   * Stream one entry's decompressed bytes through the size guard.
+   */
+  async openEntry(name: string): Promise<Readable> {
+    const entry = this.byName.get(name);
+    if (!entry) throw new Error(`Archive entry not found: ${name}`);
+
+    const stream = await this.zip.openReadStreamPromise(entry);
+    const guard = createSizeGuard(this.limits, () => entry.compressedSize);
+    stream.on("error", (err) => guard.destroy(err));
+    return stream.pipe(guard);
+  }
+
+  /**
+   * Extract one entry to a local temp file and return its path.
+   */
+  async extractEntry(name: string): Promise<string> {
+    return writeTempFile([await this.openEntry(name)]);
+  }
+
+  close(): void {
+    this.zip.close();
+  }
+}
+
+// =============================================================================
+// TRANSPARENT DECOMPRESSION
+// =============================================================================
+
+export interface DecompressedInput {
+  path: string; // Local file to parse
+  // Wrappers removed, outermost first; empty when the file was not compressed
+  layers: { format: CompressionFormat; entry?: string }[];
+  tempPaths: string[]; // Files created on the way; the caller removes them
+}
+
+// A .csv.gz inside a zip is unwrapped too, but no deeper than this
+const MAX_COMPRESSION_LAYERS = 2;
+
+/**
+ * Strip compression from an upload so it can be read like any other file.
+ * A zip is only unwrapped when it holds exactly one data file; archives of
+ * several files have to be split into one ingestion each.
+ */
+export async function decompressInput(
+  filePath: string,
+  limits: DecompressionLimits = defaultDecompressionLimits()
+): Promise<DecompressedInput> {
+  const result: DecompressedInput = { path: filePath, layers: [], tempPaths: [] };
+
+  try {
+    for (let depth = 0; depth < MAX_COMPRESSION_LAYERS; depth++) {
+      const format = detectCompression(await readFileSample(result.path));
+      if (!format) break;
+
+      if (format === "zip") {
+        const archive = await ZipArchive.open(result.path, limits);
+        try {
+          const [entry, ...rest] = archive.entries;
+          if (!entry) throw new Error("Archive holds no data files");
+          if (rest.length > 0) {
+            throw new Error(
+              `Archive holds ${archive.entries.length} data files; set splitArchive to ingest each one separately`
+            );
+          }
+          result.path = await archive.extractEntry(entry.name);
+          result.layers.push({ format, entry: entry.name });
+        } finally {
+          archive.close();
+        }
+      } else {
+        result.path = await decompressFile(result.path, format, limits);
+        result.layers.push({ format });
+      }
+      result.tempPaths.push(result.path);
+    }
+  } catch (error) {
+    await Promise.all(result.tempPaths.map((path) => unlink(path).catch(() => undefined)));
+    throw error;
+  }
+
+  return result;
+}
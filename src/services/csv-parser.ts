@@ -1,21 +1,38 @@
-import { parse } from 'csv-parse';
+import { parse, type Options as CsvParseOptions } from 'csv-parse';
 import { createReadStream } from "fs";
 import { config } from "../config.js";
 import { logger } from "../utils/logger.js";
+import {
+  createDecodeStream,
+  decodeSample,
+  detectFileEncoding,
+  readFileSample,
+  type EncodingDetection,
+} from "./encoding.js";
+import type {
+  DialectDetection,
+  HeaderChange,
+  ParseOptions as FileParseOptions,
+  SupportedEncoding,
+} from "../types/index.js";
+import { sniffDialect } from "./dialect-sniffer.js";
+import {
+  detectHeaderRow,
+  normalizeHeaders,
+  withoutFooter,
+  type HeaderDetection,
+} from "./table-layout.js";
 import type { InferenceInput } from "./type-inference.js";
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
-export interface ParseOptions {
-  delimiter?: string;
-  quote?: string;
-  escape?: string;
-  encoding?: BufferEncoding;
+export interface ParseOptions extends FileParseOptions {
   sampleSize?: number;
-  skipEmptyLines?: boolean;
-  relaxColumnCount?: boolean;
+  // Tolerant mode: malformed records are reported here and skipped instead
+  // of failing the parse
+  onParseError?: (error: ParseError) => void;
 }
 
 export interface ParseResult {
@@ -24,208 +41,284 @@ export interface ParseResult {
   totalRowCount: number;
   parseErrors: ParseError[];
   detectedDelimiter: string;
+  detectedDialect: DialectDetection;
+  detectedHeader: HeaderDetection;
+  detectedEncoding: EncodingDetection;
+  headerChanges: HeaderChange[];
 }
 
 export interface ParseError {
-  row: number;
+  line: number; // 1-indexed physical line where the record ended
+  code: string; // csv-parse error code, e.g. CSV_INVALID_CLOSING_QUOTE
   message: string;
   rawLine?: string;
 }
 
+export class ParseErrorThresholdError extends Error {
+  constructor(errorCount: number, ratio: number, maxErrorRatio: number) {
+    super(
+      `Parse aborted: ${errorCount} malformed records (${(ratio * 100).toFixed(2)}%) exceed the maximum error ratio of ${(maxErrorRatio * 100).toFixed(2)}%`
+    );
+    this.name = "ParseErrorThresholdError";
+  }
+}
+
+/**
+ * Share of records that could not be parsed, out of every record read.
+ */
+export function parseErrorRatio(errorCount: number, rowCount: number): number {
+  const total = errorCount + rowCount;
+  return total > 0 ? errorCount / total : 0;
+}
+
 // =============================================================================
-// DELIMITER DETECTION
+// LAYOUT DETECTION
 // =============================================================================
 
-const COMMON_DELIMITERS = [",", ";", "\t", "|"];
+// Sniff from the first 64KB: many records, not just the header line
+const SNIFF_BYTES = 64 * 1024;
 
-// Escape a string for use in a RegExp
-function escapeRegExp(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+interface FileLayout {
+  dialect: DialectDetection;
+  header: HeaderDetection;
+  fromLine: number; // csv-parse's from_line for the header
 }
 
-async function detectDelimiter(
+/**
+ * csv-parse starts emitting records at the end of the first non-comment
+ * line at or after `from_line - 1`, so a header right below a comment line
+ * would be swallowed. Start after the last non-comment line above the
+ * header instead; the comments in between are skipped as usual.
+ */
+function headerFromLine(text: string, headerRow: number, commentPrefix?: string): number {
+  if (!commentPrefix) return headerRow + 1;
+
+  const above = text.split(/\r?\n/).slice(0, headerRow);
+  if (above.length < headerRow) return headerRow + 1; // Header beyond the sample
+
+  for (let i = above.length - 1; i >= 0; i--) {
+    if (!above[i]!.startsWith(commentPrefix)) return i + 2;
+  }
+  return 1;
+}
+
+// Work out the dialect and header row, honoring any options that were given
+async function detectLayout(
   filePath: string,
-  encoding?: BufferEncoding
-): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const stream = createReadStream(filePath, { end: 4096 }); // Read first 4KB
-    let data = "";
-
-    if (encoding) {
-      stream.setEncoding(encoding);
+  options: ParseOptions,
+  encoding: SupportedEncoding
+): Promise<FileLayout> {
+  const { delimiter, quote, escape, headerRow, commentPrefix } = options;
+  const given = {
+    ...(delimiter && { delimiter }),
+    ...(quote && { quote }),
+    ...(escape && { escape }),
+    ...(headerRow !== undefined && { headerRow }),
+    ...(commentPrefix && { commentPrefix }),
+  };
+
+  try {
+    const sample = await readFileSample(filePath, SNIFF_BYTES);
+    const text = decodeSample(sample, encoding);
+    const complete = sample.length < SNIFF_BYTES;
+
+    let dialect = sniffDialect(text, { ...given, complete });
+    const header = detectHeaderRow(text, dialect, { ...given, complete });
+    if (header.source === "detected" && header.headerRow > 0) {
+      // Sniff again without the preamble lines skewing the scores
+      dialect = sniffDialect(text, { ...given, headerRow: header.headerRow, complete });
     }
+    return { dialect, header, fromLine: headerFromLine(text, header.headerRow, commentPrefix) };
+  } catch (err) {
+    // fallback to comma on detection failure
+    logger.warn(
+      { filePath, err },
+      "parseCSV: layout detection failed, falling back to defaults"
+    );
+    const dialect = sniffDialect("", given);
+    const header = detectHeaderRow("", dialect, { ...given, complete: true });
+    return { dialect, header, fromLine: header.headerRow + 1 };
+  }
+}
+
+// Translate parse options into csv-parse settings, shared by every reader.
+// Renamed headers are appended to `headerChanges` once the header is read.
+function toParserOptions(
+  layout: FileLayout,
+  options: ParseOptions,
+  headerChanges: HeaderChange[]
+): Omit<CsvParseOptions<Record<string, unknown>>, "columns"> & {
+  columns: (header: string[]) => string[];
+} {
+  const { trim = "none", skipEmptyLines = true, relaxColumnCount = true } = options;
+
+  return {
+    delimiter: layout.dialect.delimiter,
+    quote: layout.dialect.quote,
+    escape: layout.dialect.escape,
+    // Key records by the header row, renamed so no column is lost
+    columns: (header) => {
+      const { columns, changes } = normalizeHeaders(header);
+      headerChanges.push(...changes);
+      return columns;
+    },
+    from_line: layout.fromLine,
+    ...(options.commentPrefix && {
+      comment: options.commentPrefix,
+      comment_no_infix: true, // Only whole lines are comments
+    }),
+    ltrim: trim === "left" || trim === "both",
+    rtrim: trim === "right" || trim === "both",
+    skip_empty_lines: skipEmptyLines,
+    relax_column_count: relaxColumnCount,
+    ...(options.onParseError && {
+      skip_records_with_error: true,
+      raw: true, // Hands the skipped text to on_skip
+      on_skip: (err, raw) => {
+        options.onParseError!({
+          line: err?.lines ?? 0,
+          code: err?.code ?? "CSV_UNKNOWN_ERROR",
+          message: err?.message ?? "Malformed record",
+          ...(raw !== undefined && { rawLine: raw.replace(/\r?\n$/, "") }),
+        });
+        return undefined;
+      },
+    }),
+  };
+}
+
+// With `raw` on, csv-parse wraps each record together with its source text
+async function* unwrapRawRecords(
+  records: AsyncIterable<{ record: Record<string, unknown> }>
+): AsyncGenerator<Record<string, unknown>> {
+  for await (const { record } of records) {
+    yield record;
+  }
+}
+
+// =============================================================================
+// RECORD STREAM (whole-file parsing with bounded memory)
+// =============================================================================
+
+export interface CSVRecordStream {
+  dialect: DialectDetection;
+  header: HeaderDetection;
+  encoding: EncodingDetection;
+  records: AsyncIterable<Record<string, unknown>>;
+  // Filled in once the header row has been read
+  headerChanges: HeaderChange[];
+  // Rows dropped from the end of the file; filled in once records are exhausted
+  trailingRows: Record<string, unknown>[];
+}
+
+/**
+ * Parse every record of a file lazily. Unlike parseCSV nothing is buffered,
+ * so callers can walk arbitrarily large files.
+ */
+export async function streamCSV(
+  filePath: string,
+  options: ParseOptions = {}
+): Promise<CSVRecordStream> {
+  const encoding = await detectFileEncoding(filePath, options.encoding);
+  const layout = await detectLayout(filePath, options, encoding.encoding);
 
-    stream.on("data", (chunk) => {
-      data += typeof chunk === "string" ? chunk : chunk.toString();
-    });
-
-    stream.on("end", () => {
-      if (!data) return resolve(",");
-      const firstLine = data.split("\n")[0] || "";
-      if (!firstLine) return resolve(",");
-
-      // Count occurrences of each delimiter in first line using escaped regex
-      const counts = COMMON_DELIMITERS.map((delim) => {
-        const pattern = new RegExp(escapeRegExp(delim), "g");
-        const count = (firstLine.match(pattern) || []).length;
-        return { delim, count };
-      });
-
-      // Pick the one with highest count (and at least 1)
-      counts.sort((a, b) => b.count - a.count);
-      const best = counts[0];
-      resolve(best && best.count > 0 ? best.delim : ",");
-    });
-
-    stream.on("error", reject);
+  const headerChanges: HeaderChange[] = [];
+  const parser = parse(toParserOptions(layout, options, headerChanges));
+
+  const stream = createReadStream(filePath);
+  stream.on("error", (err) => {
+    logger.error({ filePath, err }, "read stream error");
+    parser.destroy(err);
   });
+  stream.pipe(createDecodeStream(encoding.encoding)).pipe(parser);
+
+  const trailingRows: Record<string, unknown>[] = [];
+  return {
+    dialect: layout.dialect,
+    header: layout.header,
+    encoding,
+    records: withoutFooter(
+      options.onParseError ? unwrapRawRecords(parser) : parser,
+      options,
+      trailingRows
+    ),
+    headerChanges,
+    trailingRows,
+  };
 }
 
 // =============================================================================
-// STREAMING PARSER
+// SAMPLE PARSE
 // =============================================================================
 
+/**
+ * Parse a file keeping only the first `sampleSize` rows, plus the row count.
+ * Malformed records are skipped and returned in parseErrors.
+ */
 export async function parseCSV(
   filePath: string,
   options: ParseOptions = {}
 ): Promise<ParseResult> {
-  const {
-    sampleSize = config.inferenceSampleSize,
-    skipEmptyLines = true,
-    relaxColumnCount = true,
-  } = options;
-
-  // Auto-detect delimiter if not provided (best-effort)
-  let delimiter = options.delimiter;
-  if (!delimiter) {
-    try {
-      delimiter = await detectDelimiter(filePath, options.encoding);
-    } catch (err) {
-      // fallback to comma on detection failure
-      logger.warn(
-        { filePath, err },
-        "parseCSV: delimiter detection failed, falling back to comma"
-      );
-      delimiter = ",";
+  const { sampleSize = config.inferenceSampleSize } = options;
+  const parseErrors: ParseError[] = [];
+  const { dialect, header, encoding, records, headerChanges } = await streamCSV(
+    filePath,
+    {
+      ...options,
+      onParseError: (error) => {
+        parseErrors.push(error);
+        options.onParseError?.(error);
+      },
     }
-  }
+  );
 
-  const parseErrors: ParseError[] = [];
   const rows: Record<string, unknown>[] = [];
   let columns: string[] = [];
   let totalRowCount = 0;
 
-  return new Promise((resolve, reject) => {
-    let settled = false;
-    const finishOnce = (fn: () => void) => {
-      return () => {
-        if (settled) return;
-        logger.info(
-          {
-            filePath,
-            columns: columns.length,
-            totalRowCount,
-            parseErrors: parseErrors.length,
-            detectedDelimiter: delimiter,
-          },
-          "parseCSV: complete"
-        );
-        settled = true;
-        fn();
-      };
-    };
-
-    const parser = parse({
-      delimiter,
-      quote: options.quote ?? '"',
-      escape: options.escape ?? '"',
-      columns: true, // Use first row as headers
-      skip_empty_lines: skipEmptyLines,
-      relax_column_count: relaxColumnCount,
-      on_record: (record) => {
-        totalRowCount++;
-
-        // Capture column names from first record
-        if (columns.length === 0) {
-          columns = Object.keys(record as Record<string, unknown>);
-        }
-
-        // Only keep samples up to sampleSize
-        if (rows.length < sampleSize) {
-          rows.push(record as Record<string, unknown>);
-        }
-
-        return record;
-      },
-    });
-
-    parser.on("error", (err) => {
-      parseErrors.push({
-        row: totalRowCount,
-        message: err.message,
-      });
-      logger.error({ filePath, row: totalRowCount, err }, "csv-parse error");
-
-      if (!settled) {
-        settled = true;
-        reject(err);
-      }
-    });
-
-    const stream = createReadStream(filePath);
+  try {
+    for await (const record of records) {
+      totalRowCount++;
 
-    stream.on("error", (err) => {
-      logger.error({ filePath, err }, "read stream error");
-      if (!settled) {
-        settled = true;
-        reject(err);
+      // Capture column names from first record
+      if (columns.length === 0) {
+        columns = Object.keys(record);
       }
-    });
-
-    parser.on(
-      "end",
-      finishOnce(() => {
-        resolve({
-          columns,
-          rows,
-          totalRowCount,
-          parseErrors,
-          detectedDelimiter: delimiter,
-        });
-      })
-    );
 
-    parser.on(
-      "finish",
-      finishOnce(() => {
-        resolve({
-          columns,
-          rows,
-          totalRowCount,
-          parseErrors,
-          detectedDelimiter: delimiter,
-        });
-      })
-    );
+      // Only keep samples up to sampleSize
+      if (rows.length < sampleSize) {
+        rows.push(record);
+      }
+    }
+  } catch (err) {
+    logger.error({ filePath, row: totalRowCount, err }, "csv-parse error");
+    throw err;
+  }
 
-    parser.on(
-      "close",
-      finishOnce(() => {
-        resolve({
-          columns,
-          rows,
-          totalRowCount,
-          parseErrors,
-          detectedDelimiter: delimiter,
-        });
-      })
-    );
+  logger.info(
+    {
+      filePath,
+      columns: columns.length,
+      totalRowCount,
+      parseErrors: parseErrors.length,
+      detectedDelimiter: dialect.delimiter,
+      detectedEncoding: encoding.encoding,
+      headerRow: header.headerRow,
+    },
+    "parseCSV: complete"
+  );
 
-    // Pipe after listeners attached
-    stream.pipe(parser);
-    // Consume the output to prevent backpressure since we're using on_record
-    parser.resume();
-  });
+  return {
+    columns,
+    rows,
+    totalRowCount,
+    parseErrors,
+    detectedDelimiter: dialect.delimiter,
+    detectedDialect: dialect,
+    detectedHeader: header,
+    detectedEncoding: encoding,
+    headerChanges,
+  };
 }
 
 // // =============================================================================
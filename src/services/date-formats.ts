@@ -0,0 +1,347 @@
+// =============================================================================
+// DATE FORMAT ENGINE
+// =============================================================================
+//
+// Format patterns use moment/Java-style tokens:
+//
+//   YYYY yyyy  4-digit year         YY yy   2-digit year (00-69 => 20xx)
+//   MMMM       month name           MMM     short month name
+//   MM         2-digit month        M       1-2 digit month
+//   DD dd      2-digit day          D d     1-2 digit day
+//   HH H       24-hour              hh h    12-hour (with A/a)
+//   mm m       minutes              ss s    seconds
+//   SSS        milliseconds         A a     AM/PM
+//   Z ZZ XXX   offset (Z, +01:00, +0100)
+//
+// Text inside [brackets] or 'quotes' is literal. Named formats:
+//
+//   ISO        ISO 8601 date or datetime
+//   excel      Excel serial day number (1900 date system)
+//   unix / X   Unix epoch seconds
+//   unix_ms / x  Unix epoch milliseconds
+//
+// Values without an offset are read as UTC so dates never shift by timezone.
+
+export interface ParsedDate {
+  date: Date;
+  format: string;
+}
+
+// Tried when a column declares no formats (historical behaviour)
+export const DEFAULT_DATE_FORMATS = ["ISO", "YYYY/M/D", "M/D/YYYY", "M-D-YYYY"];
+
+const MONTH_NAMES = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+// Excel's day zero, accounting for its fictitious 1900-02-29
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Field =
+  | "year4"
+  | "year2"
+  | "monthName"
+  | "monthShort"
+  | "month"
+  | "day"
+  | "hour24"
+  | "hour12"
+  | "minute"
+  | "second"
+  | "millis"
+  | "meridiem"
+  | "offset";
+
+const TOKENS: Array<{ token: string; field: Field; pattern: string }> = [
+  { token: "YYYY", field: "year4", pattern: "\\d{4}" },
+  { token: "yyyy", field: "year4", pattern: "\\d{4}" },
+  { token: "MMMM", field: "monthName", pattern: "[A-Za-z]{3,9}" },
+  { token: "MMM", field: "monthShort", pattern: "[A-Za-z]{3}\\.?" },
+  { token: "SSS", field: "millis", pattern: "\\d{1,3}" },
+  { token: "XXX", field: "offset", pattern: "Z|[+-]\\d{2}:?\\d{2}" },
+  { token: "YY", field: "year2", pattern: "\\d{2}" },
+  { token: "yy", field: "year2", pattern: "\\d{2}" },
+  { token: "MM", field: "month", pattern: "\\d{2}" },
+  { token: "DD", field: "day", pattern: "\\d{2}" },
+  { token: "dd", field: "day", pattern: "\\d{2}" },
+  { token: "HH", field: "hour24", pattern: "\\d{2}" },
+  { token: "hh", field: "hour12", pattern: "\\d{2}" },
+  { token: "mm", field: "minute", pattern: "\\d{2}" },
+  { token: "ss", field: "second", pattern: "\\d{2}" },
+  { token: "ZZ", field: "offset", pattern: "Z|[+-]\\d{2}:?\\d{2}" },
+  { token: "M", field: "month", pattern: "\\d{1,2}" },
+  { token: "D", field: "day", pattern: "\\d{1,2}" },
+  { token: "d", field: "day", pattern: "\\d{1,2}" },
+  { token: "H", field: "hour24", pattern: "\\d{1,2}" },
+  { token: "h", field: "hour12", pattern: "\\d{1,2}" },
+  { token: "m", field: "minute", pattern: "\\d{1,2}" },
+  { token: "s", field: "second", pattern: "\\d{1,2}" },
+  { token: "A", field: "meridiem", pattern: "[AaPp][Mm]" },
+  { token: "a", field: "meridiem", pattern: "[AaPp][Mm]" },
+  { token: "Z", field: "offset", pattern: "Z|[+-]\\d{2}:?\\d{2}" },
+];
+
+interface CompiledFormat {
+  regex: RegExp;
+  fields: Field[];
+}
+
+function escapeRegExp(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const compiledCache = new Map<string, CompiledFormat>();
+
+function compileFormat(format: string): CompiledFormat {
+  const cached = compiledCache.get(format);
+  if (cached) return cached;
+
+  let pattern = "";
+  const fields: Field[] = [];
+  let i = 0;
+
+  while (i < format.length) {
+    const ch = format[i]!;
+
+    // Literal sections
+    if (ch === "[" || ch === "'") {
+      const close = format.indexOf(ch === "[" ? "]" : "'", i + 1);
+      const end = close === -1 ? format.length : close;
+      pattern += escapeRegExp(format.slice(i + 1, end));
+      i = end + 1;
+      continue;
+    }
+
+    const token = TOKENS.find((t) => format.startsWith(t.token, i));
+    if (token) {
+      pattern += `(${token.pattern})`;
+      fields.push(token.field);
+      i += token.token.length;
+      continue;
+    }
+
+    // Be forgiving about runs of whitespace in the input
+    pattern += /\s/.test(ch) ? "\\s+" : escapeRegExp(ch);
+    i++;
+  }
+
+  const compiled = { regex: new RegExp(`^${pattern}$`), fields };
+  compiledCache.set(format, compiled);
+  return compiled;
+}
+
+function parseOffsetMinutes(offset: string): number {
+  if (offset === "Z") return 0;
+  const match = offset.match(/^([+-])(\d{2}):?(\d{2})$/);
+  if (!match) return 0;
+  const minutes = parseInt(match[2]!, 10) * 60 + parseInt(match[3]!, 10);
+  return match[1] === "-" ? -minutes : minutes;
+}
+
+function monthFromName(name: string): number | null {
+  const lower = name.toLowerCase().replace(/\.$/, "");
+  const index = MONTH_NAMES.findIndex(
+    (m) => m === lower || (lower.length === 3 && m.startsWith(lower))
+  );
+  return index === -1 ? null : index + 1;
+}
+
+function parsePattern(value: string, format: string): Date | null {
+  const { regex, fields } = compileFormat(format);
+  const match = value.match(regex);
+  if (!match) return null;
+
+  let year: number | null = null;
+  let month = 1;
+  let day = 1;
+  let hour = 0;
+  let minute = 0;
+  let second = 0;
+  let millis = 0;
+  let meridiem: string | null = null;
+  let twelveHour = false;
+  let offsetMinutes = 0;
+
+  for (let f = 0; f < fields.length; f++) {
+    const raw = match[f + 1]!;
+    switch (fields[f]!) {
+      case "year4":
+        year = parseInt(raw, 10);
+        break;
+      case "year2": {
+        const yy = parseInt(raw, 10);
+        year = yy < 70 ? 2000 + yy : 1900 + yy;
+        break;
+      }
+      case "monthName":
+      case "monthShort": {
+        const m = monthFromName(raw);
+        if (m === null) return null;
+        month = m;
+        break;
+      }
+      case "month":
+        month = parseInt(raw, 10);
+        break;
+      case "day":
+        day = parseInt(raw, 10);
+        break;
+      case "hour24":
+        hour = parseInt(raw, 10);
+        break;
+      case "hour12":
+        hour = parseInt(raw, 10);
+        twelveHour = true;
+        break;
+      case "minute":
+        minute = parseInt(raw, 10);
+        break;
+      case "second":
+        second = parseInt(raw, 10);
+        break;
+      case "millis":
+        millis = parseInt(raw.padEnd(3, "0"), 10);
+        break;
+      case "meridiem":
+        meridiem = raw.toLowerCase();
+        break;
+      case "offset":
+        offsetMinutes = parseOffsetMinutes(raw);
+        break;
+    }
+  }
+
+  if (year === null) return null;
+  if (twelveHour) {
+    if (hour < 1 || hour > 12) return null;
+    if (meridiem === "pm" && hour !== 12) hour += 12;
+    if (meridiem === "am" && hour === 12) hour = 0;
+  }
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  if (hour > 23 || minute > 59 || second > 59) return null;
+
+  const utc = Date.UTC(year, month - 1, day, hour, minute, second, millis);
+  const probe = new Date(utc);
+
+  // Reject rollovers such as 31/02
+  if (
+    probe.getUTCFullYear() !== year ||
+    probe.getUTCMonth() !== month - 1 ||
+    probe.getUTCDate() !== day
+  ) {
+    return null;
+  }
+
+  return new Date(utc - offsetMinutes * 60 * 1000);
+}
+
+const ISO_REGEX =
+  /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+function parseIso(value: string): Date | null {
+  if (!ISO_REGEX.test(value)) return null;
+
+  // Validate the calendar date strictly, then let the runtime handle the time
+  const datePart = parsePattern(value.slice(0, 10), "YYYY-MM-DD");
+  if (!datePart || value.length === 10) return datePart;
+
+  const hasOffset = /([zZ]|[+-]\d{2}:?\d{2})$/.test(value);
+  const normalized = value.replace(" ", "T") + (hasOffset ? "" : "Z");
+  const date = new Date(normalized);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Returns undefined when the format is a token pattern rather than a name
+function parseNamedFormat(value: string, format: string): Date | null | undefined {
+  switch (format) {
+    case "ISO":
+    case "iso":
+      return parseIso(value);
+
+    case "excel": {
+      if (!/^\d+(\.\d+)?$/.test(value)) return null;
+      const serial = parseFloat(value);
+      // Serial 60 is Excel's phantom 1900-02-29
+      if (serial < 1 || serial === 60) return null;
+      const offset = serial < 60 ? DAY_MS : 0;
+      return new Date(EXCEL_EPOCH_MS + Math.round(serial * DAY_MS) + offset);
+    }
+
+    case "unix":
+    case "X":
+      if (!/^-?\d+(\.\d+)?$/.test(value)) return null;
+      return new Date(Math.round(parseFloat(value) * 1000));
+
+    case "unix_ms":
+    case "x":
+      if (!/^-?\d+$/.test(value)) return null;
+      return new Date(parseInt(value, 10));
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Parse a value with a single format. Returns null when it does not match.
+ */
+export function parseDateWithFormat(value: string, format: string): Date | null {
+  const trimmed = value.trim();
+  if (trimmed === "") return null;
+
+  const named = parseNamedFormat(trimmed, format);
+  if (named !== undefined) {
+    return named && !isNaN(named.getTime()) ? named : null;
+  }
+
+  return parsePattern(trimmed, format);
+}
+
+/**
+ * Try formats in order and report the first that matched.
+ */
+export function parseDate(value: string, formats: string[]): ParsedDate | null {
+  for (const format of formats) {
+    const date = parseDateWithFormat(value, format);
+    if (date) {
+      return { date, format };
+    }
+  }
+  return null;
+}
+
+/**
+ * Formats to try for a column: the declared format, then alternatives, then
+ * ISO as an unambiguous safety net. Undeclared columns keep the old defaults.
+ */
+export function resolveDateFormats(
+  dateFormat: string | undefined,
+  coerceFormats: string[] | undefined
+): string[] {
+  const declared = [
+    ...(dateFormat ? [dateFormat] : []),
+    ...(coerceFormats ?? []),
+  ];
+  if (declared.length === 0) {
+    return DEFAULT_DATE_FORMATS;
+  }
+  return declared.some((f) => f.toLowerCase() === "iso")
+    ? declared
+    : [...declared, "ISO"];
+}
+
+export function formatDateValue(date: Date, type: "date" | "datetime"): string {
+  return type === "date" ? date.toISOString().split("T")[0]! : date.toISOString();
+}
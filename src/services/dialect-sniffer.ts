@@ -0,0 +1,285 @@
+import type { DialectDetection, ParseOptions } from "../types/index.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface Dialect {
+  delimiter: string;
+  quote: string;
+  escape: string;
+}
+
+interface ScoredDialect extends Dialect {
+  score: number;
+  columnCount: number;
+}
+
+export interface SniffOptions
+  extends Pick<
+    ParseOptions,
+    "delimiter" | "quote" | "escape" | "headerRow" | "commentPrefix"
+  > {
+  // False when the sample was cut from a longer file, so its last record
+  // may be partial
+  complete?: boolean;
+}
+
+const CANDIDATE_DELIMITERS = [",", ";", "\t", "|"];
+const CANDIDATE_QUOTES = ['"', "'"];
+const DEFAULT_DIALECT: Dialect = { delimiter: ",", quote: '"', escape: '"' };
+
+// Records scored per candidate; a header plus enough rows to see variation
+const MAX_SNIFF_RECORDS = 100;
+
+// Runner-ups scoring within this of the winner make the result ambiguous
+const AMBIGUITY_MARGIN = 0.1;
+
+// =============================================================================
+// RECORD SHAPES
+// =============================================================================
+
+export interface SampleRecord {
+  line: number; // 0-indexed line the record starts on
+  fields: string[];
+  // Quotes used in a way csv-parse would reject, a sign of the wrong dialect
+  malformed: boolean;
+}
+
+/**
+ * Split a decoded sample into records under one dialect, the way csv-parse
+ * would. Quoted fields may contain delimiters and line breaks; a quote only
+ * opens a field when it is the field's first character. Blank lines are
+ * skipped but still counted.
+ */
+export function splitRecords(
+  sample: string,
+  dialect: Dialect,
+  complete: boolean,
+  limit: number = MAX_SNIFF_RECORDS
+): SampleRecord[] {
+  const { delimiter, quote, escape } = dialect;
+  const records: SampleRecord[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let line = 0;
+  let startLine = 0;
+  let malformed = false;
+  let inQuotes = false;
+  let afterQuote = false;
+  let atFieldStart = true;
+  let hasContent = false;
+
+  for (let i = 0; i < sample.length && records.length < limit; i++) {
+    const ch = sample[i]!;
+
+    if (inQuotes) {
+      if (ch === escape && sample[i + 1] === quote) {
+        field += quote; // Escaped quote, doubled or backslashed
+        i++;
+      } else if (ch === quote) {
+        inQuotes = false;
+        afterQuote = true;
+      } else {
+        if (ch === "\n" || (ch === "\r" && sample[i + 1] !== "\n")) line++;
+        field += ch;
+      }
+      continue;
+    }
+
+    if (sample.startsWith(delimiter, i)) {
+      fields.push(field);
+      field = "";
+      afterQuote = false;
+      atFieldStart = true;
+      hasContent = true;
+      i += delimiter.length - 1;
+      continue;
+    }
+
+    if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && sample[i + 1] === "\n") i++;
+      if (hasContent) {
+        fields.push(field);
+        records.push({ line: startLine, fields, malformed });
+      }
+      line++;
+      startLine = line;
+      fields = [];
+      field = "";
+      malformed = false;
+      afterQuote = false;
+      atFieldStart = true;
+      hasContent = false;
+      continue;
+    }
+
+    if (afterQuote) {
+      // Text after a closing quote
+      malformed = true;
+    } else if (ch === quote && atFieldStart) {
+      inQuotes = true;
+      atFieldStart = false;
+      hasContent = true;
+      continue;
+    } else if (atFieldStart && CANDIDATE_QUOTES.includes(ch)) {
+      // Another quote character opening a field that is not treated as quoted
+      malformed = true;
+    }
+    field += ch;
+    atFieldStart = false;
+    hasContent = true;
+  }
+
+  if (complete && hasContent && !inQuotes && records.length < limit) {
+    fields.push(field);
+    records.push({ line: startLine, fields, malformed });
+  }
+  return records;
+}
+
+/**
+ * Score a dialect by the share of records that split cleanly into its most
+ * common column count. A dialect that never splits a record scores 0.
+ */
+function scoreDialect(sample: string, dialect: Dialect, complete: boolean): ScoredDialect {
+  const records = splitRecords(sample, dialect, complete);
+
+  const frequency = new Map<number, number>();
+  for (const { fields } of records) {
+    frequency.set(fields.length, (frequency.get(fields.length) ?? 0) + 1);
+  }
+
+  // Most common column count; ties go to the wider shape
+  let columnCount = 1;
+  let occurrences = 0;
+  for (const [count, seen] of frequency) {
+    if (seen > occurrences || (seen === occurrences && count > columnCount)) {
+      columnCount = count;
+      occurrences = seen;
+    }
+  }
+
+  const clean = records.filter(
+    (r) => r.fields.length === columnCount && !r.malformed
+  ).length;
+  const score = columnCount > 1 && records.length > 0 ? clean / records.length : 0;
+  return { ...dialect, score, columnCount };
+}
+
+function isBetter(a: ScoredDialect, b: ScoredDialect | undefined): boolean {
+  if (!b) return true;
+  if (a.score !== b.score) return a.score > b.score;
+  return a.columnCount > b.columnCount;
+}
+
+// =============================================================================
+// SNIFFING
+// =============================================================================
+
+/**
+ * Remove whole-line comments. csv-parse's from_line still counts them, so
+ * header rows are numbered on the original text; see commentFreeLineNumbers.
+ */
+export function withoutCommentLines(sample: string, commentPrefix?: string): string {
+  if (!commentPrefix) return sample;
+  return sample
+    .split(/\r?\n/)
+    .filter((line) => !line.startsWith(commentPrefix))
+    .join("\n");
+}
+
+/** The original line number of each line withoutCommentLines keeps. */
+export function commentFreeLineNumbers(sample: string, commentPrefix?: string): number[] {
+  const numbers: number[] = [];
+  sample.split(/\r?\n/).forEach((line, i) => {
+    if (!commentPrefix || !line.startsWith(commentPrefix)) numbers.push(i);
+  });
+  return numbers;
+}
+
+// Drop the preamble lines above the header, then comments
+function sampleFromHeader(sample: string, options: SniffOptions): string {
+  const { headerRow = 0, commentPrefix } = options;
+  const text = headerRow === 0 ? sample : sample.split(/\r?\n/).slice(headerRow).join("\n");
+  return withoutCommentLines(text, commentPrefix);
+}
+
+/**
+ * Work out the delimiter, quote and escape characters of a decoded sample.
+ * Every candidate combination is scored on up to MAX_SNIFF_RECORDS records;
+ * explicit options narrow the candidates.
+ * The best-scoring other delimiter is reported as the runner-up.
+ */
+export function sniffDialect(sample: string, options: SniffOptions = {}): DialectDetection {
+  const text = sampleFromHeader(sample, options);
+  const complete = options.complete ?? true;
+
+  const delimiters = options.delimiter ? [options.delimiter] : CANDIDATE_DELIMITERS;
+  const quotes = options.quote ? [options.quote] : CANDIDATE_QUOTES;
+
+  // Best dialect for each delimiter, in candidate order
+  const bestByDelimiter = new Map<string, ScoredDialect>();
+  for (const delimiter of delimiters) {
+    for (const quote of quotes) {
+      const escapes = options.escape ? [options.escape] : [quote, "\\"];
+      for (const escape of escapes) {
+        const scored = scoreDialect(text, { delimiter, quote, escape }, complete);
+        if (isBetter(scored, bestByDelimiter.get(delimiter))) {
+          bestByDelimiter.set(delimiter, scored);
+        }
+      }
+    }
+  }
+
+  let best: ScoredDialect | undefined;
+  let runnerUp: ScoredDialect | undefined;
+  for (const scored of bestByDelimiter.values()) {
+    if (isBetter(scored, best)) {
+      runnerUp = best;
+      best = scored;
+    } else if (isBetter(scored, runnerUp)) {
+      runnerUp = scored;
+    }
+  }
+
+  if (options.delimiter && best) {
+    const { delimiter, quote, escape } = best;
+    return {
+      delimiter,
+      quote,
+      escape,
+      confidence: 1,
+      ambiguous: false,
+      runnerUp: null,
+      source: "override",
+    };
+  }
+
+  if (!best || best.score === 0) {
+    // Single-column file (or nothing to go on)
+    return {
+      delimiter: DEFAULT_DIALECT.delimiter,
+      quote: options.quote ?? DEFAULT_DIALECT.quote,
+      escape: options.escape ?? options.quote ?? DEFAULT_DIALECT.escape,
+      confidence: 0,
+      ambiguous: false,
+      runnerUp: null,
+      source: "default",
+    };
+  }
+
+  const contender = runnerUp && runnerUp.score > 0 ? runnerUp : null;
+  return {
+    delimiter: best.delimiter,
+    quote: best.quote,
+    escape: best.escape,
+    confidence: best.score,
+    ambiguous: contender !== null && best.score - contender.score < AMBIGUITY_MARGIN,
+    runnerUp: contender && {
+      delimiter: contender.delimiter,
+      confidence: contender.score,
+    },
+    source: "sniffed",
+  };
+}
@@ -0,0 +1,128 @@
+import { basename } from "path";
+import { config } from "../config.js";
+import { listFiles, type StorageObject } from "./storage.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+// Subfolders of a zone that files move through once claimed
+export type DropZoneFolder = "processing" | "processed" | "failed";
+
+export class FilePatternError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FilePatternError";
+  }
+}
+
+// Where the pipeline keeps its own files; a zone may not sit inside one
+const RESERVED_PREFIXES = ["raw/", "rows/", "validation/", "quarantine/", "output/", "uploads/"];
+
+// =============================================================================
+// ZONE CONFIG
+// =============================================================================
+
+/**
+ * Normalize a zone prefix to a relative key prefix ending in "/". Returns
+ * null for prefixes that would leave the storage root or overlap the
+ * pipeline's own files.
+ */
+export function normalizeDropZonePrefix(prefix: string): string | null {
+  const segments = prefix
+    .trim()
+    .split("/")
+    .filter((segment) => segment.length > 0 && segment !== ".");
+
+  if (segments.length === 0 || prefix.trim().startsWith("/")) return null;
+  if (segments.some((segment) => segment === ".." || segment.includes("\\"))) return null;
+
+  const normalized = `${segments.join("/")}/`;
+  if (RESERVED_PREFIXES.some((reserved) => prefixesOverlap(normalized, reserved))) {
+    return null;
+  }
+  return normalized;
+}
+
+// One zone inside another would pick up the other's files or subfolders
+export function prefixesOverlap(a: string, b: string): boolean {
+  return a.startsWith(b) || b.startsWith(a);
+}
+
+/**
+ * Compile a file-name glob to a case-insensitive regex. Supports "*", "?"
+ * and "{a,b}" alternatives; patterns never match across "/".
+ */
+export function compileFilePattern(pattern: string): RegExp {
+  let source = "";
+  let inGroup = false;
+
+  for (const char of pattern) {
+    switch (char) {
+      case "*":
+        source += "[^/]*";
+        break;
+      case "?":
+        source += "[^/]";
+        break;
+      case "{":
+        if (inGroup) throw new FilePatternError("Nested { } groups are not supported");
+        inGroup = true;
+        source += "(?:";
+        break;
+      case "}":
+        if (!inGroup) throw new FilePatternError("Unmatched } in file pattern");
+        inGroup = false;
+        source += ")";
+        break;
+      case ",":
+        source += inGroup ? "|" : ",";
+        break;
+      case "/":
+        throw new FilePatternError("File patterns match names, not paths");
+      default:
+        source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+  if (inGroup) throw new FilePatternError("Unclosed { in file pattern");
+
+  return new RegExp(`^${source}$`, "i");
+}
+
+// =============================================================================
+// FILES
+// =============================================================================
+
+export function dropZoneFileKey(
+  prefix: string,
+  folder: DropZoneFolder,
+  fileId: string,
+  filename: string
+): string {
+  // A folder per file keeps repeated drops of the same name apart
+  return `${prefix}${folder}/${fileId}/${filename}`;
+}
+
+/**
+ * Files waiting in a zone, oldest first. Hidden files are skipped, as are
+ * files modified within the settle time, which may still be being written.
+ */
+export async function findDropZoneFiles(
+  zone: { prefix: string; filePattern: string },
+  now: Date = new Date(),
+  settleMs: number = config.dropZoneSettleSeconds * 1000
+): Promise<StorageObject[]> {
+  const pattern = compileFilePattern(zone.filePattern);
+  const objects = await listFiles(zone.prefix);
+
+  return objects
+    .filter((object) => {
+      const name = basename(object.key);
+      return (
+        !name.startsWith(".") &&
+        pattern.test(name) &&
+        now.getTime() - object.modifiedAt.getTime() >= settleMs
+      );
+    })
+    .sort((a, b) => a.modifiedAt.getTime() - b.modifiedAt.getTime());
+}
@@ -0,0 +1,165 @@
+import { open } from "fs/promises";
+import { Transform } from "stream";
+import type { SupportedEncoding } from "../types/index.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface EncodingDetection {
+  encoding: SupportedEncoding;
+  confidence: number; // 0-1
+  bom: boolean;
+  source: "bom" | "heuristic" | "override";
+}
+
+// Enough to see past a header row into real data
+const SAMPLE_BYTES = 64 * 1024;
+
+// Bytes Windows-1252 leaves undefined; seeing them points at Latin-1
+const CP1252_UNDEFINED = new Set([0x81, 0x8d, 0x8f, 0x90, 0x9d]);
+
+// =============================================================================
+// DETECTION
+// =============================================================================
+
+function detectBom(sample: Buffer): SupportedEncoding | null {
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) return "utf-8";
+  if (sample[0] === 0xff && sample[1] === 0xfe) return "utf-16le";
+  if (sample[0] === 0xfe && sample[1] === 0xff) return "utf-16be";
+  return null;
+}
+
+function isValidUtf8(sample: Buffer): boolean {
+  try {
+    // stream: true tolerates a multi-byte sequence cut off by the sample end
+    new TextDecoder("utf-8", { fatal: true }).decode(sample, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Guess the encoding of the start of a file. A BOM is authoritative; without
+ * one, UTF-16 shows up as NUL bytes in alternating positions, UTF-8 has to
+ * decode cleanly, and anything else is treated as a Windows/Latin-1 code page.
+ */
+export function detectEncoding(sample: Buffer): EncodingDetection {
+  const bomEncoding = detectBom(sample);
+  if (bomEncoding) {
+    return { encoding: bomEncoding, confidence: 1, bom: true, source: "bom" };
+  }
+
+  if (sample.length === 0) {
+    return { encoding: "utf-8", confidence: 1, bom: false, source: "heuristic" };
+  }
+
+  // ASCII text encoded as UTF-16 has a NUL in every other byte
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  const pairs = sample.length / 2;
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) {
+    return { encoding: "utf-16le", confidence: 0.9, bom: false, source: "heuristic" };
+  }
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) {
+    return { encoding: "utf-16be", confidence: 0.9, bom: false, source: "heuristic" };
+  }
+
+  const highBytes = sample.filter((b) => b >= 0x80);
+  if (highBytes.length === 0) {
+    // Pure ASCII reads the same in every supported single-byte encoding
+    return { encoding: "utf-8", confidence: 1, bom: false, source: "heuristic" };
+  }
+
+  if (isValidUtf8(sample)) {
+    // Code-page text very rarely forms valid multi-byte sequences by accident
+    return { encoding: "utf-8", confidence: 0.95, bom: false, source: "heuristic" };
+  }
+
+  if (highBytes.some((b) => CP1252_UNDEFINED.has(b))) {
+    return { encoding: "iso-8859-1", confidence: 0.6, bom: false, source: "heuristic" };
+  }
+
+  // Bytes 0x80-0x9F are printable only in Windows-1252 (curly quotes, euro sign)
+  const hasC1 = highBytes.some((b) => b <= 0x9f);
+  return {
+    encoding: "windows-1252",
+    confidence: hasC1 ? 0.85 : 0.7,
+    bom: false,
+    source: "heuristic",
+  };
+}
+
+/**
+ * Read up to `bytes` from the start of a file.
+ */
+export async function readFileSample(
+  filePath: string,
+  bytes: number = SAMPLE_BYTES
+): Promise<Buffer> {
+  const handle = await open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(bytes);
+    const { bytesRead } = await handle.read(buffer, 0, bytes, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Detect a file's encoding, or honor an explicit one. An override still
+ * reports whether the file starts with a BOM.
+ */
+export async function detectFileEncoding(
+  filePath: string,
+  override?: SupportedEncoding
+): Promise<EncodingDetection> {
+  const sample = await readFileSample(filePath);
+
+  if (override) {
+    return {
+      encoding: override,
+      confidence: 1,
+      bom: detectBom(sample) === override,
+      source: "override",
+    };
+  }
+
+  return detectEncoding(sample);
+}
+
+// =============================================================================
+// TRANSCODING
+// =============================================================================
+
+/**
+ * Decode a byte stream to UTF-8 text. A leading BOM is dropped so it never
+ * ends up in the first header name.
+ */
+export function createDecodeStream(encoding: SupportedEncoding): Transform {
+  const decoder = new TextDecoder(encoding);
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      callback(null, decoder.decode(chunk, { stream: true }));
+    },
+    flush(callback) {
+      callback(null, decoder.decode());
+    },
+  });
+}
+
+/**
+ * Decode a complete buffer, e.g. a sniffing sample.
+ */
+export function decodeSample(sample: Buffer, encoding: SupportedEncoding): string {
+  return new TextDecoder(encoding).decode(sample, { stream: true });
+}
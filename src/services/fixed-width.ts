@@ -0,0 +1,173 @@
+import { createReadStream } from "fs";
+import { createInterface } from "readline";
+import type {
+  FixedWidthField,
+  FixedWidthLayout,
+  ParseOptions,
+} from "../types/index.js";
+import type { SampleRecord } from "./dialect-sniffer.js";
+import {
+  createDecodeStream,
+  detectFileEncoding,
+  type EncodingDetection,
+} from "./encoding.js";
+import { findHeaderRecord, normalizeHeaders, withoutFooter } from "./table-layout.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface FixedWidthRecordStream {
+  encoding: EncodingDetection;
+  records: AsyncIterable<Record<string, unknown>>;
+  // Rows dropped from the end of the file; filled in once records are exhausted
+  trailingRows: Record<string, unknown>[];
+}
+
+export interface FixedWidthSuggestion {
+  layout: FixedWidthLayout;
+  sampledLines: number;
+  header: boolean; // Field names were taken from a header line
+}
+
+// Lines used to find column boundaries
+const MAX_SUGGEST_LINES = 200;
+
+// =============================================================================
+// FIELD EXTRACTION
+// =============================================================================
+
+function stripPad(value: string, padChar: string, trim: FixedWidthField["trim"]): string {
+  let start = 0;
+  let end = value.length;
+  if (trim === "left" || trim === "both") {
+    while (start < end && value[start] === padChar) start++;
+  }
+  if (trim === "right" || trim === "both") {
+    while (end > start && value[end - 1] === padChar) end--;
+  }
+  return value.slice(start, end);
+}
+
+/**
+ * Cut one line into a record by the layout. A line too short for a field
+ * yields an empty value for it; text past the last field is ignored.
+ */
+export function extractFields(line: string, layout: FixedWidthLayout): Record<string, string> {
+  const record: Record<string, string> = {};
+  for (const { name, start, length, trim = "both", padChar = " " } of layout.fields) {
+    record[name] = stripPad(line.slice(start, start + length), padChar, trim);
+  }
+  return record;
+}
+
+// =============================================================================
+// RECORD STREAM
+// =============================================================================
+
+/**
+ * Read a fixed-width text file lazily, one record per line. Comment lines,
+ * blank lines and trailing footer rows are skipped as for CSV.
+ */
+export async function streamFixedWidth(
+  filePath: string,
+  layout: FixedWidthLayout,
+  options: ParseOptions = {}
+): Promise<FixedWidthRecordStream> {
+  const { skipEmptyLines = true, commentPrefix } = options;
+  const skipLines = layout.skipLines ?? 0;
+
+  const encoding = await detectFileEncoding(filePath, options.encoding);
+  const file = createReadStream(filePath);
+  const text = file.pipe(createDecodeStream(encoding.encoding));
+  file.on("error", (err) => text.destroy(err));
+
+  async function* records(): AsyncGenerator<Record<string, unknown>> {
+    const lines = createInterface({ input: text, crlfDelay: Infinity });
+    let lineNumber = 0;
+    for await (const line of lines) {
+      lineNumber++;
+      if (lineNumber <= skipLines) continue;
+      if (commentPrefix && line.startsWith(commentPrefix)) continue;
+      if (skipEmptyLines && line.trim().length === 0) continue;
+      yield extractFields(line, layout);
+    }
+  }
+
+  const trailingRows: Record<string, unknown>[] = [];
+  return {
+    encoding,
+    records: withoutFooter(records(), options, trailingRows),
+    trailingRows,
+  };
+}
+
+// =============================================================================
+// LAYOUT SUGGESTION
+// =============================================================================
+
+/**
+ * Guess a layout from whitespace alignment: character positions that are
+ * blank on every sampled line separate fields, and each field runs up to the
+ * next one so padding stays inside it. A leading header line, when detected,
+ * names the fields and is skipped.
+ */
+export function suggestFixedWidthLayout(
+  sample: string,
+  options: Pick<ParseOptions, "commentPrefix"> & { complete?: boolean } = {}
+): FixedWidthSuggestion {
+  const { commentPrefix, complete = true } = options;
+
+  let allLines = sample.split(/\r?\n/);
+  if (!complete) allLines = allLines.slice(0, -1); // Last line may be cut off
+
+  const lines: { line: number; text: string }[] = [];
+  for (let i = 0; i < allLines.length && lines.length < MAX_SUGGEST_LINES; i++) {
+    const text = allLines[i]!;
+    if (text.trim().length === 0) continue;
+    if (commentPrefix && text.startsWith(commentPrefix)) continue;
+    lines.push({ line: i, text });
+  }
+
+  const width = Math.max(0, ...lines.map((l) => l.text.length));
+  const occupied: boolean[] = new Array(width).fill(false);
+  for (const { text } of lines) {
+    for (let i = 0; i < text.length; i++) {
+      if (!/\s/.test(text[i]!)) occupied[i] = true;
+    }
+  }
+
+  // A field starts wherever text follows a column that is blank on every line
+  const starts: number[] = [];
+  occupied.forEach((taken, i) => {
+    if (taken && (i === 0 || !occupied[i - 1])) starts.push(i);
+  });
+  if (starts.length === 0) starts.push(0);
+
+  const bounds = starts.map((start, k) => ({
+    start,
+    length: Math.max((starts[k + 1] ?? width) - start, 1),
+  }));
+
+  const records: SampleRecord[] = lines.map(({ line, text }) => ({
+    line,
+    fields: bounds.map(({ start, length }) => text.slice(start, start + length).trim()),
+    malformed: false,
+  }));
+
+  const detected = findHeaderRecord(records);
+  const headerRecord =
+    detected.source === "detected"
+      ? records.find((r) => r.line === detected.headerRow)
+      : undefined;
+
+  const { columns } = normalizeHeaders(headerRecord?.fields ?? bounds.map(() => ""));
+  return {
+    layout: {
+      fields: bounds.map(({ start, length }, k) => ({ name: columns[k]!, start, length })),
+      ...(headerRecord && { skipLines: headerRecord.line + 1 }),
+    },
+    sampledLines: lines.length,
+    header: headerRecord !== undefined,
+  };
+}
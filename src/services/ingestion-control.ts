@@ -0,0 +1,117 @@
+import { and, eq, ne, type SQL } from "drizzle-orm";
+import { db } from "../db/index.js";
+import { ingestions, type IngestionRow, type NewIngestionRow } from "../db/schema.js";
+import type { IngestionStatus, PipelineStage } from "../types/index.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+// Where a stopped ingestion picks up: a stage, or waiting on a human again
+export type ResumePoint = PipelineStage | "review";
+
+// Statuses no job will move an ingestion out of
+export const FINISHED_STATUSES: IngestionStatus[] = ["complete", "failed", "cancelled"];
+
+// Statuses that can be retried
+export const RETRYABLE_STATUSES: IngestionStatus[] = ["failed", "cancelled"];
+
+const STAGE_ORDER: PipelineStage[] = ["parse", "infer", "map", "validate", "output"];
+
+// The status an ingestion has while waiting for each stage's job, as set
+// by the stage before it
+const QUEUED_STATUS: Record<ResumePoint, IngestionStatus> = {
+  parse: "pending",
+  infer: "inferring",
+  map: "mapping",
+  review: "awaiting_review",
+  validate: "validating",
+  output: "outputting",
+};
+
+// =============================================================================
+// CANCELLATION GUARDS
+// =============================================================================
+
+/**
+ * Matches the ingestion unless it has been cancelled. Workers update through
+ * it, so a job that was already running cannot overwrite a cancel.
+ */
+export function whileNotCancelled(ingestionId: string): SQL {
+  return and(eq(ingestions.id, ingestionId), ne(ingestions.status, "cancelled"))!;
+}
+
+/**
+ * Move an ingestion into a stage's status as its job starts. Returns false
+ * if the ingestion was cancelled, in which case the job should do nothing.
+ */
+export async function enterStage(
+  ingestionId: string,
+  status: IngestionStatus
+): Promise<boolean> {
+  const updated = await db
+    .update(ingestions)
+    .set({ status, updatedAt: new Date() })
+    .where(whileNotCancelled(ingestionId))
+    .returning({ id: ingestions.id });
+  return updated.length > 0;
+}
+
+// =============================================================================
+// RETRIES
+// =============================================================================
+
+type StageResults = Pick<
+  IngestionRow,
+  "rowStore" | "inferredSchema" | "mappingResult" | "validationResult"
+>;
+
+/** The first stage whose result was never persisted. */
+export function resumePoint(ingestion: StageResults): ResumePoint {
+  if (!ingestion.rowStore) return "parse";
+  if (!ingestion.inferredSchema) return "infer";
+  if (!ingestion.mappingResult) return "map";
+  if (ingestion.mappingResult.requiresReview) return "review";
+  if (!ingestion.validationResult) return "validate";
+  return "output";
+}
+
+/** Whether `stage` can be rerun: it must not lie past the resume point. */
+export function canRestartFrom(stage: PipelineStage, from: ResumePoint): boolean {
+  const limit = from === "review" ? "map" : from;
+  return STAGE_ORDER.indexOf(stage) <= STAGE_ORDER.indexOf(limit);
+}
+
+export function queuedStatus(point: ResumePoint): IngestionStatus {
+  return QUEUED_STATUS[point];
+}
+
+/**
+ * Column values that clear what `stage` and every later stage produced, so a
+ * restarted ingestion never shows results from the run it replaces.
+ */
+export function clearResultsFrom(point: ResumePoint): Partial<NewIngestionRow> {
+  const stage = point === "review" ? "output" : point;
+  const from = STAGE_ORDER.indexOf(stage);
+  const cleared: Partial<NewIngestionRow> = { error: null, completedAt: null, outputFileKey: null };
+
+  if (from <= STAGE_ORDER.indexOf("validate")) {
+    Object.assign(cleared, { validationResult: null, validRowCount: null });
+  }
+  if (from <= STAGE_ORDER.indexOf("map")) {
+    Object.assign(cleared, { mappingResult: null });
+  }
+  if (from <= STAGE_ORDER.indexOf("infer")) {
+    Object.assign(cleared, { inferredSchema: null });
+  }
+  if (from <= STAGE_ORDER.indexOf("parse")) {
+    Object.assign(cleared, {
+      rowStore: null,
+      dialect: null,
+      rowCount: null,
+      parseErrorCount: null,
+      quarantineFileKey: null,
+    });
+  }
+  return cleared;
+}
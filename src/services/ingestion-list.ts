@@ -0,0 +1,55 @@
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type IngestionSortField = "createdAt" | "completedAt";
+export type SortOrder = "asc" | "desc";
+
+// Position after the last row of a page. `value` is the sort column as
+// Postgres prints it, so microseconds survive the round trip through a URL
+export interface ListCursor {
+  sort: IngestionSortField;
+  order: SortOrder;
+  value: string;
+  id: string;
+}
+
+// =============================================================================
+// CURSORS
+// =============================================================================
+
+// As printed by timestamptz::text, e.g. "2024-06-01 12:00:00.123456+00"
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(\.\d+)?([+-]\d{2}(:?\d{2})?|Z)$/;
+
+export function encodeListCursor(cursor: ListCursor): string {
+  const { sort, order, value, id } = cursor;
+  return Buffer.from(JSON.stringify([sort, order, value, id])).toString("base64url");
+}
+
+/** Returns null for anything that is not a cursor this service issued. */
+export function decodeListCursor(encoded: string): ListCursor | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+
+  if (!Array.isArray(parsed) || parsed.length !== 4) return null;
+  const [sort, order, value, id] = parsed;
+  if (sort !== "createdAt" && sort !== "completedAt") return null;
+  if (order !== "asc" && order !== "desc") return null;
+  if (typeof value !== "string" || !TIMESTAMP_PATTERN.test(value)) return null;
+  if (typeof id !== "string" || !/^[0-9a-f-]{36}$/i.test(id)) return null;
+
+  return { sort, order, value, id };
+}
+
+// =============================================================================
+// FILTERS
+// =============================================================================
+
+/** Escape LIKE wildcards so a filename filter matches them literally. */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
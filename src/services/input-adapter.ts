@@ -0,0 +1,141 @@
+import type {
+  DialectDetection,
+  HeaderChange,
+  InputFormat,
+} from "../types/index.js";
+import { streamCSV, type ParseOptions } from "./csv-parser.js";
+import {
+  decodeSample,
+  detectEncoding,
+  readFileSample,
+  type EncodingDetection,
+} from "./encoding.js";
+import { streamFixedWidth } from "./fixed-width.js";
+import { detectJsonFormat, streamJson } from "./json-input.js";
+import {
+  detectSpreadsheetFormat,
+  streamSpreadsheet,
+  type SheetSelection,
+} from "./spreadsheet.js";
+import type { HeaderDetection } from "./table-layout.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+//
+// Every input format is adapted to the same record stream, so the row store
+// and the stages after it never see where rows came from.
+
+export interface TableInput {
+  format: InputFormat;
+  records: AsyncIterable<Record<string, unknown>>;
+  // Filled in once the header has been read; empty for formats without one
+  headerChanges: HeaderChange[];
+  // Rows dropped from the end; filled in once records are exhausted
+  trailingRows: Record<string, unknown>[];
+  header: HeaderDetection | null; // Null for JSON and fixed-width input, named by keys or layout
+  dialect: DialectDetection | null; // Delimited text only
+  encoding: EncodingDetection | null; // Text formats only
+  sheet: SheetSelection | null; // Spreadsheets only
+}
+
+// =============================================================================
+// FORMAT DETECTION
+// =============================================================================
+
+/**
+ * Work out the input format from the start of a file: spreadsheet magic
+ * bytes, then a leading JSON array or object, and delimited text otherwise.
+ * Fixed-width text looks like any other text, so it is only chosen when a
+ * layout is given.
+ */
+export async function detectInputFormat(
+  filePath: string,
+  options: Pick<ParseOptions, "format" | "encoding" | "fixedWidth"> = {}
+): Promise<InputFormat> {
+  if (options.format) return options.format;
+  if (options.fixedWidth) return "fixed_width";
+
+  const sample = await readFileSample(filePath);
+  const spreadsheet = detectSpreadsheetFormat(sample);
+  if (spreadsheet) return spreadsheet;
+
+  const encoding = options.encoding ?? detectEncoding(sample).encoding;
+  return detectJsonFormat(decodeSample(sample, encoding)) ?? "csv";
+}
+
+// =============================================================================
+// OPENING
+// =============================================================================
+
+/**
+ * Open a file with the adapter for its format. Malformed records are passed
+ * to `onParseError` where the format can recover from them.
+ */
+export async function openInput(
+  filePath: string,
+  options: ParseOptions = {}
+): Promise<TableInput> {
+  const format = await detectInputFormat(filePath, options);
+
+  switch (format) {
+    case "xlsx":
+    case "xls":
+    case "ods": {
+      const { sheet, header, records, headerChanges, trailingRows } =
+        await streamSpreadsheet(filePath, format, options);
+      return {
+        format,
+        records,
+        headerChanges,
+        trailingRows,
+        header,
+        dialect: null,
+        encoding: null,
+        sheet,
+      };
+    }
+
+    case "json":
+    case "ndjson": {
+      const json = await streamJson(filePath, format, options);
+      return {
+        format,
+        records: json.records,
+        headerChanges: [],
+        trailingRows: [],
+        header: null,
+        dialect: null,
+        encoding: json.encoding,
+        sheet: null,
+      };
+    }
+
+    case "fixed_width": {
+      if (!options.fixedWidth) {
+        throw new Error("Fixed-width input needs a fixedWidth layout");
+      }
+      const { encoding, records, trailingRows } = await streamFixedWidth(
+        filePath,
+        options.fixedWidth,
+        options
+      );
+      return {
+        format,
+        records,
+        headerChanges: [],
+        trailingRows,
+        header: null,
+        dialect: null,
+        encoding,
+        sheet: null,
+      };
+    }
+
+    case "csv": {
+      const { dialect, header, encoding, records, headerChanges, trailingRows } =
+        await streamCSV(filePath, options);
+      return { format, records, headerChanges, trailingRows, header, dialect, encoding, sheet: null };
+    }
+  }
+}
@@ -0,0 +1,212 @@
+import { createReadStream } from "fs";
+import { createInterface } from "readline";
+import type { Readable } from "stream";
+import type { ParseOptions } from "../types/index.js";
+import type { ParseError } from "./csv-parser.js";
+import {
+  createDecodeStream,
+  detectFileEncoding,
+  type EncodingDetection,
+} from "./encoding.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export const JSON_FORMATS = ["json", "ndjson"] as const;
+
+export type JsonFormat = (typeof JSON_FORMATS)[number];
+
+export interface JsonInputOptions extends Pick<ParseOptions, "encoding" | "flattenDepth"> {
+  // Elements that are not valid JSON objects are reported here and skipped;
+  // without it they fail the read
+  onParseError?: (error: ParseError) => void;
+}
+
+export interface JsonRecordStream {
+  format: JsonFormat;
+  encoding: EncodingDetection;
+  records: AsyncIterable<Record<string, unknown>>;
+}
+
+// =============================================================================
+// FORMAT DETECTION
+// =============================================================================
+
+/**
+ * Recognise JSON input from the start of a decoded sample: a top-level array
+ * is a JSON document, a leading object is taken as NDJSON.
+ */
+export function detectJsonFormat(sample: string): JsonFormat | null {
+  const first = sample.replace(/^\uFEFF/, "").trimStart()[0];
+  if (first === "[") return "json";
+  if (first === "{") return "ndjson";
+  return null;
+}
+
+// =============================================================================
+// FLATTENING
+// =============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Flatten nested objects into dotted column names, e.g. {"address": {"city":
+ * "Oslo"}} becomes {"address.city": "Oslo"}. Objects nested deeper than
+ * `maxDepth` levels, and all arrays, stay whole as JSON values. A depth of 0
+ * keeps every nested object as a single column.
+ */
+export function flattenRecord(
+  record: Record<string, unknown>,
+  maxDepth: number = Infinity
+): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+
+  const visit = (value: Record<string, unknown>, prefix: string, depth: number) => {
+    for (const [key, child] of Object.entries(value)) {
+      const name = prefix ? `${prefix}.${key}` : key;
+      if (isPlainObject(child) && depth < maxDepth && Object.keys(child).length > 0) {
+        visit(child, name, depth + 1);
+      } else {
+        flat[name] = child;
+      }
+    }
+  };
+
+  visit(record, "", 0);
+  return flat;
+}
+
+// =============================================================================
+// ELEMENT SPLITTING
+// =============================================================================
+
+interface JsonElement {
+  line: number; // 1-indexed line the element starts on
+  text: string;
+}
+
+/**
+ * Split a top-level JSON array into the text of its elements without holding
+ * the whole document, tracking nesting and strings. Elements are parsed one
+ * at a time by the caller, so one bad element does not lose the rest.
+ */
+async function* splitJsonArray(chunks: AsyncIterable<string>): AsyncGenerator<JsonElement> {
+  let started = false;
+  let ended = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let text = "";
+  let line = 1;
+  let startLine = 1;
+
+  for await (const chunk of chunks) {
+    for (const ch of chunk) {
+      if (ch === "\n") line++;
+
+      if (!started || ended) {
+        if (/\s/.test(ch) || ch === "\uFEFF") continue;
+        if (!started && ch === "[") {
+          started = true;
+          continue;
+        }
+        throw new Error(
+          started
+            ? `Unexpected content after the JSON array on line ${line}`
+            : "JSON input must be an array of objects"
+        );
+      }
+
+      if (inString) {
+        text += ch;
+        if (escaped) escaped = false;
+        else if (ch === "\\") escaped = true;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+
+      if (depth === 0 && (ch === "," || ch === "]")) {
+        // A trailing comma leaves nothing before the closing bracket
+        if (ch === "," || text.trim().length > 0) {
+          yield { line: startLine, text: text.trim() };
+        }
+        text = "";
+        ended = ch === "]";
+        continue;
+      }
+
+      if (text.trim().length === 0) {
+        if (/\s/.test(ch)) continue;
+        startLine = line;
+      }
+      text += ch;
+      if (ch === '"') inString = true;
+      else if (ch === "{" || ch === "[") depth++;
+      else if (ch === "}" || ch === "]") depth--;
+    }
+  }
+
+  if (!ended) {
+    throw new Error("Unexpected end of JSON input: the top-level array is not closed");
+  }
+}
+
+// NDJSON: one element per non-blank line
+async function* splitJsonLines(input: Readable): AsyncGenerator<JsonElement> {
+  const lines = createInterface({ input, crlfDelay: Infinity });
+  let line = 0;
+  for await (const text of lines) {
+    line++;
+    if (text.trim().length > 0) yield { line, text };
+  }
+}
+
+// =============================================================================
+// RECORD STREAM
+// =============================================================================
+
+/**
+ * Read a JSON array or NDJSON file as flattened records, lazily.
+ */
+export async function streamJson(
+  filePath: string,
+  format: JsonFormat,
+  options: JsonInputOptions = {}
+): Promise<JsonRecordStream> {
+  const encoding = await detectFileEncoding(filePath, options.encoding);
+  const file = createReadStream(filePath);
+  const text = file.pipe(createDecodeStream(encoding.encoding)).setEncoding("utf8");
+  file.on("error", (err) => text.destroy(err));
+  const elements = format === "json" ? splitJsonArray(text) : splitJsonLines(text);
+
+  const reject = (element: JsonElement, code: string, message: string) => {
+    const error: ParseError = { line: element.line, code, message, rawLine: element.text };
+    if (!options.onParseError) {
+      throw new Error(`${message} on line ${element.line}`);
+    }
+    options.onParseError(error);
+  };
+
+  async function* records(): AsyncGenerator<Record<string, unknown>> {
+    for await (const element of elements) {
+      let value: unknown;
+      try {
+        value = JSON.parse(element.text);
+      } catch (err) {
+        reject(element, "JSON_INVALID", err instanceof Error ? err.message : "Invalid JSON");
+        continue;
+      }
+
+      if (!isPlainObject(value)) {
+        reject(element, "JSON_NOT_AN_OBJECT", "Expected a JSON object");
+        continue;
+      }
+      yield flattenRecord(value, options.flattenDepth);
+    }
+  }
+
+  return { format, encoding, records: records() };
+}
@@ -0,0 +1,190 @@
+import { createHash } from "crypto";
+import { and, eq, sql } from "drizzle-orm";
+import { db } from "../db/index.js";
+import { mappingTemplates, type MappingTemplateRow } from "../db/schema.js";
+import type {
+  CanonicalSchema,
+  ColumnMapping,
+  InferredSchema,
+  MappingResult,
+} from "../types/index.js";
+import { mapColumns } from "./column-mapping.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface TemplateMapping {
+  sourceColumn: string;
+  targetColumn: string | null;
+}
+
+// =============================================================================
+// FINGERPRINTING
+// =============================================================================
+
+/**
+ * Fingerprint a set of source headers. Order-independent so that the same
+ * vendor export with shuffled columns still hits the same template.
+ */
+export function fingerprintColumns(columns: string[]): string {
+  const normalized = [...new Set(columns.map((c) => c.trim()))].sort();
+  return createHash("sha256").update(normalized.join("\u001f")).digest("hex");
+}
+
+// =============================================================================
+// TEMPLATE APPLICATION
+// =============================================================================
+
+export interface ApplyTemplateInput {
+  inferredSchema: InferredSchema;
+  canonicalSchema: CanonicalSchema;
+  templateMappings: TemplateMapping[];
+  confidenceThreshold?: number;
+}
+
+export interface ApplyTemplateResult {
+  mappingResult: MappingResult;
+  appliedCount: number;
+  // Source columns settled by the template, including ones it ignores
+  appliedSources: Set<string>;
+  fullyCovered: boolean;
+}
+
+/**
+ * Apply remembered decisions first, then run heuristic mapping only for the
+ * source columns (and targets) the template did not account for.
+ */
+export function applyMappingTemplate(
+  input: ApplyTemplateInput
+): ApplyTemplateResult {
+  const { inferredSchema, canonicalSchema, templateMappings, confidenceThreshold } =
+    input;
+
+  const targetNames = new Set(canonicalSchema.columns.map((c) => c.name));
+  const templateBySource = new Map<string, string | null>();
+  for (const m of templateMappings) {
+    // Ignore decisions pointing at columns the schema no longer has
+    if (m.targetColumn === null || targetNames.has(m.targetColumn)) {
+      templateBySource.set(m.sourceColumn, m.targetColumn);
+    }
+  }
+
+  const applied = new Map<string, ColumnMapping>();
+  const usedTargets = new Set<string>();
+  for (const col of inferredSchema.columns) {
+    if (!templateBySource.has(col.name)) continue;
+    const targetColumn = templateBySource.get(col.name)!;
+    if (targetColumn !== null && usedTargets.has(targetColumn)) continue;
+    if (targetColumn !== null) usedTargets.add(targetColumn);
+
+    applied.set(col.name, {
+      sourceColumn: col.name,
+      targetColumn,
+      method: targetColumn ? "template" : "unmapped",
+      confidence: targetColumn ? 1.0 : 0,
+    });
+  }
+
+  const uncovered = inferredSchema.columns.filter((c) => !applied.has(c.name));
+
+  let remainder: MappingResult = {
+    mappings: [],
+    requiresReview: false,
+    ambiguousMappings: [],
+  };
+  if (uncovered.length > 0) {
+    remainder = mapColumns({
+      inferredSchema: { ...inferredSchema, columns: uncovered },
+      canonicalSchema: {
+        ...canonicalSchema,
+        columns: canonicalSchema.columns.filter((c) => !usedTargets.has(c.name)),
+      },
+      ...(confidenceThreshold !== undefined && { confidenceThreshold }),
+    });
+  }
+
+  const remainderBySource = new Map(
+    remainder.mappings.map((m) => [m.sourceColumn, m])
+  );
+
+  // Preserve the file's column order in the final result
+  const mappings = inferredSchema.columns.map(
+    (col) => applied.get(col.name) ?? remainderBySource.get(col.name)!
+  );
+
+  return {
+    mappingResult: {
+      mappings,
+      requiresReview: remainder.requiresReview,
+      ambiguousMappings: remainder.ambiguousMappings,
+    },
+    appliedCount: applied.size,
+    appliedSources: new Set(applied.keys()),
+    fullyCovered: uncovered.length === 0,
+  };
+}
+
+// =============================================================================
+// PERSISTENCE
+// =============================================================================
+
+export async function findMappingTemplate(
+  schemaId: string,
+  sourceFingerprint: string
+): Promise<MappingTemplateRow | null> {
+  const [template] = await db
+    .select()
+    .from(mappingTemplates)
+    .where(
+      and(
+        eq(mappingTemplates.schemaId, schemaId),
+        eq(mappingTemplates.sourceFingerprint, sourceFingerprint)
+      )
+    )
+    .limit(1);
+
+  return template ?? null;
+}
+
+/**
+ * Insert or replace the template for a header set and count the usage.
+ */
+export async function upsertMappingTemplate(
+  schemaId: string,
+  mappings: TemplateMapping[]
+): Promise<MappingTemplateRow> {
+  const sourceFingerprint = fingerprintColumns(
+    mappings.map((m) => m.sourceColumn)
+  );
+
+  const [template] = await db
+    .insert(mappingTemplates)
+    .values({
+      schemaId,
+      sourceFingerprint,
+      mappings,
+      usageCount: 1,
+    })
+    .onConflictDoUpdate({
+      target: [mappingTemplates.schemaId, mappingTemplates.sourceFingerprint],
+      set: {
+        mappings,
+        usageCount: sql`coalesce(${mappingTemplates.usageCount}, 0) + 1`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+
+  return template!;
+}
+
+export async function incrementTemplateUsage(templateId: string): Promise<void> {
+  await db
+    .update(mappingTemplates)
+    .set({
+      usageCount: sql`coalesce(${mappingTemplates.usageCount}, 0) + 1`,
+      updatedAt: new Date(),
+    })
+    .where(eq(mappingTemplates.id, templateId));
+}
@@ -0,0 +1,115 @@
+import { config } from "../config.js";
+import type { RowStoreChunk, RowStoreManifest } from "../types/index.js";
+import { NdjsonSpillFile, readNdjsonFile } from "./spill-file.js";
+import { generateRowStoreChunkKey } from "./storage.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+//
+// The parse stage streams the raw file once into NDJSON chunks, one line per
+// row: {"row":<1-indexed row number>,"data":{<header>:<cell>}}. Later stages
+// stream the chunks back instead of re-parsing the original upload.
+
+export interface StoredRow {
+  row: number;
+  data: Record<string, unknown>;
+}
+
+// =============================================================================
+// WRITING
+// =============================================================================
+
+/**
+ * Persist parsed records as NDJSON chunks. Each chunk is staged in a local
+ * temp file and uploaded once full, so memory stays bounded by one row.
+ * Columns are every key seen, in first-seen order, since records from
+ * JSON input need not share one shape.
+ */
+export async function writeRowStore(
+  ingestionId: string,
+  records: AsyncIterable<Record<string, unknown>>,
+  chunkRows: number = config.rowStoreChunkRows
+): Promise<RowStoreManifest> {
+  const chunks: RowStoreChunk[] = [];
+  const columns = new Set<string>();
+  let totalRowCount = 0;
+
+  let chunk: NdjsonSpillFile | null = null;
+  let chunkFirstRow = 1;
+
+  const flushChunk = async () => {
+    if (!chunk) return;
+    const key = await chunk.commit();
+    chunks.push({ key: key!, firstRow: chunkFirstRow, rowCount: chunk.recordCount });
+    chunk = null;
+  };
+
+  try {
+    for await (const data of records) {
+      totalRowCount++;
+
+      for (const key of Object.keys(data)) {
+        columns.add(key);
+      }
+
+      if (!chunk) {
+        chunk = new NdjsonSpillFile(generateRowStoreChunkKey(ingestionId, chunks.length));
+        chunkFirstRow = totalRowCount;
+      }
+
+      const line: StoredRow = { row: totalRowCount, data };
+      await chunk.write(line);
+
+      if (chunk.recordCount >= chunkRows) {
+        await flushChunk();
+      }
+    }
+
+    await flushChunk();
+  } catch (error) {
+    await (chunk as NdjsonSpillFile | null)?.discard();
+    throw error;
+  }
+
+  return { format: "ndjson", columns: [...columns], totalRowCount, chunks };
+}
+
+// =============================================================================
+// READING
+// =============================================================================
+
+/**
+ * Stream the rows of a single chunk.
+ */
+export function readRowStoreChunk(chunk: RowStoreChunk): AsyncGenerator<StoredRow> {
+  return readNdjsonFile<StoredRow>(chunk.key);
+}
+
+/**
+ * Stream every stored row in order. Only one chunk is open at a time.
+ */
+export async function* readRowStore(
+  manifest: RowStoreManifest
+): AsyncGenerator<StoredRow> {
+  for (const chunk of manifest.chunks) {
+    yield* readRowStoreChunk(chunk);
+  }
+}
+
+/**
+ * Read the first `limit` rows, e.g. for type inference.
+ */
+export async function readRowStoreSample(
+  manifest: RowStoreManifest,
+  limit: number
+): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+  if (limit <= 0) return rows;
+
+  for await (const stored of readRowStore(manifest)) {
+    rows.push(stored.data);
+    if (rows.length >= limit) break;
+  }
+  return rows;
+}
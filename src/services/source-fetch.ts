@@ -0,0 +1,281 @@
+import { lookup as dnsLookup, type LookupAddress } from "dns";
+import { createReadStream } from "fs";
+import { stat } from "fs/promises";
+import http, { type IncomingMessage } from "http";
+import https from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { basename } from "path";
+import { Readable } from "stream";
+import { config } from "../config.js";
+import { fileExists, getFilePath } from "./storage.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SourceFetchOptions {
+  allowlist: string[]; // Hostnames, or "*.example.com" for any subdomain
+  allowPrivateNetworks: boolean; // Loopback and private ranges; never link-local
+  timeoutMs: number; // For the whole transfer, body included
+  maxBytes: number;
+  maxRedirects: number;
+}
+
+export interface SourceStream {
+  stream: Readable;
+  filename: string; // Last path segment of the final URL
+  contentLength: number | null;
+}
+
+export type SourceFetchFailure =
+  | "not_allowed"
+  | "not_found"
+  | "unreachable"
+  | "bad_status"
+  | "too_large"
+  | "timeout";
+
+export class SourceFetchError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: SourceFetchFailure
+  ) {
+    super(message);
+    this.name = "SourceFetchError";
+  }
+}
+
+export function defaultSourceFetchOptions(): SourceFetchOptions {
+  return {
+    allowlist: config.sourceUrlAllowlist,
+    allowPrivateNetworks: config.sourceAllowPrivateNetworks,
+    timeoutMs: config.sourceFetchTimeoutMs,
+    maxBytes: config.maxFileSizeMb * 1024 * 1024,
+    maxRedirects: 5,
+  };
+}
+
+// =============================================================================
+// ADDRESS CHECKS
+// =============================================================================
+
+// Always refused: unspecified, link-local (cloud metadata), multicast, reserved
+const blockedAddresses = new BlockList();
+blockedAddresses.addSubnet("0.0.0.0", 8, "ipv4");
+blockedAddresses.addSubnet("169.254.0.0", 16, "ipv4");
+blockedAddresses.addSubnet("224.0.0.0", 4, "ipv4");
+blockedAddresses.addSubnet("240.0.0.0", 4, "ipv4");
+blockedAddresses.addAddress("::", "ipv6");
+blockedAddresses.addSubnet("fe80::", 10, "ipv6");
+blockedAddresses.addSubnet("ff00::", 8, "ipv6");
+
+// Refused unless private networks are allowed
+const privateAddresses = new BlockList();
+privateAddresses.addSubnet("10.0.0.0", 8, "ipv4");
+privateAddresses.addSubnet("100.64.0.0", 10, "ipv4");
+privateAddresses.addSubnet("127.0.0.0", 8, "ipv4");
+privateAddresses.addSubnet("172.16.0.0", 12, "ipv4");
+privateAddresses.addSubnet("192.168.0.0", 16, "ipv4");
+privateAddresses.addAddress("::1", "ipv6");
+privateAddresses.addSubnet("fc00::", 7, "ipv6");
+
+/**
+ * Whether a resolved address may be connected to. IPv4-mapped IPv6
+ * addresses are checked as the IPv4 address they carry.
+ */
+export function isAddressAllowed(address: string, allowPrivateNetworks: boolean): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  const ip = mapped ? mapped[1]! : address;
+  const family = isIP(ip) === 4 ? "ipv4" : "ipv6";
+
+  if (blockedAddresses.check(ip, family)) return false;
+  return allowPrivateNetworks || !privateAddresses.check(ip, family);
+}
+
+export function isHostAllowed(hostname: string, allowlist: string[]): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  return allowlist.some((entry) => {
+    const pattern = entry.toLowerCase();
+    return pattern.startsWith("*.") ? host.endsWith(pattern.slice(1)) : host === pattern;
+  });
+}
+
+// Resolve as usual, but refuse to connect to a disallowed address. Checking
+// here rather than before the request means DNS cannot change in between.
+function guardedLookup(allowPrivateNetworks: boolean): LookupFunction {
+  return (hostname, options, callback) => {
+    dnsLookup(hostname, { ...options, all: true }, (err, addresses: LookupAddress[]) => {
+      if (err) return callback(err, "", 0);
+
+      const allowed = addresses.filter((a) => isAddressAllowed(a.address, allowPrivateNetworks));
+      if (allowed.length === 0) {
+        return callback(
+          new SourceFetchError(`${hostname} resolves to a disallowed address`, "not_allowed"),
+          "",
+          0
+        );
+      }
+      if (options.all) return callback(null, allowed);
+      callback(null, allowed[0]!.address, allowed[0]!.family);
+    });
+  };
+}
+
+// =============================================================================
+// FETCHING
+// =============================================================================
+
+function checkUrl(url: URL, options: SourceFetchOptions): void {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new SourceFetchError(`Unsupported protocol: ${url.protocol}`, "not_allowed");
+  }
+  if (url.username || url.password) {
+    throw new SourceFetchError("Credentials in source URLs are not accepted", "not_allowed");
+  }
+  if (!isHostAllowed(url.hostname, options.allowlist)) {
+    throw new SourceFetchError(`Host is not on the source allowlist: ${url.hostname}`, "not_allowed");
+  }
+  // Literal IPs skip DNS, so check them directly
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host) && !isAddressAllowed(host, options.allowPrivateNetworks)) {
+    throw new SourceFetchError(`Address is not allowed: ${host}`, "not_allowed");
+  }
+}
+
+function request(url: URL, options: SourceFetchOptions, signal: AbortSignal): Promise<IncomingMessage> {
+  const client = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = client.get(url, {
+      lookup: guardedLookup(options.allowPrivateNetworks),
+      signal,
+      headers: { "user-agent": "csv-intelligence-layer" },
+    });
+    req.on("response", resolve);
+    req.on("error", reject);
+  });
+}
+
+function toFetchError(error: unknown, signal: AbortSignal): SourceFetchError {
+  if (error instanceof SourceFetchError) return error;
+  if (signal.aborted) return new SourceFetchError("Timed out fetching the source", "timeout");
+  const message = error instanceof Error ? error.message : String(error);
+  return new SourceFetchError(`Could not fetch the source: ${message}`, "unreachable");
+}
+
+/**
+ * Open an http(s) source as a byte stream. Every hop, redirects included, must
+ * be on the allowlist and resolve to an allowed address. The stream fails
+ * once it passes `maxBytes` or the transfer outlives `timeoutMs`.
+ */
+export async function openSourceUrl(
+  source: string,
+  options: SourceFetchOptions = defaultSourceFetchOptions()
+): Promise<SourceStream> {
+  const signal = AbortSignal.timeout(options.timeoutMs);
+  let url = new URL(source);
+
+  for (let hop = 0; ; hop++) {
+    checkUrl(url, options);
+
+    let response: IncomingMessage;
+    try {
+      response = await request(url, options, signal);
+    } catch (error) {
+      throw toFetchError(error, signal);
+    }
+
+    const status = response.statusCode ?? 0;
+    if (status >= 300 && status < 400 && response.headers.location) {
+      response.resume();
+      if (hop >= options.maxRedirects) {
+        throw new SourceFetchError("Too many redirects", "unreachable");
+      }
+      url = new URL(response.headers.location, url);
+      continue;
+    }
+
+    if (status !== 200) {
+      response.resume();
+      throw new SourceFetchError(`Source responded with HTTP ${status}`, "bad_status");
+    }
+
+    const declared = Number(response.headers["content-length"]);
+    const contentLength = Number.isFinite(declared) ? declared : null;
+    if (contentLength !== null && contentLength > options.maxBytes) {
+      response.destroy();
+      throw new SourceFetchError(sizeMessage(options.maxBytes), "too_large");
+    }
+
+    // Errors surface when the body is read; until then nothing listens
+    response.on("error", () => undefined);
+
+    // The declared length can be absent or wrong, so count as bytes arrive
+    async function* limited(): AsyncGenerator<Buffer> {
+      let received = 0;
+      try {
+        for await (const chunk of response) {
+          received += chunk.length;
+          if (received > options.maxBytes) {
+            throw new SourceFetchError(sizeMessage(options.maxBytes), "too_large");
+          }
+          yield chunk;
+        }
+      } catch (error) {
+        response.destroy();
+        throw toFetchError(error, signal);
+      }
+    }
+
+    return {
+      stream: Readable.from(limited()),
+      filename: filenameFromUrl(url),
+      contentLength,
+    };
+  }
+}
+
+function filenameFromUrl(url: URL): string {
+  const segment = basename(url.pathname);
+  try {
+    return decodeURIComponent(segment) || "download";
+  } catch {
+    return segment;
+  }
+}
+
+function sizeMessage(maxBytes: number): string {
+  return `Source exceeds the ${Math.round(maxBytes / (1024 * 1024))}MB upload limit`;
+}
+
+// =============================================================================
+// STORAGE SOURCES
+// =============================================================================
+
+// Keys are relative paths inside the storage root; nothing may climb out of it
+function isSafeStorageKey(key: string): boolean {
+  return !key.startsWith("/") && !key.includes("\\") && !key.split("/").includes("..");
+}
+
+/**
+ * Open a file that already exists in storage as a byte stream. The caller
+ * clears the local cache for `key` once the stream has been read.
+ */
+export async function openStorageSource(
+  key: string,
+  maxBytes: number = config.maxFileSizeMb * 1024 * 1024
+): Promise<SourceStream> {
+  if (!isSafeStorageKey(key)) {
+    throw new SourceFetchError(`Invalid storage key: ${key}`, "not_allowed");
+  }
+  if (!(await fileExists(key))) {
+    throw new SourceFetchError(`No file in storage at ${key}`, "not_found");
+  }
+
+  const path = await getFilePath(key);
+  const { size } = await stat(path);
+  if (size > maxBytes) {
+    throw new SourceFetchError(sizeMessage(maxBytes), "too_large");
+  }
+
+  return { stream: createReadStream(path), filename: basename(key), contentLength: size };
+}
@@ -0,0 +1,90 @@
+import { randomUUID } from "crypto";
+import { once } from "events";
+import { createReadStream, createWriteStream, type WriteStream } from "fs";
+import { unlink } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createInterface } from "readline";
+import { clearLocalCache, getFilePath, saveFile } from "./storage.js";
+
+// =============================================================================
+// NDJSON SPILL FILE
+// =============================================================================
+
+/**
+ * Appends records as NDJSON lines to a local temp file and uploads it to
+ * storage on commit. Lets stages hand off unbounded record sets (parsed rows,
+ * validation errors) without holding them in memory.
+ */
+export class NdjsonSpillFile {
+  private out: WriteStream | null = null;
+  private tempPath: string;
+  private count = 0;
+
+  constructor(private readonly key: string) {
+    this.tempPath = join(tmpdir(), `spill-${randomUUID()}.ndjson`);
+  }
+
+  get recordCount(): number {
+    return this.count;
+  }
+
+  async write(record: unknown): Promise<void> {
+    if (!this.out) {
+      this.out = createWriteStream(this.tempPath);
+    }
+    this.count++;
+    if (!this.out.write(JSON.stringify(record) + "\n")) {
+      await once(this.out, "drain");
+    }
+  }
+
+  /**
+   * Upload what was written. Nothing is stored when no record was written,
+   * in which case null is returned.
+   */
+  async commit(): Promise<string | null> {
+    if (!this.out) return null;
+
+    const out = this.out;
+    this.out = null;
+    out.end();
+    await once(out, "finish");
+
+    try {
+      await saveFile(this.key, createReadStream(this.tempPath));
+    } finally {
+      await unlink(this.tempPath).catch(() => undefined);
+    }
+    return this.key;
+  }
+
+  async discard(): Promise<void> {
+    if (!this.out) return;
+    this.out.destroy();
+    this.out = null;
+    await unlink(this.tempPath).catch(() => undefined);
+  }
+}
+
+/**
+ * Stream the records of an NDJSON file in storage, releasing its local copy
+ * once read.
+ */
+export async function* readNdjsonFile<T>(key: string): AsyncGenerator<T> {
+  const path = await getFilePath(key);
+  const input = createReadStream(path);
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  try {
+    for await (const line of lines) {
+      if (line.length === 0) continue;
+      yield JSON.parse(line) as T;
+    }
+  } finally {
+    lines.close();
+    input.destroy();
+  }
+
+  await clearLocalCache(key);
+}
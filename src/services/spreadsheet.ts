@@ -0,0 +1,240 @@
+import { readFile } from "fs/promises";
+import XLSX from "xlsx";
+import type { HeaderChange, ParseOptions } from "../types/index.js";
+import type { SampleRecord } from "./dialect-sniffer.js";
+import {
+  findHeaderRecord,
+  normalizeHeaders,
+  withoutFooter,
+  type HeaderDetection,
+} from "./table-layout.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export const SPREADSHEET_FORMATS = ["xlsx", "xls", "ods"] as const;
+
+export type SpreadsheetFormat = (typeof SPREADSHEET_FORMATS)[number];
+
+export interface SheetSelection {
+  name: string;
+  sheetNames: string[];
+  range: string | null; // A1-style range ingested, header row included; null when empty
+  source: "override" | "default";
+}
+
+export interface SpreadsheetRecordStream {
+  format: SpreadsheetFormat;
+  sheet: SheetSelection;
+  header: HeaderDetection;
+  records: AsyncIterable<Record<string, unknown>>;
+  headerChanges: HeaderChange[];
+  // Rows dropped from the end of the sheet; filled in once records are exhausted
+  trailingRows: Record<string, unknown>[];
+}
+
+export class SheetNotFoundError extends Error {
+  constructor(sheet: string, sheetNames: string[]) {
+    super(`Sheet "${sheet}" not found. Available sheets: ${sheetNames.join(", ")}`);
+    this.name = "SheetNotFoundError";
+  }
+}
+
+// Rows handed to header detection, as for a CSV sniffing sample
+const HEADER_SAMPLE_ROWS = 100;
+
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+const OLE2_MAGIC = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+// =============================================================================
+// FORMAT DETECTION
+// =============================================================================
+
+/**
+ * Recognise a spreadsheet from its first bytes. XLSX and ODS are both ZIP
+ * packages: ODS stores its mimetype first, XLSX lists [Content_Types].xml.
+ * Legacy XLS is an OLE2 compound file. Anything else is read as text.
+ */
+export function detectSpreadsheetFormat(sample: Buffer): SpreadsheetFormat | null {
+  if (sample.subarray(0, OLE2_MAGIC.length).equals(OLE2_MAGIC)) return "xls";
+  if (!sample.subarray(0, ZIP_MAGIC.length).equals(ZIP_MAGIC)) return null;
+
+  if (sample.includes("mimetypeapplication/vnd.oasis.opendocument.spreadsheet")) {
+    return "ods";
+  }
+  if (sample.includes("[Content_Types].xml") || sample.includes("xl/workbook.xml")) {
+    return "xlsx";
+  }
+  return null;
+}
+
+// =============================================================================
+// CELL VALUES
+// =============================================================================
+
+const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+
+// Excel serial date to ISO text; date-only cells drop the midnight time
+function serialToIso(serial: number): string {
+  const { y, m, d, H, M, S } = XLSX.SSF.parse_date_code(serial);
+  const date = `${pad(y, 4)}-${pad(m)}-${pad(d)}`;
+  return H === 0 && M === 0 && S === 0 ? date : `${date}T${pad(H)}:${pad(M)}:${pad(S)}`;
+}
+
+/**
+ * Convert a cell to a record value. Numbers and booleans keep their native
+ * type and date-formatted cells become ISO dates, so inference sees what the
+ * spreadsheet stored rather than how it was displayed.
+ */
+function cellValue(cell: XLSX.CellObject | undefined, trim: ParseOptions["trim"]): unknown {
+  if (!cell || cell.t === "z" || cell.v === undefined) return null;
+
+  switch (cell.t) {
+    case "n": {
+      const value = cell.v as number;
+      return cell.z !== undefined && XLSX.SSF.is_date(cell.z) ? serialToIso(value) : value;
+    }
+    case "d":
+      return (cell.v as Date).toISOString();
+    case "b":
+      return cell.v;
+    case "e":
+      return cell.w ?? null; // Keep "#DIV/0!" and friends visible to validation
+    default: {
+      const text = String(cell.v);
+      if (trim === "both") return text.trim();
+      if (trim === "left") return text.trimStart();
+      if (trim === "right") return text.trimEnd();
+      return text;
+    }
+  }
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === "";
+}
+
+// =============================================================================
+// SHEET SELECTION
+// =============================================================================
+
+function hasValues(sheet: XLSX.WorkSheet): boolean {
+  return Object.keys(sheet).some((address) => {
+    if (address.startsWith("!")) return false;
+    return !isBlank(cellValue(sheet[address] as XLSX.CellObject, "both"));
+  });
+}
+
+/**
+ * Use the requested sheet, or the first one holding any value.
+ */
+function selectSheet(
+  workbook: XLSX.WorkBook,
+  requested: string | undefined
+): Omit<SheetSelection, "range"> & { sheet: XLSX.WorkSheet } {
+  const sheetNames = workbook.SheetNames;
+
+  if (requested !== undefined) {
+    const sheet = workbook.Sheets[requested];
+    if (!sheet) throw new SheetNotFoundError(requested, sheetNames);
+    return { name: requested, sheetNames, sheet, source: "override" };
+  }
+
+  const name = sheetNames.find((n) => hasValues(workbook.Sheets[n]!)) ?? sheetNames[0];
+  if (name === undefined) throw new Error("Workbook has no sheets");
+  return { name, sheetNames, sheet: workbook.Sheets[name]!, source: "default" };
+}
+
+// =============================================================================
+// RECORD STREAM
+// =============================================================================
+
+/**
+ * Read one sheet of a workbook into the same record shape as streamCSV.
+ * The workbook is loaded whole, but rows are only materialised as records
+ * are pulled. Header rows are numbered from the top of the sheet (row 1 is
+ * 0) and detected like CSV headers when not given.
+ */
+export async function streamSpreadsheet(
+  filePath: string,
+  format: SpreadsheetFormat,
+  options: ParseOptions = {}
+): Promise<SpreadsheetRecordStream> {
+  const { trim = "none", skipEmptyLines = true } = options;
+
+  const workbook = XLSX.read(await readFile(filePath), {
+    type: "buffer",
+    cellNF: true, // Number formats tell date cells from plain numbers
+    cellDates: false,
+  });
+  const { sheet, ...selection } = selectSheet(workbook, options.sheet);
+
+  const usedRange = sheet["!ref"];
+  const bounds = usedRange ? XLSX.utils.decode_range(usedRange) : null;
+  const rowValues = (r: number): unknown[] => {
+    if (!bounds) return [];
+    const values: unknown[] = [];
+    for (let c = bounds.s.c; c <= bounds.e.c; c++) {
+      values.push(cellValue(sheet[XLSX.utils.encode_cell({ r, c })], trim));
+    }
+    return values;
+  };
+
+  let header: HeaderDetection;
+  if (options.headerRow !== undefined) {
+    header = { headerRow: options.headerRow, confidence: 1, source: "override" };
+  } else {
+    const sample: SampleRecord[] = [];
+    const lastSampleRow = bounds ? Math.min(bounds.e.r, bounds.s.r + HEADER_SAMPLE_ROWS - 1) : -1;
+    for (let r = bounds?.s.r ?? 0; r <= lastSampleRow; r++) {
+      const fields = rowValues(r).map((v) => (isBlank(v) ? "" : String(v)));
+      if (fields.some((f) => f.trim().length > 0)) {
+        sample.push({ line: r, fields, malformed: false });
+      }
+    }
+    header = findHeaderRecord(sample);
+    if (header.source === "default" && bounds) {
+      header = { ...header, headerRow: bounds.s.r };
+    }
+  }
+
+  // Blank trailing header cells are formatting residue, not columns
+  const headerCells = rowValues(header.headerRow).map((v) => (isBlank(v) ? "" : String(v)));
+  while (headerCells.length > 0 && headerCells[headerCells.length - 1]!.trim() === "") {
+    headerCells.pop();
+  }
+  const { columns, changes: headerChanges } = normalizeHeaders(headerCells);
+
+  const range =
+    bounds && columns.length > 0
+      ? XLSX.utils.encode_range({
+          s: { r: header.headerRow, c: bounds.s.c },
+          e: { r: bounds.e.r, c: bounds.s.c + columns.length - 1 },
+        })
+      : null;
+
+  async function* rows(): AsyncGenerator<Record<string, unknown>> {
+    if (!bounds) return;
+    for (let r = header.headerRow + 1; r <= bounds.e.r; r++) {
+      const values = rowValues(r);
+      if (skipEmptyLines && values.every(isBlank)) continue;
+
+      const record: Record<string, unknown> = {};
+      columns.forEach((column, i) => {
+        record[column] = values[i] ?? null;
+      });
+      yield record;
+    }
+  }
+
+  const trailingRows: Record<string, unknown>[] = [];
+  return {
+    format,
+    sheet: { ...selection, range },
+    header,
+    records: withoutFooter(rows(), options, trailingRows),
+    headerChanges,
+    trailingRows,
+  };
+}
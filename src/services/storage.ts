@@ -1,12 +1,24 @@
 import {
+  CopyObjectCommand,
   DeleteObjectCommand,
   GetObjectCommand,
   HeadObjectCommand,
+  ListObjectsV2Command,
   S3Client,
 } from "@aws-sdk/client-s3";
 import { Upload } from "@aws-sdk/lib-storage";
+import { createHash } from "crypto";
 import { createWriteStream } from "fs";
-import { access, mkdir, readFile, unlink, writeFile } from "fs/promises";
+import {
+  access,
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  stat,
+  unlink,
+  writeFile,
+} from "fs/promises";
 import { dirname, join } from "path";
 import { Readable } from "stream";
 import { pipeline } from "stream/promises";
@@ -17,6 +29,12 @@ import { logger } from "../utils/logger.js";
 // STORAGE INTERFACE
 // =============================================================================
 
+export interface StorageObject {
+  key: string;
+  byteCount: number;
+  modifiedAt: Date;
+}
+
 export interface StorageProvider {
   save(key: string, data: Buffer | Readable): Promise<string>;
   load(key: string): Promise<Buffer>;
@@ -24,6 +42,9 @@ export interface StorageProvider {
   delete(key: string): Promise<void>;
   exists(key: string): Promise<boolean>;
   clearLocalCache(key: string): Promise<void>;
+  // Files directly under a prefix ending in "/", not in nested folders
+  list(prefix: string): Promise<StorageObject[]>;
+  move(fromKey: string, toKey: string): Promise<void>;
 }
 
 // =============================================================================
@@ -86,6 +107,32 @@ class LocalStorage implements StorageProvider {
     // For local storage, the local file is the source of truth, so we don't clear it.
     return;
   }
+
+  async list(prefix: string): Promise<StorageObject[]> {
+    let entries;
+    try {
+      entries = await readdir(this.getFullPath(prefix), { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const objects: StorageObject[] = [];
+    for (const entry of entries) {
+      if (!entry.isFile()) continue;
+      const key = `${prefix}${entry.name}`;
+      const stats = await stat(this.getFullPath(key));
+      objects.push({ key, byteCount: stats.size, modifiedAt: stats.mtime });
+    }
+    return objects;
+  }
+
+  // A rename, so when two callers move the same file only one succeeds
+  async move(fromKey: string, toKey: string): Promise<void> {
+    const toPath = this.getFullPath(toKey);
+    await mkdir(dirname(toPath), { recursive: true });
+    await rename(this.getFullPath(fromKey), toPath);
+  }
 }
 
 // =============================================================================
@@ -218,6 +265,44 @@ class S3Storage implements StorageProvider {
       // ignore if not exists
     }
   }
+
+  async list(prefix: string): Promise<StorageObject[]> {
+    const objects: StorageObject[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const response = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: prefix,
+          Delimiter: "/", // Keeps nested "folders" out of the listing
+          ...(continuationToken && { ContinuationToken: continuationToken }),
+        })
+      );
+      for (const object of response.Contents ?? []) {
+        if (!object.Key || object.Key === prefix) continue;
+        objects.push({
+          key: object.Key,
+          byteCount: object.Size ?? 0,
+          modifiedAt: object.LastModified ?? new Date(),
+        });
+      }
+      continuationToken = response.NextContinuationToken;
+    } while (continuationToken);
+    return objects;
+  }
+
+  // S3 has no rename: copy, then delete the original
+  async move(fromKey: string, toKey: string): Promise<void> {
+    await this.client.send(
+      new CopyObjectCommand({
+        Bucket: this.bucket,
+        CopySource: `${this.bucket}/${encodeURIComponent(fromKey)}`,
+        Key: toKey,
+      })
+    );
+    await this.delete(fromKey);
+    await this.clearLocalCache(toKey);
+  }
 }
 
 // =============================================================================
@@ -244,6 +329,40 @@ export async function saveFile(
   return storage.save(key, data);
 }
 
+export interface StoredFile {
+  key: string;
+  sha256: string; // Hex digest of the stored bytes
+  byteCount: number;
+}
+
+/**
+ * Stream data into storage, hashing and counting it on the way, so the file
+ * is never held in memory. A partly written file is removed on failure.
+ */
+export async function saveFileWithChecksum(
+  key: string,
+  data: Readable
+): Promise<StoredFile> {
+  const hash = createHash("sha256");
+  let byteCount = 0;
+  async function* counted(): AsyncGenerator<Buffer> {
+    for await (const chunk of data) {
+      hash.update(chunk);
+      byteCount += chunk.length;
+      yield chunk;
+    }
+  }
+
+  try {
+    await storage.save(key, Readable.from(counted()));
+  } catch (error) {
+    await storage.delete(key).catch(() => undefined);
+    throw error;
+  }
+
+  return { key, sha256: hash.digest("hex"), byteCount };
+}
+
 export async function loadFile(key: string): Promise<Buffer> {
   return storage.load(key);
 }
@@ -264,6 +383,14 @@ export async function fileExists(key: string): Promise<boolean> {
   return storage.exists(key);
 }
 
+export async function listFiles(prefix: string): Promise<StorageObject[]> {
+  return storage.list(prefix);
+}
+
+export async function moveFile(fromKey: string, toKey: string): Promise<void> {
+  return storage.move(fromKey, toKey);
+}
+
 // =============================================================================
 // KEY GENERATORS
 // =============================================================================
@@ -276,6 +403,34 @@ export function generateRawFileKey(
   return `raw/${ingestionId}.${ext}`;
 }
 
+// Each PATCH gets its own key, so a retried chunk never overwrites a stored one
+export function generateUploadChunkKey(sessionId: string, chunkId: string): string {
+  return `uploads/${sessionId}/${chunkId}.part`;
+}
+
+export function generateRowStoreChunkKey(
+  ingestionId: string,
+  chunkIndex: number
+): string {
+  return `rows/${ingestionId}/${String(chunkIndex).padStart(5, "0")}.ndjson`;
+}
+
+export function generateValidationChunkKey(
+  ingestionId: string,
+  chunkIndex: number,
+  kind: "errors" | "unique-values"
+): string {
+  return `validation/${ingestionId}/${kind}-${String(chunkIndex).padStart(5, "0")}.ndjson`;
+}
+
+export function generateQuarantineFileKey(ingestionId: string): string {
+  return `quarantine/${ingestionId}/rejected-records.ndjson`;
+}
+
+export function generateErrorsFileKey(ingestionId: string): string {
+  return `output/${ingestionId}/errors.ndjson`;
+}
+
 export function generateOutputFileKey(
   ingestionId: string,
   format: "csv" | "json" = "csv"
@@ -0,0 +1,251 @@
+import type { HeaderChange, ParseOptions } from "../types/index.js";
+import {
+  commentFreeLineNumbers,
+  splitRecords,
+  withoutCommentLines,
+  type Dialect,
+  type SampleRecord,
+} from "./dialect-sniffer.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface HeaderDetection {
+  headerRow: number; // 0-indexed line holding the header, counting comment lines
+  confidence: number; // 0-1
+  source: "detected" | "override" | "default";
+}
+
+export type FooterOptions = Pick<ParseOptions, "skipTrailingRows" | "detectFooter">;
+
+// Only the first records can hold the header; report preambles are short
+const HEADER_SCAN_RECORDS = 20;
+
+// Rows below a header candidate compared against it
+const HEADER_CONTRAST_ROWS = 5;
+
+// Best candidates scoring below this are not trusted over line 0
+const MIN_HEADER_SCORE = 0.3;
+
+// Trailing rows checked for summary labels
+const MAX_FOOTER_ROWS = 5;
+
+const NUMBER_LIKE = /^[-+(]?[$€£¥]?\s?[\d.,\s]*\d[\d.,\s]*%?\)?$/;
+const DATE_LIKE = /^\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}/;
+
+// First cell of report footers: totals, aggregates and export stamps
+const FOOTER_LABEL =
+  /^((grand|sub)[\s-]?)?totals?\b|^(sum|count|average|avg|mean)\s*:?$|^(generated|exported|printed)\b|^end of (report|file|data)\b/i;
+
+// =============================================================================
+// HEADER DETECTION
+// =============================================================================
+
+function nonEmptyCells(values: unknown[]): string[] {
+  return values.map((v) => String(v ?? "").trim()).filter((v) => v.length > 0);
+}
+
+function looksLikeValue(cell: string): boolean {
+  return NUMBER_LIKE.test(cell) || DATE_LIKE.test(cell);
+}
+
+// Most common record width, ignoring single-field lines such as titles
+function typicalWidth(records: SampleRecord[]): number {
+  const frequency = new Map<number, number>();
+  for (const { fields } of records) {
+    if (fields.length > 1) {
+      frequency.set(fields.length, (frequency.get(fields.length) ?? 0) + 1);
+    }
+  }
+
+  let width = 0;
+  let occurrences = 0;
+  for (const [count, seen] of frequency) {
+    if (seen > occurrences || (seen === occurrences && count > width)) {
+      width = count;
+      occurrences = seen;
+    }
+  }
+  return width;
+}
+
+/**
+ * How much a record looks like a header: it fills the table width with
+ * distinct labels, and the rows below it hold values where it holds text.
+ */
+function scoreHeaderCandidate(
+  candidate: SampleRecord,
+  below: SampleRecord[],
+  width: number
+): number {
+  const cells = nonEmptyCells(candidate.fields);
+  if (cells.length < width / 2) return 0;
+
+  const fill = Math.min(cells.length, width) / width;
+  const distinct = new Set(cells.map((c) => c.toLowerCase())).size / cells.length;
+  const textual = cells.filter((c) => !looksLikeValue(c)).length / cells.length;
+
+  // Columns where the candidate has text and the rows below have values
+  let textColumns = 0;
+  let contrasting = 0;
+  candidate.fields.forEach((field, column) => {
+    const label = field.trim();
+    if (!label || looksLikeValue(label)) return;
+    textColumns++;
+    const values = nonEmptyCells(below.map((r) => r.fields[column]));
+    if (values.length > 0 && values.some(looksLikeValue)) contrasting++;
+  });
+  const contrast = textColumns > 0 ? contrasting / textColumns : 0;
+
+  return fill * distinct * ((textual + contrast) / 2);
+}
+
+/**
+ * Find the most plausible header row in a decoded sample, skipping title
+ * lines, blank rows and "Generated on ..." preambles. An explicit headerRow
+ * is returned as-is.
+ */
+export function detectHeaderRow(
+  sample: string,
+  dialect: Dialect,
+  options: Pick<ParseOptions, "headerRow" | "commentPrefix"> & { complete: boolean }
+): HeaderDetection {
+  if (options.headerRow !== undefined) {
+    return { headerRow: options.headerRow, confidence: 1, source: "override" };
+  }
+
+  const text = withoutCommentLines(sample, options.commentPrefix);
+  const detected = findHeaderRecord(splitRecords(text, dialect, options.complete));
+  if (detected.source !== "detected" || !options.commentPrefix) return detected;
+
+  // Records are numbered without the comments; csv-parse counts them
+  const lines = commentFreeLineNumbers(sample, options.commentPrefix);
+  return { ...detected, headerRow: lines[detected.headerRow] ?? detected.headerRow };
+}
+
+/**
+ * Pick the header among already split records, e.g. spreadsheet rows. Lines
+ * are reported as numbered in the records.
+ */
+export function findHeaderRecord(records: SampleRecord[]): HeaderDetection {
+  const width = typicalWidth(records);
+  if (width === 0) {
+    return { headerRow: 0, confidence: 0, source: "default" };
+  }
+
+  let best: SampleRecord | undefined;
+  let bestScore = 0;
+  const candidates = Math.min(records.length, HEADER_SCAN_RECORDS);
+  for (let i = 0; i < candidates; i++) {
+    const below = records.slice(i + 1, i + 1 + HEADER_CONTRAST_ROWS);
+    const score = scoreHeaderCandidate(records[i]!, below, width);
+    if (score > bestScore) {
+      best = records[i];
+      bestScore = score;
+    }
+  }
+
+  if (!best || bestScore < MIN_HEADER_SCORE) {
+    return { headerRow: 0, confidence: bestScore, source: "default" };
+  }
+  return { headerRow: best.line, confidence: bestScore, source: "detected" };
+}
+
+// =============================================================================
+// HEADER NAMES
+// =============================================================================
+
+/**
+ * Give every column a unique, non-blank key. Headers are trimmed; blank ones
+ * become `column_<position>` and repeats get a `_2`, `_3`... suffix, never
+ * reusing a name that appears elsewhere in the header. The first occurrence
+ * of a name keeps it.
+ */
+export function normalizeHeaders(headers: string[]): {
+  columns: string[];
+  changes: HeaderChange[];
+} {
+  const trimmed = headers.map((h) => h.trim());
+  const taken = new Set(trimmed.filter((h) => h.length > 0));
+  const seen = new Set<string>();
+  const changes: HeaderChange[] = [];
+
+  const uniqueName = (base: string, first: number): string => {
+    let n = first;
+    while (taken.has(`${base}_${n}`)) n++;
+    const name = `${base}_${n}`;
+    taken.add(name);
+    return name;
+  };
+
+  const columns = trimmed.map((name, index) => {
+    const original = headers[index]!;
+    let normalized = name;
+    let reason: HeaderChange["reason"] | null = name !== original ? "trimmed" : null;
+
+    if (name.length === 0) {
+      normalized = uniqueName("column", index + 1);
+      reason = "blank";
+    } else if (seen.has(name)) {
+      normalized = uniqueName(name, 2);
+      reason = "duplicate";
+    }
+    seen.add(name);
+
+    if (reason) {
+      changes.push({ index, original, normalized, reason });
+    }
+    return normalized;
+  });
+
+  return { columns, changes };
+}
+
+// =============================================================================
+// FOOTER SKIPPING
+// =============================================================================
+
+/**
+ * Whether a trailing row is a report footer rather than data: a totals or
+ * export-stamp label in its first non-empty cell followed only by numbers or
+ * dates, or no values at all. A data row such as "Total Gym, Ada, 3" has
+ * text after its label and is kept.
+ */
+export function isFooterRow(values: unknown[]): boolean {
+  const [label, ...rest] = nonEmptyCells(values);
+  if (label === undefined) return true;
+  return FOOTER_LABEL.test(label) && rest.every(looksLikeValue);
+}
+
+/**
+ * Pass records through, holding back the last few so that `skipTrailingRows`
+ * rows and then any summary footer rows can be dropped from the end. Dropped
+ * rows are appended to `skipped` in file order.
+ */
+export async function* withoutFooter<T extends Record<string, unknown>>(
+  records: AsyncIterable<T>,
+  options: FooterOptions,
+  skipped: T[]
+): AsyncGenerator<T> {
+  const { skipTrailingRows = 0, detectFooter = true } = options;
+  const holdBack = skipTrailingRows + (detectFooter ? MAX_FOOTER_ROWS : 0);
+  const tail: T[] = [];
+
+  for await (const record of records) {
+    tail.push(record);
+    if (tail.length > holdBack) {
+      yield tail.shift()!;
+    }
+  }
+
+  const dropped = tail.splice(Math.max(tail.length - skipTrailingRows, 0));
+  if (detectFooter) {
+    while (tail.length > 0 && isFooterRow(Object.values(tail[tail.length - 1]!))) {
+      dropped.unshift(tail.pop()!);
+    }
+  }
+  skipped.push(...dropped);
+
+  yield* tail;
+}
@@ -108,7 +108,7 @@ export function inferColumnType(samples: unknown[]): InferredColumn {
       continue;
     }
     
-    const str = String(val).trim();
+    const str = (typeof val === 'object' ? JSON.stringify(val) : String(val)).trim();
     uniqueValues.add(str);
     
     // Collect sample values (up to 5)
@@ -116,7 +116,15 @@ export function inferColumnType(samples: unknown[]): InferredColumn {
       sampleValues.push(str);
     }
     
-    const type = detectType(str);
+    // Typed values (e.g. spreadsheet cells) already know what they are
+    const type: ColumnType =
+      typeof val === 'number'
+        ? Number.isInteger(val) ? 'integer' : 'float'
+        : typeof val === 'boolean'
+          ? 'boolean'
+          : typeof val === 'object'
+            ? 'json'
+            : detectType(str);
     votes[type]++;
   }
   
@@ -0,0 +1,106 @@
+import { createHash } from "crypto";
+import { config } from "../config.js";
+
+// =============================================================================
+// UNIQUE VALUE TRACKING
+// =============================================================================
+//
+// The `unique` validator has to remember every value seen in a column. Values
+// are kept verbatim until the tracker's memory budget is used up; after that
+// every column switches to 12-byte SHA-256 digests, which bounds the cost per
+// value regardless of its length. A digest collision (odds around 1 in 10^11
+// for a billion values) would flag a false duplicate, never miss a real one.
+
+const DIGEST_BYTES = 12;
+const DIGEST_CHARS = (DIGEST_BYTES * 4) / 3; // base64
+// Rough per-entry overhead of a Set slot plus a string header
+const ENTRY_OVERHEAD_BYTES = 48;
+
+function valueKey(value: unknown): string {
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return `${typeof value}:${text}`;
+}
+
+function digest(key: string): string {
+  return createHash("sha256").update(key).digest("base64").slice(0, DIGEST_CHARS);
+}
+
+export interface UniqueValueTrackerOptions {
+  memoryBudgetBytes?: number;
+  // Keep first occurrences until takeAdditions() so callers can persist them
+  recordAdditions?: boolean;
+}
+
+export interface UniqueValueAddition {
+  column: string;
+  value: unknown;
+}
+
+export class UniqueValueTracker {
+  private columns = new Map<string, Set<string>>();
+  private estimatedBytes = 0;
+  private hashed = false;
+  private additions: UniqueValueAddition[] | null;
+  private readonly memoryBudgetBytes: number;
+
+  constructor(options: UniqueValueTrackerOptions = {}) {
+    this.memoryBudgetBytes =
+      options.memoryBudgetBytes ?? config.uniqueMemoryBudgetMb * 1024 * 1024;
+    this.additions = options.recordAdditions ? [] : null;
+  }
+
+  /** Whether values are being tracked as digests */
+  get isHashed(): boolean {
+    return this.hashed;
+  }
+
+  /**
+   * Record a value for a column. Returns true if it was seen before.
+   */
+  checkAndAdd(column: string, value: unknown): boolean {
+    let seen = this.columns.get(column);
+    if (!seen) {
+      seen = new Set();
+      this.columns.set(column, seen);
+    }
+
+    const key = this.hashed ? digest(valueKey(value)) : valueKey(value);
+    if (seen.has(key)) {
+      return true;
+    }
+
+    seen.add(key);
+    this.additions?.push({ column, value });
+    this.estimatedBytes += key.length * 2 + ENTRY_OVERHEAD_BYTES;
+
+    if (!this.hashed && this.estimatedBytes > this.memoryBudgetBytes) {
+      this.switchToDigests();
+    }
+    return false;
+  }
+
+  /**
+   * Values seen for the first time since the last call (requires
+   * recordAdditions).
+   */
+  takeAdditions(): UniqueValueAddition[] {
+    if (!this.additions) return [];
+    const additions = this.additions;
+    this.additions = [];
+    return additions;
+  }
+
+  private switchToDigests(): void {
+    this.hashed = true;
+    this.estimatedBytes = 0;
+
+    for (const [column, seen] of this.columns) {
+      const digests = new Set<string>();
+      for (const key of seen) {
+        digests.add(digest(key));
+      }
+      this.columns.set(column, digests);
+      this.estimatedBytes += digests.size * (DIGEST_CHARS * 2 + ENTRY_OVERHEAD_BYTES);
+    }
+  }
+}
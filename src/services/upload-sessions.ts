@@ -0,0 +1,101 @@
+import { and, eq, lt, or } from "drizzle-orm";
+import { createReadStream } from "fs";
+import { Readable } from "stream";
+import { config } from "../config.js";
+import { db } from "../db/index.js";
+import { uploadSessions } from "../db/schema.js";
+import type { UploadChunk } from "../types/index.js";
+import {
+  clearLocalCache,
+  deleteFile,
+  getFilePath,
+  saveFileWithChecksum,
+  type StoredFile,
+} from "./storage.js";
+
+// =============================================================================
+// EXPIRY
+// =============================================================================
+
+/**
+ * When a session touched at `from` is considered abandoned.
+ */
+export function uploadSessionExpiry(from: Date = new Date()): Date {
+  return new Date(from.getTime() + config.uploadSessionTtlHours * 60 * 60 * 1000);
+}
+
+// Assembling even the largest upload takes far less; a session finalizing
+// for longer belonged to a process that died mid-finalize
+const FINALIZE_TIMEOUT_MS = 60 * 60 * 1000;
+
+/**
+ * Discard open sessions that have not received a chunk before their expiry,
+ * and sessions stuck finalizing, deleting their stored chunks. Returns how
+ * many sessions were expired.
+ */
+export async function expireUploadSessions(now: Date = new Date()): Promise<number> {
+  const expired = await db
+    .update(uploadSessions)
+    .set({ status: "expired", updatedAt: now })
+    .where(
+      or(
+        and(eq(uploadSessions.status, "open"), lt(uploadSessions.expiresAt, now)),
+        and(
+          eq(uploadSessions.status, "finalizing"),
+          lt(uploadSessions.updatedAt, new Date(now.getTime() - FINALIZE_TIMEOUT_MS))
+        )
+      )
+    )
+    .returning({ id: uploadSessions.id, chunks: uploadSessions.chunks });
+
+  for (const session of expired) {
+    await discardUploadChunks(session.chunks);
+    await db
+      .update(uploadSessions)
+      .set({ chunks: [] })
+      .where(eq(uploadSessions.id, session.id));
+  }
+
+  return expired.length;
+}
+
+// =============================================================================
+// CHUNKS
+// =============================================================================
+
+/**
+ * Check that chunks cover the file from its first byte to `totalBytes`
+ * without gaps or overlaps.
+ */
+export function chunksCoverFile(chunks: UploadChunk[], totalBytes: number): boolean {
+  let offset = 0;
+  for (const chunk of [...chunks].sort((a, b) => a.offset - b.offset)) {
+    if (chunk.offset !== offset) return false;
+    offset += chunk.byteCount;
+  }
+  return offset === totalBytes;
+}
+
+/**
+ * Concatenate stored chunks into one file under `key`, streaming, and return
+ * the assembled file's checksum and size.
+ */
+export async function assembleUpload(
+  chunks: UploadChunk[],
+  key: string
+): Promise<StoredFile> {
+  const ordered = [...chunks].sort((a, b) => a.offset - b.offset);
+
+  async function* bytes(): AsyncGenerator<Buffer> {
+    for (const chunk of ordered) {
+      yield* createReadStream(await getFilePath(chunk.key));
+      await clearLocalCache(chunk.key);
+    }
+  }
+
+  return saveFileWithChecksum(key, Readable.from(bytes()));
+}
+
+export async function discardUploadChunks(chunks: UploadChunk[]): Promise<void> {
+  await Promise.all(chunks.map((chunk) => deleteFile(chunk.key).catch(() => undefined)));
+}
@@ -0,0 +1,254 @@
+import type {
+  CanonicalSchema,
+  CellError,
+  MappingResult,
+  RowError,
+} from "../types/index.js";
+import type { StoredRow } from "./row-store.js";
+import { readNdjsonFile } from "./spill-file.js";
+import type {
+  UniqueValueAddition,
+  UniqueValueTracker,
+} from "./unique-tracker.js";
+import {
+  resolveRowAction,
+  uniqueViolation,
+  validateRow,
+} from "./validation.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+// Counts accumulated while validating a range of rows
+export interface ValidationTally {
+  validRowCount: number;
+  invalidRowCount: number;
+  rejectedRowCount: number;
+  errorsByColumn: Record<string, number>;
+  // column -> format -> rows parsed with it
+  dateFormatCounts: Record<string, Record<string, number>>;
+  // column -> coercion rule -> rows whose value changed
+  coercionCounts: Record<string, Record<string, number>>;
+}
+
+// First occurrence of a value in a `unique` column, for cross-chunk checks
+export interface UniqueValueRecord {
+  row: number;
+  column: string;
+  value: unknown;
+}
+
+// Returned by each chunk job and merged by the parent job
+export interface ValidationChunkResult {
+  chunkIndex: number;
+  tally: ValidationTally;
+  errorsFileKey: string | null;
+  uniqueValuesFileKey: string | null;
+}
+
+export function createValidationTally(): ValidationTally {
+  return {
+    validRowCount: 0,
+    invalidRowCount: 0,
+    rejectedRowCount: 0,
+    errorsByColumn: {},
+    dateFormatCounts: {},
+    coercionCounts: {},
+  };
+}
+
+function addCounts(
+  target: Record<string, Record<string, number>>,
+  source: Record<string, Record<string, number>>
+): void {
+  for (const [column, counts] of Object.entries(source)) {
+    const merged = (target[column] ??= {});
+    for (const [key, count] of Object.entries(counts)) {
+      merged[key] = (merged[key] ?? 0) + count;
+    }
+  }
+}
+
+export function mergeValidationTallies(tallies: ValidationTally[]): ValidationTally {
+  const merged = createValidationTally();
+  for (const tally of tallies) {
+    merged.validRowCount += tally.validRowCount;
+    merged.invalidRowCount += tally.invalidRowCount;
+    merged.rejectedRowCount += tally.rejectedRowCount;
+    for (const [column, count] of Object.entries(tally.errorsByColumn)) {
+      merged.errorsByColumn[column] = (merged.errorsByColumn[column] ?? 0) + count;
+    }
+    addCounts(merged.dateFormatCounts, tally.dateFormatCounts);
+    addCounts(merged.coercionCounts, tally.coercionCounts);
+  }
+  return merged;
+}
+
+// =============================================================================
+// ROW RANGE VALIDATION
+// =============================================================================
+
+export interface ValidateRowsInput {
+  rows: AsyncIterable<StoredRow>;
+  mappingResult: MappingResult;
+  canonicalSchema: CanonicalSchema | null;
+  uniqueValues: UniqueValueTracker;
+  onRowError: (rowError: RowError) => Promise<void>;
+  // Called with values first seen in a row (tracker must record additions)
+  onUniqueValues?: (row: number, additions: UniqueValueAddition[]) => Promise<void>;
+  onProgress?: (rowsValidated: number) => Promise<void>;
+  progressInterval?: number;
+}
+
+/**
+ * Validate a stream of stored rows, handing each row error to the caller as
+ * soon as it is found. Throws ValidationAbortError under the "abort" policy.
+ */
+export async function validateRows(input: ValidateRowsInput): Promise<ValidationTally> {
+  const { mappingResult, canonicalSchema, uniqueValues, progressInterval = 10000 } =
+    input;
+  const tally = createValidationTally();
+  let rowsValidated = 0;
+
+  for await (const { row: rowNumber, data: row } of input.rows) {
+    const validated = validateRow(
+      row,
+      rowNumber,
+      mappingResult,
+      canonicalSchema,
+      uniqueValues
+    );
+
+    for (const [column, provenance] of Object.entries(validated.provenance)) {
+      if (provenance.format) {
+        const counts = (tally.dateFormatCounts[column] ??= {});
+        counts[provenance.format] = (counts[provenance.format] ?? 0) + 1;
+      }
+      if (provenance.changed) {
+        const counts = (tally.coercionCounts[column] ??= {});
+        counts[provenance.rule] = (counts[provenance.rule] ?? 0) + 1;
+      }
+    }
+
+    if (input.onUniqueValues) {
+      const additions = uniqueValues.takeAdditions();
+      if (additions.length > 0) {
+        await input.onUniqueValues(rowNumber, additions);
+      }
+    }
+
+    if (validated.errors.length > 0) {
+      tally.invalidRowCount++;
+
+      // Track errors by column
+      for (const error of validated.errors) {
+        tally.errorsByColumn[error.column] =
+          (tally.errorsByColumn[error.column] || 0) + 1;
+      }
+
+      // Apply error policy
+      const action = resolveRowAction(validated.errors, rowNumber, canonicalSchema);
+      if (action === "rejected") {
+        tally.rejectedRowCount++;
+      }
+
+      await input.onRowError({ row: rowNumber, errors: validated.errors, action });
+    } else {
+      tally.validRowCount++;
+    }
+
+    rowsValidated++;
+    if (input.onProgress && rowsValidated % progressInterval === 0) {
+      await input.onProgress(rowsValidated);
+    }
+  }
+
+  return tally;
+}
+
+// =============================================================================
+// CHUNK MERGING
+// =============================================================================
+
+/**
+ * Fold chunk results back into one, in row order. Each chunk only saw its own
+ * rows, so values in `unique` columns are re-checked across chunks: a value
+ * already used by an earlier chunk becomes a uniqueness error on the later
+ * row, exactly as a single sequential pass would report it. Row errors from
+ * every chunk are passed to `onRowError` in row order.
+ */
+export async function mergeValidationChunks(
+  chunks: ValidationChunkResult[],
+  canonicalSchema: CanonicalSchema | null,
+  uniqueValues: UniqueValueTracker,
+  onRowError: (rowError: RowError) => Promise<void>
+): Promise<{ tally: ValidationTally; crossChunkDuplicates: number }> {
+  const ordered = [...chunks].sort((a, b) => a.chunkIndex - b.chunkIndex);
+  const tally = mergeValidationTallies(ordered.map((c) => c.tally));
+  const columnsByName = new Map(canonicalSchema?.columns.map((c) => [c.name, c]) ?? []);
+  let crossChunkDuplicates = 0;
+
+  for (const chunk of ordered) {
+    // Values this chunk saw first that an earlier chunk already used
+    const duplicates = new Map<number, CellError[]>();
+    if (chunk.uniqueValuesFileKey) {
+      for await (const record of readNdjsonFile<UniqueValueRecord>(
+        chunk.uniqueValuesFileKey
+      )) {
+        const colDef = columnsByName.get(record.column);
+        if (!colDef || !uniqueValues.checkAndAdd(record.column, record.value)) {
+          continue;
+        }
+        const errors = duplicates.get(record.row) ?? [];
+        errors.push(uniqueViolation(record.row, colDef, record.value));
+        duplicates.set(record.row, errors);
+
+        crossChunkDuplicates++;
+        tally.errorsByColumn[record.column] =
+          (tally.errorsByColumn[record.column] || 0) + 1;
+      }
+    }
+
+    // Both the error file and the duplicates are in row order: merge-join them
+    const pendingRows = [...duplicates.keys()];
+    let next = 0;
+
+    const emitDuplicateOnly = async (row: number) => {
+      const errors = duplicates.get(row)!;
+      const action = resolveRowAction(errors, row, canonicalSchema);
+      tally.validRowCount--;
+      tally.invalidRowCount++;
+      if (action === "rejected") tally.rejectedRowCount++;
+      await onRowError({ row, errors, action });
+    };
+
+    if (chunk.errorsFileKey) {
+      for await (const rowError of readNdjsonFile<RowError>(chunk.errorsFileKey)) {
+        while (next < pendingRows.length && pendingRows[next]! < rowError.row) {
+          await emitDuplicateOnly(pendingRows[next++]!);
+        }
+
+        const extra =
+          pendingRows[next] === rowError.row ? duplicates.get(pendingRows[next++]!) : undefined;
+        if (!extra) {
+          await onRowError(rowError);
+          continue;
+        }
+
+        const errors = [...rowError.errors, ...extra];
+        const action = resolveRowAction(errors, rowError.row, canonicalSchema);
+        if (rowError.action !== "rejected" && action === "rejected") {
+          tally.rejectedRowCount++;
+        }
+        await onRowError({ row: rowError.row, errors, action });
+      }
+    }
+
+    while (next < pendingRows.length) {
+      await emitDuplicateOnly(pendingRows[next++]!);
+    }
+  }
+
+  return { tally, crossChunkDuplicates };
+}
@@ -0,0 +1,316 @@
+import type {
+  CanonicalSchema,
+  CellError,
+  ColumnDefinition,
+  MappingResult,
+  RowError,
+  Validator,
+} from "../types/index.js";
+import { coerceValue, type CoercionProvenance } from "./coercion.js";
+import type { UniqueValueTracker } from "./unique-tracker.js";
+
+// =============================================================================
+// VALIDATOR EXECUTION
+// =============================================================================
+
+export function runValidator(
+  value: unknown,
+  validator: Validator,
+  _columnDef: ColumnDefinition
+): { valid: boolean; message?: string } {
+  if (value === null || value === undefined) {
+    return { valid: true }; // Null values are handled separately
+  }
+
+  switch (validator.type) {
+    case "regex": {
+      const regex = new RegExp(validator.pattern);
+      const str = String(value);
+      if (!regex.test(str)) {
+        return {
+          valid: false,
+          message: validator.message || `Value does not match pattern: ${validator.pattern}`,
+        };
+      }
+      return { valid: true };
+    }
+
+    case "min": {
+      const num = typeof value === "number" ? value : parseFloat(String(value));
+      if (isNaN(num) || num < validator.value) {
+        return {
+          valid: false,
+          message: validator.message || `Value must be at least ${validator.value}`,
+        };
+      }
+      return { valid: true };
+    }
+
+    case "max": {
+      const num = typeof value === "number" ? value : parseFloat(String(value));
+      if (isNaN(num) || num > validator.value) {
+        return {
+          valid: false,
+          message: validator.message || `Value must be at most ${validator.value}`,
+        };
+      }
+      return { valid: true };
+    }
+
+    case "minLength": {
+      const str = String(value);
+      if (str.length < validator.value) {
+        return {
+          valid: false,
+          message: validator.message || `Value must be at least ${validator.value} characters`,
+        };
+      }
+      return { valid: true };
+    }
+
+    case "maxLength": {
+      const str = String(value);
+      if (str.length > validator.value) {
+        return {
+          valid: false,
+          message: validator.message || `Value must be at most ${validator.value} characters`,
+        };
+      }
+      return { valid: true };
+    }
+
+    case "enum": {
+      const str = String(value);
+      if (!validator.values.includes(str)) {
+        return {
+          valid: false,
+          message: validator.message || `Value must be one of: ${validator.values.join(", ")}`,
+        };
+      }
+      return { valid: true };
+    }
+
+    case "unique":
+      // Unique validation is handled separately at the full dataset level
+      return { valid: true };
+
+    default:
+      return { valid: true };
+  }
+}
+
+export function uniqueViolation(
+  rowNumber: number,
+  colDef: ColumnDefinition,
+  value: unknown
+): CellError {
+  const validator = colDef.validators.find((v) => v.type === "unique");
+  return {
+    row: rowNumber,
+    column: colDef.name,
+    value,
+    expectedType: colDef.type,
+    errorType: "validation_failed",
+    message: validator?.message || "Value must be unique",
+    validatorType: "unique",
+  };
+}
+
+// =============================================================================
+// MAIN VALIDATION LOGIC
+// =============================================================================
+
+export interface ValidatedRow {
+  data: Record<string, unknown>;
+  errors: CellError[];
+  action: "accepted" | "rejected" | "flagged" | "coerced";
+  // How each successfully coerced column got its value
+  provenance: Record<string, CoercionProvenance>;
+}
+
+export function validateRow(
+  row: Record<string, unknown>,
+  rowNumber: number,
+  mappingResult: MappingResult,
+  canonicalSchema: CanonicalSchema | null,
+  uniqueValues: UniqueValueTracker
+): ValidatedRow {
+  const mappedData: Record<string, unknown> = {};
+  const errors: CellError[] = [];
+  const provenance: Record<string, CoercionProvenance> = {};
+  let hasError = false;
+
+  // Build a map of target column -> source column for quick lookup
+  const targetToSource = new Map<string, string>();
+  for (const mapping of mappingResult.mappings) {
+    if (mapping.targetColumn) {
+      targetToSource.set(mapping.targetColumn, mapping.sourceColumn);
+    }
+  }
+
+  // If we have a canonical schema, validate against it
+  if (canonicalSchema) {
+    const errorPolicy = canonicalSchema.errorPolicy || "flag";
+
+    for (const colDef of canonicalSchema.columns) {
+      const sourceColumn = targetToSource.get(colDef.name);
+      const rawValue = sourceColumn ? row[sourceColumn] : undefined;
+
+      // Check required
+      if (
+        colDef.required &&
+        (rawValue === null || rawValue === undefined || rawValue === "")
+      ) {
+        errors.push({
+          row: rowNumber,
+          column: colDef.name,
+          value: rawValue,
+          expectedType: colDef.type,
+          errorType: "required_missing",
+          message: `Required column "${colDef.name}" is missing or empty`,
+        });
+        hasError = true;
+
+        // Apply default if available
+        if (colDef.default !== undefined) {
+          mappedData[colDef.name] = colDef.default;
+        } else {
+          mappedData[colDef.name] = null;
+        }
+        continue;
+      }
+
+      // Type coercion
+      const coercion = coerceValue(rawValue, colDef);
+      if (!coercion.success) {
+        errors.push({
+          row: rowNumber,
+          column: colDef.name,
+          value: rawValue,
+          expectedType: colDef.type,
+          errorType: "type_coercion",
+          message: coercion.error || `Failed to coerce to ${colDef.type}`,
+        });
+        hasError = true;
+
+        // Apply default if available
+        if (errorPolicy === "coerce_default" && colDef.default !== undefined) {
+          mappedData[colDef.name] = colDef.default;
+        } else {
+          mappedData[colDef.name] = rawValue; // Keep original for flagging
+        }
+        continue;
+      }
+
+      provenance[colDef.name] = coercion.provenance;
+
+      let coercedValue = coercion.value;
+      let columnHasError = false;
+
+      // Run validators
+      for (const validator of colDef.validators) {
+        if (validator.type === "unique") {
+          // Track for uniqueness check
+          if (
+            coercedValue !== null &&
+            uniqueValues.checkAndAdd(colDef.name, coercedValue)
+          ) {
+            errors.push(uniqueViolation(rowNumber, colDef, coercedValue));
+            hasError = true;
+            columnHasError = true;
+          }
+        } else {
+          const validationResult = runValidator(
+            coercedValue,
+            validator,
+            colDef
+          );
+          if (!validationResult.valid) {
+            errors.push({
+              row: rowNumber,
+              column: colDef.name,
+              value: coercedValue,
+              expectedType: colDef.type,
+              errorType: "validation_failed",
+              message: validationResult.message || "Validation failed",
+              validatorType: validator.type,
+            });
+            hasError = true;
+            columnHasError = true;
+          }
+        }
+      }
+
+      if (
+        columnHasError &&
+        errorPolicy === "coerce_default" &&
+        colDef.default !== undefined
+      ) {
+        mappedData[colDef.name] = colDef.default;
+      } else {
+        mappedData[colDef.name] = coercedValue;
+      }
+    }
+  } else {
+    // No canonical schema - just apply the mapping (passthrough)
+    for (const mapping of mappingResult.mappings) {
+      if (mapping.targetColumn) {
+        mappedData[mapping.targetColumn] = row[mapping.sourceColumn];
+      }
+    }
+  }
+
+  // Determine action based on errors
+  let action: ValidatedRow["action"] = "accepted";
+  if (hasError) {
+    action = "flagged"; // Default to flagging
+  }
+
+  return { data: mappedData, errors, action, provenance };
+}
+
+// =============================================================================
+// ROW ACTION (error policy)
+// =============================================================================
+
+export class ValidationAbortError extends Error {
+  constructor(rowNumber: number, message: string) {
+    super(`Validation aborted due to error in row ${rowNumber}: ${message}`);
+    this.name = "ValidationAbortError";
+  }
+}
+
+/**
+ * Decide what happens to a row with errors. Throws ValidationAbortError under
+ * the "abort" policy.
+ */
+export function resolveRowAction(
+  errors: CellError[],
+  rowNumber: number,
+  canonicalSchema: CanonicalSchema | null
+): RowError["action"] {
+  // Check if any error occurred in a strict column
+  const hasStrictError = errors.some((e) => {
+    const col = canonicalSchema?.columns.find((c) => c.name === e.column);
+    return col?.strict === true;
+  });
+
+  if (hasStrictError) {
+    return "rejected";
+  }
+
+  switch (canonicalSchema?.errorPolicy || "flag") {
+    case "reject_row":
+      return "rejected";
+    case "coerce_default":
+      return "coerced";
+    case "abort":
+      throw new ValidationAbortError(
+        rowNumber,
+        errors[0]?.message || "Unknown error"
+      );
+    case "flag":
+    default:
+      return "flagged";
+  }
+}
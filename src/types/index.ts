@@ -62,6 +62,114 @@ export const ValidatorSchema = z.discriminatedUnion("type", [
 
 export type Validator = z.infer<typeof ValidatorSchema>;
 
+// =============================================================================
+// PARSE OPTIONS
+// =============================================================================
+
+export const TrimModeSchema = z.enum([
+  "none", // Keep whitespace around values
+  "left",
+  "right",
+  "both",
+]);
+
+export type TrimMode = z.infer<typeof TrimModeSchema>;
+
+// Text encodings the parser can decode
+export const SupportedEncodingSchema = z.enum([
+  "utf-8",
+  "utf-16le",
+  "utf-16be",
+  "windows-1252",
+  "iso-8859-1",
+]);
+
+export type SupportedEncoding = z.infer<typeof SupportedEncodingSchema>;
+
+// How a file is read; anything omitted is detected or defaulted by the parser
+export const InputFormatSchema = z.enum([
+  "csv",
+  "xlsx",
+  "xls",
+  "ods",
+  "json",
+  "ndjson",
+  "fixed_width", // Only with a fixedWidth layout; never detected
+]);
+
+export type InputFormat = z.infer<typeof InputFormatSchema>;
+
+// One field of a fixed-width record
+export const FixedWidthFieldSchema = z.object({
+  name: z.string().min(1),
+  start: z.number().int().min(0), // 0-indexed character position
+  length: z.number().int().positive(),
+  trim: TrimModeSchema.optional(), // Sides the pad character is stripped from (default both)
+  padChar: z.string().length(1).optional(), // Fills unused positions (default space)
+});
+
+export type FixedWidthField = z.infer<typeof FixedWidthFieldSchema>;
+
+export const FixedWidthLayoutSchema = z.object({
+  fields: z
+    .array(FixedWidthFieldSchema)
+    .min(1)
+    .refine(
+      (fields) => new Set(fields.map((f) => f.name)).size === fields.length,
+      "Field names must be unique"
+    ),
+  skipLines: z.number().int().min(0).optional(), // Leading lines before the first record
+});
+
+export type FixedWidthLayout = z.infer<typeof FixedWidthLayoutSchema>;
+
+export const ParseOptionsSchema = z.object({
+  format: InputFormatSchema.optional(), // Detected from the file's content when omitted
+  delimiter: z.string().min(1).max(4).optional(),
+  quote: z.string().length(1).optional(),
+  escape: z.string().length(1).optional(),
+  encoding: SupportedEncodingSchema.optional(),
+  // 0-indexed line holding the header, counting comment lines; detected when omitted
+  headerRow: z.number().int().min(0).optional(),
+  skipTrailingRows: z.number().int().min(0).optional(), // Rows always dropped from the end
+  detectFooter: z.boolean().optional(), // Drop trailing totals/summary rows (default true)
+  commentPrefix: z.string().min(1).optional(), // Lines starting with this are skipped
+  trim: TrimModeSchema.optional(),
+  skipEmptyLines: z.boolean().optional(),
+  relaxColumnCount: z.boolean().optional(),
+  // Worksheet read from a spreadsheet upload; the first non-empty one when omitted
+  sheet: z.string().min(1).optional(),
+  // Nesting levels of JSON objects flattened into dotted column names; deeper
+  // objects stay whole as json values. Fully flattened when omitted
+  flattenDepth: z.number().int().min(0).optional(),
+  // Field positions of a fixed-width text file; reads the file as fixed-width
+  fixedWidth: FixedWidthLayoutSchema.optional(),
+  // Share of malformed records tolerated before the ingestion fails (0-1)
+  maxErrorRatio: z.number().min(0).max(1).optional(),
+  // Ingest each data file of a zip archive as its own child ingestion
+  splitArchive: z.boolean().optional(),
+});
+
+export type ParseOptions = z.infer<typeof ParseOptionsSchema>;
+
+// Delimiter, quote and escape the parser settled on, and how sure it was
+export const DialectDetectionSchema = z.object({
+  delimiter: z.string(),
+  quote: z.string(),
+  escape: z.string(),
+  confidence: z.number(), // 0-1, share of sampled rows splitting cleanly into the common column count
+  ambiguous: z.boolean(), // Runner-up delimiter scored almost as well
+  runnerUp: z
+    .object({
+      delimiter: z.string(),
+      confidence: z.number(),
+    })
+    .nullable(),
+  source: z.enum(["sniffed", "override", "default"]),
+});
+
+export type DialectDetection = z.infer<typeof DialectDetectionSchema>;
+
 // =============================================================================
 // CANONICAL SCHEMA DEFINITION
 // =============================================================================
@@ -98,6 +206,7 @@ export const CanonicalSchemaSchema = z.object({
   columns: z.array(ColumnDefinitionSchema).min(1),
   errorPolicy: ErrorPolicySchema.default("flag"),
   strict: z.boolean().default(false), // If true, reject unmapped columns
+  parseOptions: ParseOptionsSchema.optional(), // Defaults for files ingested against this schema
 });
 
 export type CanonicalSchema = z.infer<typeof CanonicalSchemaSchema>;
@@ -116,10 +225,15 @@ export const IngestionStatusSchema = z.enum([
   "outputting",
   "complete",
   "failed",
+  "cancelled", // Stopped through the API; can be retried
 ]);
 
 export type IngestionStatus = z.infer<typeof IngestionStatusSchema>;
 
+export const PipelineStageSchema = z.enum(["parse", "infer", "map", "validate", "output"]);
+
+export type PipelineStage = z.infer<typeof PipelineStageSchema>;
+
 // =============================================================================
 // INFERRED SCHEMA (output of inference stage)
 // =============================================================================
@@ -133,6 +247,7 @@ export const InferredColumnSchema = z.object({
   sampleValues: z.array(z.any()),
   nullCount: z.number(),
   totalCount: z.number(),
+  originalName: z.string().optional(), // Header text before the parse stage renamed it
 });
 
 export type InferredColumn = z.infer<typeof InferredColumnSchema>;
@@ -155,17 +270,28 @@ export const MappingMethodSchema = z.enum([
   "alias", // Matched via alias list
   "fuzzy", // Fuzzy string matching
   "ai", // AI-suggested mapping
+  "template", // Reused from a remembered mapping template
+  "content", // Matched on column values alone (header gave no signal)
   "manual", // Human-in-the-loop decision
   "unmapped", // No match found
 ]);
 
 export type MappingMethod = z.infer<typeof MappingMethodSchema>;
 
+export const MappingSignalSchema = z.object({
+  signal: z.enum(["header", "type", "enum", "regex"]),
+  score: z.number(), // 0-1
+  detail: z.string(),
+});
+
+export type MappingSignal = z.infer<typeof MappingSignalSchema>;
+
 export const ColumnMappingSchema = z.object({
   sourceColumn: z.string(),
   targetColumn: z.string().nullable(), // null if unmapped
   method: MappingMethodSchema,
   confidence: z.number(),
+  signals: z.array(MappingSignalSchema).optional(), // What contributed to confidence
   alternativeMappings: z
     .array(
       z.object({
@@ -215,12 +341,114 @@ export const ValidationResultSchema = z.object({
   invalidRowCount: z.number(),
   totalRowCount: z.number().optional(),
   outputRowCount: z.number().optional(),
-  errors: z.array(RowErrorSchema),
+  errors: z.array(RowErrorSchema), // Leading sample; see errorsFileKey
   errorsByColumn: z.record(z.string(), z.number()),
+  errorsFileKey: z.string().optional(), // NDJSON file with every row error
+  errorsTruncated: z.boolean().optional(),
 });
 
 export type ValidationResult = z.infer<typeof ValidationResultSchema>;
 
+// =============================================================================
+// ROW STORE (normalized intermediate written by the parse stage)
+// =============================================================================
+
+export const RowStoreChunkSchema = z.object({
+  key: z.string(), // Storage key of the NDJSON chunk
+  firstRow: z.number(), // 1-indexed row number of the first line
+  rowCount: z.number(),
+});
+
+export type RowStoreChunk = z.infer<typeof RowStoreChunkSchema>;
+
+// A header renamed by the parse stage so every column keeps a unique key
+export const HeaderChangeSchema = z.object({
+  index: z.number(), // 0-indexed column position
+  original: z.string(), // Header text as found in the file
+  normalized: z.string(),
+  reason: z.enum(["duplicate", "blank", "trimmed"]),
+});
+
+export type HeaderChange = z.infer<typeof HeaderChangeSchema>;
+
+export const RowStoreManifestSchema = z.object({
+  format: z.literal("ndjson"),
+  columns: z.array(z.string()),
+  headerChanges: z.array(HeaderChangeSchema).optional(),
+  totalRowCount: z.number(),
+  chunks: z.array(RowStoreChunkSchema),
+});
+
+export type RowStoreManifest = z.infer<typeof RowStoreManifestSchema>;
+
+// =============================================================================
+// UPLOAD SESSIONS (resumable chunked uploads)
+// =============================================================================
+
+export const UploadSessionStatusSchema = z.enum([
+  "open", // Accepting chunks
+  "finalizing", // Chunks are being assembled into the raw file
+  "complete", // Ingestion created
+  "failed", // Checksum did not match; chunks discarded
+  "expired", // Abandoned or cancelled; chunks discarded
+]);
+
+export type UploadSessionStatus = z.infer<typeof UploadSessionStatusSchema>;
+
+export const UploadChunkSchema = z.object({
+  key: z.string(), // Storage key of the chunk's bytes
+  offset: z.number(), // Byte offset of the chunk within the file
+  byteCount: z.number(),
+});
+
+export type UploadChunk = z.infer<typeof UploadChunkSchema>;
+
+export const CreateUploadSessionRequestSchema = z.object({
+  schemaId: z.uuid(),
+  filename: z.string().min(1),
+  totalBytes: z.number().int().positive(),
+  parseOptions: ParseOptionsSchema.optional(),
+});
+
+export type CreateUploadSessionRequest = z.infer<
+  typeof CreateUploadSessionRequestSchema
+>;
+
+// =============================================================================
+// DROP ZONES (storage prefixes watched for new files)
+// =============================================================================
+
+const DropZoneFieldsSchema = z.object({
+  name: z.string().min(1),
+  schemaId: z.uuid(),
+  parseOptions: ParseOptionsSchema.optional(),
+  // Glob matched against file names: "*", "?" and "{csv,tsv}" alternatives
+  filePattern: z.string().min(1),
+  enabled: z.boolean(),
+});
+
+export const CreateDropZoneRequestSchema = DropZoneFieldsSchema.extend({
+  // Storage key prefix; with local storage, a directory under STORAGE_PATH
+  prefix: z.string().min(1),
+  filePattern: z.string().min(1).default("*.csv"),
+  enabled: z.boolean().default(true),
+});
+
+export type CreateDropZoneRequest = z.infer<typeof CreateDropZoneRequestSchema>;
+
+// The prefix identifies a zone's files, so it cannot change
+export const UpdateDropZoneRequestSchema = DropZoneFieldsSchema.partial();
+
+export type UpdateDropZoneRequest = z.infer<typeof UpdateDropZoneRequestSchema>;
+
+export const DropZoneFileStatusSchema = z.enum([
+  "processing", // Claimed and moved to processing/; the ingestion is running
+  "processed", // Ingestion completed; moved to processed/
+  "failed", // Not ingested, or the ingestion failed; moved to failed/
+]);
+
+export type DropZoneFileStatus = z.infer<typeof DropZoneFileStatusSchema>;
+
 // =============================================================================
 // DECISION LOG (for explainability)
 // =============================================================================
@@ -235,7 +463,9 @@ export type DecisionType =
   | "row_rejected"
   | "row_flagged"
   | "default_applied"
-  | "human_resolved";
+  | "human_resolved"
+  | "template_applied"
+  | "template_saved";
 
 export const DecisionSchema = z.object({
   stage: z.enum(["parse", "infer", "map", "validate", "output"]),
@@ -293,6 +523,21 @@ export type ResolveAmbiguityRequest = z.infer<
   typeof ResolveAmbiguityRequestSchema
 >;
 
+export const MappingTemplateRequestSchema = z.object({
+  mappings: z
+    .array(
+      z.object({
+        sourceColumn: z.string().min(1),
+        targetColumn: z.string().nullable(),
+      })
+    )
+    .min(1),
+});
+
+export type MappingTemplateRequest = z.infer<
+  typeof MappingTemplateRequestSchema
+>;
+
 export const CreateSchemaRequestSchema = CanonicalSchemaSchema;
 
 export type CreateSchemaRequest = z.infer<typeof CreateSchemaRequestSchema>;
@@ -0,0 +1,44 @@
+import { Job, Worker } from "bullmq";
+import { config } from "../config.js";
+import { expireUploadSessions } from "../services/upload-sessions.js";
+import { logger } from "../utils/logger.js";
+import {
+  QUEUE_NAMES,
+  cleanupQueue,
+  redis,
+  type CleanupJobData,
+} from "./queues.js";
+
+const log = logger.child({ worker: "cleanup" });
+
+async function processCleanupJob(job: Job<CleanupJobData>): Promise<void> {
+  switch (job.data.task) {
+    case "expire_upload_sessions": {
+      const expired = await expireUploadSessions();
+      if (expired > 0) {
+        log.info({ expired }, "Expired abandoned upload sessions");
+      }
+      return;
+    }
+  }
+}
+
+// Upserting keeps a single schedule however many worker processes start
+await cleanupQueue.upsertJobScheduler(
+  "expire-upload-sessions",
+  { every: config.uploadCleanupIntervalMinutes * 60 * 1000 },
+  { name: "expire-upload-sessions", data: { task: "expire_upload_sessions" } }
+);
+
+export const cleanupWorker = new Worker<CleanupJobData>(
+  QUEUE_NAMES.CLEANUP,
+  processCleanupJob,
+  {
+    connection: redis,
+    concurrency: 1,
+  }
+);
+
+cleanupWorker.on("failed", (job, error) => {
+  log.error({ jobId: job?.id, task: job?.data.task, error }, "Cleanup job failed");
+});
@@ -0,0 +1,293 @@
+import { Job, Worker } from "bullmq";
+import { randomUUID } from "crypto";
+import { and, eq, inArray, isNull, lt } from "drizzle-orm";
+import { createReadStream } from "fs";
+import { basename } from "path";
+import { config } from "../config.js";
+import { db } from "../db/index.js";
+import {
+  dropZoneFiles,
+  dropZones,
+  ingestions,
+  schemas,
+  type DropZoneFileRow,
+  type DropZoneRow,
+} from "../db/schema.js";
+import { dropZoneFileKey, findDropZoneFiles } from "../services/drop-zones.js";
+import {
+  clearLocalCache,
+  fileExists,
+  generateRawFileKey,
+  getFilePath,
+  moveFile,
+  saveFileWithChecksum,
+  type StorageObject,
+  type StoredFile,
+} from "../services/storage.js";
+import type { DropZoneFileStatus } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+import {
+  QUEUE_NAMES,
+  dropZoneQueue,
+  redis,
+  startIngestionPipeline,
+  type DropZonePollJobData,
+} from "./queues.js";
+
+const log = logger.child({ worker: "drop-zone" });
+
+// Claiming and copying a file takes far less; a claim older than this with
+// no ingestion belonged to a poller that died mid-claim
+const STALE_CLAIM_MS = 60 * 60 * 1000;
+
+async function finishFile(
+  zone: DropZoneRow,
+  file: DropZoneFileRow,
+  status: Exclude<DropZoneFileStatus, "processing">,
+  error: string | null = null
+): Promise<void> {
+  const fileKey = dropZoneFileKey(zone.prefix, status, file.id, file.filename);
+  await moveFile(file.fileKey, fileKey);
+  await db
+    .update(dropZoneFiles)
+    .set({ status, fileKey, error, updatedAt: new Date() })
+    .where(eq(dropZoneFiles.id, file.id));
+}
+
+// A file that cannot be moved on is retried on the next poll; it must not
+// hold up the zone's other files
+async function tryFinishFile(
+  zone: DropZoneRow,
+  file: DropZoneFileRow,
+  status: Exclude<DropZoneFileStatus, "processing">,
+  error: string | null = null
+): Promise<void> {
+  try {
+    await finishFile(zone, file, status, error);
+  } catch (moveError) {
+    log.error({ zone: zone.name, fileId: file.id, error: moveError }, "Could not move drop zone file");
+  }
+}
+
+// Claims whose poller died before an ingestion was created are never
+// settled; fail them so the file can be dropped again
+async function recoverStaleClaims(zone: DropZoneRow, now: Date = new Date()): Promise<void> {
+  const stale = await db
+    .select()
+    .from(dropZoneFiles)
+    .where(
+      and(
+        eq(dropZoneFiles.zoneId, zone.id),
+        eq(dropZoneFiles.status, "processing"),
+        isNull(dropZoneFiles.ingestionId),
+        lt(dropZoneFiles.updatedAt, new Date(now.getTime() - STALE_CLAIM_MS))
+      )
+    );
+
+  for (const file of stale) {
+    const error = "Interrupted before an ingestion was created; drop the file again to retry";
+    const processingKey = dropZoneFileKey(zone.prefix, "processing", file.id, file.filename);
+    const current = (await fileExists(processingKey)) ? processingKey : file.fileKey;
+
+    if (await fileExists(current)) {
+      await tryFinishFile(zone, { ...file, fileKey: current }, "failed", error);
+    } else {
+      await db
+        .update(dropZoneFiles)
+        .set({ status: "failed", error, updatedAt: new Date() })
+        .where(eq(dropZoneFiles.id, file.id));
+    }
+  }
+}
+
+// Move files on once their ingestion has finished, or finished again after a retry
+async function settleClaimedFiles(zone: DropZoneRow): Promise<void> {
+  const finished = await db
+    .select({ file: dropZoneFiles, status: ingestions.status, error: ingestions.error })
+    .from(dropZoneFiles)
+    .innerJoin(ingestions, eq(ingestions.id, dropZoneFiles.ingestionId))
+    .where(
+      and(
+        eq(dropZoneFiles.zoneId, zone.id),
+        eq(dropZoneFiles.status, "processing"),
+        inArray(ingestions.status, ["complete", "failed", "cancelled"])
+      )
+    );
+
+  for (const { file, status, error } of finished) {
+    if (status === "complete") {
+      await tryFinishFile(zone, file, "processed");
+    } else {
+      await tryFinishFile(zone, file, "failed", error ?? `Ingestion ${status}`);
+    }
+  }
+
+  // Failed and cancelled ingestions can be retried; a file whose ingestion
+  // has since completed moves on from failed/
+  const recovered = await db
+    .select({ file: dropZoneFiles })
+    .from(dropZoneFiles)
+    .innerJoin(ingestions, eq(ingestions.id, dropZoneFiles.ingestionId))
+    .where(
+      and(
+        eq(dropZoneFiles.zoneId, zone.id),
+        eq(dropZoneFiles.status, "failed"),
+        eq(ingestions.status, "complete")
+      )
+    );
+
+  for (const { file } of recovered) {
+    await tryFinishFile(zone, file, "processed");
+  }
+}
+
+async function ingestFile(zone: DropZoneRow, object: StorageObject): Promise<void> {
+  const filename = basename(object.key);
+
+  // The unique constraint is the claim: only one poller gets the row
+  const [claimed] = await db
+    .insert(dropZoneFiles)
+    .values({
+      zoneId: zone.id,
+      filename,
+      sourceKey: object.key,
+      sourceModifiedAt: object.modifiedAt,
+      fileKey: object.key,
+      byteCount: object.byteCount,
+    })
+    .onConflictDoNothing()
+    .returning();
+  if (!claimed) return;
+
+  const processingKey = dropZoneFileKey(zone.prefix, "processing", claimed.id, filename);
+  try {
+    await moveFile(object.key, processingKey);
+  } catch (error) {
+    if (!(await fileExists(object.key))) {
+      // Removed from the zone before we got to it
+      await db.delete(dropZoneFiles).where(eq(dropZoneFiles.id, claimed.id));
+      return;
+    }
+    // Left in place; touching the file makes it eligible again
+    const message = error instanceof Error ? error.message : String(error);
+    await db
+      .update(dropZoneFiles)
+      .set({ status: "failed", error: `Could not claim file: ${message}`, updatedAt: new Date() })
+      .where(eq(dropZoneFiles.id, claimed.id));
+    return;
+  }
+  await db
+    .update(dropZoneFiles)
+    .set({ fileKey: processingKey, updatedAt: new Date() })
+    .where(eq(dropZoneFiles.id, claimed.id));
+  const file = { ...claimed, fileKey: processingKey };
+
+  try {
+    if (object.byteCount > config.maxFileSizeMb * 1024 * 1024) {
+      throw new Error(`File exceeds the ${config.maxFileSizeMb}MB upload limit`);
+    }
+
+    const [schema] = await db.select().from(schemas).where(eq(schemas.id, zone.schemaId));
+    if (!schema) {
+      throw new Error("Schema not found");
+    }
+
+    const ingestionId = randomUUID();
+    let rawFile: StoredFile;
+    try {
+      rawFile = await saveFileWithChecksum(
+        generateRawFileKey(ingestionId, filename),
+        createReadStream(await getFilePath(processingKey))
+      );
+    } finally {
+      await clearLocalCache(processingKey);
+    }
+
+    // Zone options override the schema's defaults one option at a time
+    const parseOptions = {
+      ...schema.definition.parseOptions,
+      ...zone.parseOptions,
+    };
+
+    await db.insert(ingestions).values({
+      id: ingestionId,
+      schemaId: zone.schemaId,
+      status: "pending",
+      rawFileKey: rawFile.key,
+      rawFileSha256: rawFile.sha256,
+      rawFileBytes: rawFile.byteCount,
+      originalFilename: filename,
+      parseOptions,
+    });
+    await db
+      .update(dropZoneFiles)
+      .set({ ingestionId, updatedAt: new Date() })
+      .where(eq(dropZoneFiles.id, file.id));
+
+    await startIngestionPipeline(ingestionId, rawFile.key, parseOptions);
+
+    log.info({ zone: zone.name, filename, ingestionId }, "Drop zone file ingested");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn({ zone: zone.name, filename, error: message }, "Drop zone file failed");
+    await tryFinishFile(zone, file, "failed", message);
+  }
+}
+
+async function pollZone(zone: DropZoneRow): Promise<void> {
+  // Claimed files finish even while a zone is disabled
+  await settleClaimedFiles(zone);
+  await recoverStaleClaims(zone);
+  if (!zone.enabled) return;
+
+  const files = await findDropZoneFiles(zone);
+  for (const file of files) {
+    try {
+      await ingestFile(zone, file);
+    } catch (error) {
+      log.error({ zone: zone.name, key: file.key, error }, "Drop zone file could not be claimed");
+    }
+  }
+
+  await db
+    .update(dropZones)
+    .set({ lastPolledAt: new Date() })
+    .where(eq(dropZones.id, zone.id));
+}
+
+async function processDropZoneJob(job: Job<DropZonePollJobData>): Promise<void> {
+  const { zoneId } = job.data;
+  const zones = await db
+    .select()
+    .from(dropZones)
+    .where(zoneId ? eq(dropZones.id, zoneId) : undefined);
+
+  // One broken zone must not hold up the others
+  for (const zone of zones) {
+    try {
+      await pollZone(zone);
+    } catch (error) {
+      log.error({ zone: zone.name, error }, "Drop zone poll failed");
+    }
+  }
+}
+
+// Upserting keeps a single schedule however many worker processes start
+await dropZoneQueue.upsertJobScheduler(
+  "poll-drop-zones",
+  { every: config.dropZonePollSeconds * 1000 },
+  { name: "poll-drop-zones", data: {}, opts: { attempts: 1 } }
+);
+
+export const dropZoneWorker = new Worker<DropZonePollJobData>(
+  QUEUE_NAMES.DROP_ZONES,
+  processDropZoneJob,
+  {
+    connection: redis,
+    concurrency: 1,
+  }
+);
+
+dropZoneWorker.on("failed", (job, error) => {
+  log.error({ jobId: job?.id, zoneId: job?.data.zoneId, error }, "Drop zone job failed");
+});
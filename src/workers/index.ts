@@ -16,9 +16,12 @@ async function startWorkers() {
     await import("./infer.worker.js");
     await import("./map.worker.js");
     await import("./validate.worker.js");
+    await import("./validate-chunk.worker.js");
     await import("./output.worker.js");
+    await import("./cleanup.worker.js");
+    await import("./drop-zone.worker.js");
 
-    log.info("All workers started (parse, infer, map, validate, output)");
+    log.info("All workers started (parse, infer, map, validate, validate-chunk, output, cleanup, drop-zone)");
   } catch (err) {
     log.error({ err }, "Worker startup failed");
     await closeQueues();
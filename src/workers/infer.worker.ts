@@ -1,9 +1,10 @@
 import { Job, Worker } from "bullmq";
 import { and, eq } from "drizzle-orm";
+import { config } from "../config.js";
 import { db } from "../db/index.js";
 import { decisionLogs, ingestions } from "../db/schema.js";
-import { parseCSV, toInferenceInput } from "../services/csv-parser.js";
-import { getFilePath } from "../services/storage.js";
+import { enterStage, whileNotCancelled } from "../services/ingestion-control.js";
+import { readRowStoreSample } from "../services/row-store.js";
 import { inferSchema } from "../services/type-inference.js";
 import { logger } from "../utils/logger.js";
 import { QUEUE_NAMES, mapQueue, redis, type InferJobData } from "./queues.js";
@@ -15,11 +16,11 @@ async function processInferJob(job: Job<InferJobData>): Promise<void> {
 
   log.info({ ingestionId }, "Starting infer job");
 
-  // Update status to inferring
-  await db
-    .update(ingestions)
-    .set({ status: "inferring", updatedAt: new Date() })
-    .where(eq(ingestions.id, ingestionId));
+  // Update status to inferring, unless the ingestion was cancelled while queued
+  if (!(await enterStage(ingestionId, "inferring"))) {
+    log.info({ ingestionId }, "Ingestion cancelled; skipping infer job");
+    return;
+  }
 
   try {
     // Clear any existing decision logs for this stage (idempotency for retries)
@@ -32,7 +33,7 @@ async function processInferJob(job: Job<InferJobData>): Promise<void> {
         )
       );
 
-    // Get ingestion record to retrieve rawFileKey and schemaId
+    // Get ingestion record to retrieve the row store and schemaId
     const [ingestion] = await db
       .select()
       .from(ingestions)
@@ -43,15 +44,32 @@ async function processInferJob(job: Job<InferJobData>): Promise<void> {
       throw new Error(`Ingestion not found: ${ingestionId}`);
     }
 
-    // Get file path from storage
-    const filePath = await getFilePath(ingestion.rawFileKey);
+    if (!ingestion.rowStore) {
+      throw new Error(`Parsed rows not found for ingestion: ${ingestionId}`);
+    }
+
+    // Sample the parsed rows for type inference
+    const rowStore = ingestion.rowStore;
+    const rows = await readRowStoreSample(rowStore, config.inferenceSampleSize);
 
-    // Re-parse CSV to get samples for type inference
-    const parseResult = await parseCSV(filePath);
-    const inferenceInput = toInferenceInput(parseResult);
+    // Infer schema from samples; malformed records were quarantined by the parse stage
+    const inferredSchema = inferSchema({
+      columns: rowStore.columns,
+      rows,
+      totalRowCount: rowStore.totalRowCount,
+      parseErrors: ingestion.parseErrorCount ?? 0,
+    });
 
-    // Infer schema from samples
-    const inferredSchema = inferSchema(inferenceInput);
+    // Keep the file's own header text for columns the parse stage renamed
+    const originalNames = new Map(
+      (rowStore.headerChanges ?? []).map((change) => [change.normalized, change.original])
+    );
+    for (const column of inferredSchema.columns) {
+      const originalName = originalNames.get(column.name);
+      if (originalName !== undefined) {
+        column.originalName = originalName;
+      }
+    }
 
     log.info(
       {
@@ -95,7 +113,7 @@ async function processInferJob(job: Job<InferJobData>): Promise<void> {
         status: "mapping",
         updatedAt: new Date(),
       })
-      .where(eq(ingestions.id, ingestionId));
+      .where(whileNotCancelled(ingestionId));
 
     // Trigger next stage (map)
     await mapQueue.add(
@@ -116,7 +134,7 @@ async function processInferJob(job: Job<InferJobData>): Promise<void> {
         error: error instanceof Error ? error.message : "Unknown infer error",
         updatedAt: new Date(),
       })
-      .where(eq(ingestions.id, ingestionId));
+      .where(whileNotCancelled(ingestionId));
 
     throw error;
   }
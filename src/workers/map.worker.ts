@@ -1,33 +1,50 @@
 import { Job, Worker } from "bullmq";
-import { and, eq } from "drizzle-orm";
+import { and, eq, ne } from "drizzle-orm";
+import { config } from "../config.js";
 import { db } from "../db/index.js";
 import { decisionLogs, ingestions, schemas } from "../db/schema.js";
+import {
+  buildAiMappingRequest,
+  createAiMappingProvider,
+  mergeAiSuggestions,
+} from "../services/ai-mapping.js";
 import { applyHumanDecisions, mapColumns } from "../services/column-mapping.js";
+import { enterStage, whileNotCancelled } from "../services/ingestion-control.js";
+import {
+  applyMappingTemplate,
+  findMappingTemplate,
+  fingerprintColumns,
+  incrementTemplateUsage,
+} from "../services/mapping-templates.js";
 import type { MappingResult } from "../types/index.js";
 import { logger } from "../utils/logger.js";
 import { QUEUE_NAMES, redis, validateQueue, type MapJobData } from "./queues.js";
 
 const log = logger.child({ worker: "map" });
 
+const aiProvider = createAiMappingProvider();
+
 async function processMapJob(job: Job<MapJobData>): Promise<void> {
   const { ingestionId, schemaId, resumeWithDecisions } = job.data;
 
   log.info({ ingestionId, schemaId, hasDecisions: !!resumeWithDecisions }, "Starting map job");
 
-  // Update status to mapping
-  await db
-    .update(ingestions)
-    .set({ status: "mapping", updatedAt: new Date() })
-    .where(eq(ingestions.id, ingestionId));
+  // Update status to mapping, unless the ingestion was cancelled while queued
+  if (!(await enterStage(ingestionId, "mapping"))) {
+    log.info({ ingestionId }, "Ingestion cancelled; skipping map job");
+    return;
+  }
 
   try {
-    // Clear any existing decision logs for this stage (idempotency for retries)
+    // Clear any existing decision logs for this stage (idempotency for retries).
+    // Templates are saved by the resolve endpoint, not a job, so that log stays
     await db
       .delete(decisionLogs)
       .where(
         and(
           eq(decisionLogs.ingestionId, ingestionId),
-          eq(decisionLogs.stage, "map")
+          eq(decisionLogs.stage, "map"),
+          ne(decisionLogs.decisionType, "template_saved")
         )
       );
 
@@ -117,11 +134,105 @@ async function processMapJob(job: Job<MapJobData>): Promise<void> {
           });
         }
       } else {
-        // Perform initial column mapping
-        mappingResult = mapColumns({
-          inferredSchema: ingestion.inferredSchema,
-          canonicalSchema,
-        });
+        // Look for a remembered template for this exact header set
+        const sourceFingerprint = fingerprintColumns(
+          ingestion.inferredSchema.columns.map((c) => c.name)
+        );
+        const template = await findMappingTemplate(schemaId, sourceFingerprint);
+        let settledSources = new Set<string>();
+
+        if (template) {
+          const applied = applyMappingTemplate({
+            inferredSchema: ingestion.inferredSchema,
+            canonicalSchema,
+            templateMappings: template.mappings,
+          });
+          mappingResult = applied.mappingResult;
+          settledSources = applied.appliedSources;
+
+          await incrementTemplateUsage(template.id);
+
+          log.info(
+            {
+              ingestionId,
+              templateId: template.id,
+              appliedCount: applied.appliedCount,
+              fullyCovered: applied.fullyCovered,
+            },
+            "Applied mapping template"
+          );
+
+          await db.insert(decisionLogs).values({
+            ingestionId,
+            stage: "map",
+            decisionType: "template_applied",
+            details: {
+              templateId: template.id,
+              sourceFingerprint,
+              appliedCount: applied.appliedCount,
+              fullyCovered: applied.fullyCovered,
+              usageCount: (template.usageCount ?? 0) + 1,
+            },
+          });
+        } else {
+          // Perform initial column mapping
+          mappingResult = mapColumns({
+            inferredSchema: ingestion.inferredSchema,
+            canonicalSchema,
+          });
+        }
+
+        // Ask the AI provider about whatever heuristics left unsettled. The
+        // template's decisions are not up for a second opinion, so a file it
+        // fully covers makes no request at all
+        const aiRequest = aiProvider
+          ? buildAiMappingRequest(
+              mappingResult,
+              ingestion.inferredSchema,
+              canonicalSchema,
+              config.mappingConfidenceThreshold,
+              settledSources
+            )
+          : null;
+
+        if (aiProvider && aiRequest) {
+          try {
+            const aiResponse = await aiProvider.suggest(aiRequest);
+            mappingResult = mergeAiSuggestions(
+              mappingResult,
+              aiRequest,
+              aiResponse.suggestions,
+              canonicalSchema
+            );
+
+            await db.insert(decisionLogs).values({
+              ingestionId,
+              stage: "map",
+              decisionType: "ai_mapping_suggested",
+              details: {
+                provider: aiResponse.provider,
+                model: aiResponse.model,
+                sourceColumns: aiRequest.sourceColumns.map((c) => c.name),
+                prompt: aiResponse.prompt,
+                response: aiResponse.rawResponse,
+              },
+            });
+          } catch (error) {
+            // AI is advisory; fall back to the heuristic result
+            log.warn({ ingestionId, error }, "AI mapping provider failed");
+
+            await db.insert(decisionLogs).values({
+              ingestionId,
+              stage: "map",
+              decisionType: "ai_mapping_failed",
+              details: {
+                provider: aiProvider.name,
+                sourceColumns: aiRequest.sourceColumns.map((c) => c.name),
+                error: error instanceof Error ? error.message : String(error),
+              },
+            });
+          }
+        }
 
         log.info(
           {
@@ -144,6 +255,7 @@ async function processMapJob(job: Job<MapJobData>): Promise<void> {
               targetColumn: mapping.targetColumn,
               method: mapping.method,
               confidence: mapping.confidence,
+              signals: mapping.signals,
               alternatives: mapping.alternativeMappings,
             },
           });
@@ -158,7 +270,7 @@ async function processMapJob(job: Job<MapJobData>): Promise<void> {
         mappingResult,
         updatedAt: new Date(),
       })
-      .where(eq(ingestions.id, ingestionId));
+      .where(whileNotCancelled(ingestionId));
 
     // Check if we need human review
     if (mappingResult.requiresReview) {
@@ -173,7 +285,7 @@ async function processMapJob(job: Job<MapJobData>): Promise<void> {
       await db
         .update(ingestions)
         .set({ status: "awaiting_review", updatedAt: new Date() })
-        .where(eq(ingestions.id, ingestionId));
+        .where(whileNotCancelled(ingestionId));
 
       // Don't proceed - wait for human resolution via API
       return;
@@ -183,7 +295,7 @@ async function processMapJob(job: Job<MapJobData>): Promise<void> {
     await db
       .update(ingestions)
       .set({ status: "validating", updatedAt: new Date() })
-      .where(eq(ingestions.id, ingestionId));
+      .where(whileNotCancelled(ingestionId));
 
     await validateQueue.add(
       `validate-${ingestionId}`,
@@ -200,7 +312,7 @@ async function processMapJob(job: Job<MapJobData>): Promise<void> {
         error: error instanceof Error ? error.message : "Unknown map error",
         updatedAt: new Date(),
       })
-      .where(eq(ingestions.id, ingestionId));
+      .where(whileNotCancelled(ingestionId));
 
     throw error;
   }
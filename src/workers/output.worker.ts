@@ -1,144 +1,61 @@
 import { Job, Worker } from "bullmq";
-import { stringify } from "csv-stringify/sync";
+import { stringify } from "csv-stringify";
 import { and, eq } from "drizzle-orm";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
 import { db } from "../db/index.js";
 import { decisionLogs, ingestions, schemas } from "../db/schema.js";
-import { parseCSV } from "../services/csv-parser.js";
+import { serializeValue } from "../services/coercion.js";
+import { enterStage, whileNotCancelled } from "../services/ingestion-control.js";
+import { readRowStore } from "../services/row-store.js";
 import {
   clearLocalCache,
   generateOutputFileKey,
-  getFilePath,
   saveFile,
 } from "../services/storage.js";
-import type {
-  CanonicalSchema,
-  ColumnDefinition,
-  ColumnType,
-  MappingResult,
-  RowError,
-} from "../types/index.js";
+import { UniqueValueTracker } from "../services/unique-tracker.js";
+import { resolveRowAction, validateRow } from "../services/validation.js";
+import type { CanonicalSchema, MappingResult } from "../types/index.js";
 import { logger } from "../utils/logger.js";
 import { QUEUE_NAMES, redis, type OutputJobData } from "./queues.js";
 
 const log = logger.child({ worker: "output" });
 
-// =============================================================================
-// VALUE COERCION (simplified from validate worker)
-// =============================================================================
-
-function coerceForOutput(
-  value: unknown,
-  targetType: ColumnType,
-  colDef: ColumnDefinition
-): unknown {
-  if (value === null || value === undefined || value === "") {
-    if (colDef.default !== undefined) {
-      return colDef.default;
-    }
-    return null;
-  }
-
-  const str = String(value).trim();
-
-  switch (targetType) {
-    case "integer": {
-      const num = parseInt(str, 10);
-      return isNaN(num) ? null : num;
-    }
-
-    case "float": {
-      const num = parseFloat(str);
-      return isNaN(num) ? null : num;
-    }
-
-    case "boolean": {
-      const lower = str.toLowerCase();
-      if (["true", "1", "yes", "y", "on"].includes(lower)) return true;
-      if (["false", "0", "no", "n", "off"].includes(lower)) return false;
-      return null;
-    }
-
-    case "date": {
-      const date = new Date(str);
-      return isNaN(date.getTime()) ? str : date.toISOString().split("T")[0];
-    }
-
-    case "datetime": {
-      const date = new Date(str);
-      return isNaN(date.getTime()) ? str : date.toISOString();
-    }
-
-    case "email":
-      return str.toLowerCase();
-
-    case "uuid":
-      return str.toLowerCase();
-
-    default:
-      return str;
-  }
-}
-
 // =============================================================================
 // ROW TRANSFORMATION
 // =============================================================================
 
+// Output writes exactly what validation produced for each row, rendered
+// through the shared serializer so the file round-trips through coercion
 function transformRow(
   row: Record<string, unknown>,
   mappingResult: MappingResult,
   canonicalSchema: CanonicalSchema | null,
-  rejectedRows: Set<number>,
-  rowError: RowError | undefined,
+  uniqueValues: UniqueValueTracker,
   rowNumber: number
-): Record<string, unknown> | null {
-  // Skip rejected rows
-  if (rejectedRows.has(rowNumber)) {
-    return null;
-  }
-
-  const mappedData: Record<string, unknown> = {};
+): Record<string, string> | null {
+  // Validation has to see every row, rejected or not, to track uniqueness
+  const validated = validateRow(
+    row,
+    rowNumber,
+    mappingResult,
+    canonicalSchema,
+    uniqueValues
+  );
 
-  // Build target->source map
-  const targetToSource = new Map<string, string>();
-  for (const mapping of mappingResult.mappings) {
-    if (mapping.targetColumn) {
-      targetToSource.set(mapping.targetColumn, mapping.sourceColumn);
-    }
+  // Skip rejected rows (same errors, same policy as the validate stage)
+  if (
+    validated.errors.length > 0 &&
+    resolveRowAction(validated.errors, rowNumber, canonicalSchema) === "rejected"
+  ) {
+    return null;
   }
 
-  if (canonicalSchema) {
-    const errorCols = new Set(rowError?.errors.map((e) => e.column) || []);
-    const isCoerced = rowError?.action === "coerced";
-
-    // Apply schema-based transformation
-    for (const colDef of canonicalSchema.columns) {
-      const sourceColumn = targetToSource.get(colDef.name);
-      const rawValue = sourceColumn ? row[sourceColumn] : undefined;
-
-      if (
-        isCoerced &&
-        errorCols.has(colDef.name) &&
-        colDef.default !== undefined
-      ) {
-        mappedData[colDef.name] = colDef.default;
-      } else {
-        mappedData[colDef.name] = coerceForOutput(
-          rawValue,
-          colDef.type,
-          colDef
-        );
-      }
-    }
-  } else {
-    // Passthrough mapping
-    for (const mapping of mappingResult.mappings) {
-      if (mapping.targetColumn) {
-        mappedData[mapping.targetColumn] = row[mapping.sourceColumn];
-      }
-    }
+  const output: Record<string, string> = {};
+  for (const [column, value] of Object.entries(validated.data)) {
+    output[column] = serializeValue(value, validated.provenance[column]?.type);
   }
-
-  return mappedData;
+  return output;
 }
 
 // =============================================================================
@@ -150,11 +67,11 @@ async function processOutputJob(job: Job<OutputJobData>): Promise<void> {
 
   log.info({ ingestionId }, "Starting output job");
 
-  // Update status to outputting
-  await db
-    .update(ingestions)
-    .set({ status: "outputting", updatedAt: new Date() })
-    .where(eq(ingestions.id, ingestionId));
+  // Update status to outputting, unless the ingestion was cancelled while queued
+  if (!(await enterStage(ingestionId, "outputting"))) {
+    log.info({ ingestionId }, "Ingestion cancelled; skipping output job");
+    return;
+  }
 
   try {
     // Clear any existing decision logs for this stage (idempotency for retries)
@@ -203,59 +120,56 @@ async function processOutputJob(job: Job<OutputJobData>): Promise<void> {
       .where(eq(decisionLogs.ingestionId, ingestionId))
       .orderBy(decisionLogs.createdAt);
 
-    // Build set of rejected rows from validation result
-    const rejectedRows = new Set<number>();
-    const rowErrorsMap = new Map<number, RowError>();
-    if (ingestion.validationResult) {
-      for (const rowError of ingestion.validationResult.errors) {
-        rowErrorsMap.set(rowError.row, rowError);
-        if (rowError.action === "rejected") {
-          rejectedRows.add(rowError.row);
-        }
-      }
+    if (!ingestion.rowStore) {
+      throw new Error(`Parsed rows not found for ingestion: ${ingestionId}`);
     }
 
-    // Re-parse CSV and transform rows
-    // NOTE: For large files, consider streaming or consuming validated data from previous
-    // stage to avoid re-parsing. Current architecture prioritizes simplicity over memory efficiency.
-    const filePath = await getFilePath(ingestion.rawFileKey);
-    const parseResult = await parseCSV(filePath, { sampleSize: Infinity });
-
-    const outputRows: Record<string, unknown>[] = [];
-
-    for (let i = 0; i < parseResult.rows.length; i++) {
-      const rowNumber = i + 1;
-      const rowError = rowErrorsMap.get(rowNumber);
-      const transformedRow = transformRow(
-        parseResult.rows[i]!,
-        ingestion.mappingResult!,
-        canonicalSchema,
-        rejectedRows,
-        rowError,
-        rowNumber
-      );
-
-      if (transformedRow !== null) {
-        outputRows.push(transformedRow);
-      }
-    }
+    const rowStore = ingestion.rowStore;
+    const mappingResult = ingestion.mappingResult;
 
     // Determine output columns
     const outputColumns = canonicalSchema
       ? canonicalSchema.columns.map((c) => c.name)
-      : ingestion.mappingResult.mappings
+      : mappingResult.mappings
           .filter((m) => m.targetColumn)
           .map((m) => m.targetColumn as string);
 
-    // Generate CSV output
-    const csvOutput = stringify(outputRows, {
+    // Stream rows from the row store through the transform and stringifier
+    // straight into storage
+    let outputRowCount = 0;
+    let rejectedRowCount = 0;
+    const uniqueValues = new UniqueValueTracker();
+
+    async function* transformedRows() {
+      for await (const { row: rowNumber, data: row } of readRowStore(rowStore)) {
+        const transformedRow = transformRow(
+          row,
+          mappingResult,
+          canonicalSchema,
+          uniqueValues,
+          rowNumber
+        );
+
+        if (transformedRow === null) {
+          rejectedRowCount++;
+          continue;
+        }
+        outputRowCount++;
+        yield transformedRow;
+      }
+    }
+
+    const csvKey = generateOutputFileKey(ingestionId, "csv");
+    const csvStream = stringify({
       header: true,
       columns: outputColumns,
     });
 
     // Save clean CSV
-    const csvKey = generateOutputFileKey(ingestionId, "csv");
-    await saveFile(csvKey, Buffer.from(csvOutput, "utf-8"));
+    await Promise.all([
+      pipeline(Readable.from(transformedRows()), csvStream),
+      saveFile(csvKey, csvStream),
+    ]);
 
     // Generate and save JSON output (currently disabled)
     /*
@@ -267,9 +181,9 @@ async function processOutputJob(job: Job<OutputJobData>): Promise<void> {
           schemaName: canonicalSchema?.name,
           schemaVersion: canonicalSchema?.version,
           processedAt: new Date().toISOString(),
-          totalRows: parseResult.totalRowCount,
-          outputRows: outputRows.length,
-          rejectedRows: rejectedRows.size,
+          totalRows: ingestion.rowStore.totalRowCount,
+          outputRows: outputRowCount,
+          rejectedRows: rejectedRowCount,
         },
         columns: outputColumns,
         data: outputRows,
@@ -281,19 +195,8 @@ async function processOutputJob(job: Job<OutputJobData>): Promise<void> {
     await saveFile(jsonKey, Buffer.from(jsonOutput, "utf-8"));
     */
 
-    // Generate and save errors report
-    const errorsOutput = JSON.stringify(
-      {
-        ingestionId,
-        validationResult: ingestion.validationResult,
-        errorsByColumn: ingestion.validationResult?.errorsByColumn || {},
-        errors: ingestion.validationResult?.errors || [],
-      },
-      null,
-      2
-    );
-    const errorsKey = `output/${ingestionId}/errors.json`;
-    await saveFile(errorsKey, Buffer.from(errorsOutput, "utf-8"));
+    // Every row error was spilled to storage by the validate stage
+    const errorsKey = ingestion.validationResult?.errorsFileKey ?? null;
 
     // Generate and save decision log
     const decisionsOutput = JSON.stringify(
@@ -328,8 +231,8 @@ async function processOutputJob(job: Job<OutputJobData>): Promise<void> {
     log.info(
       {
         ingestionId,
-        outputRows: outputRows.length,
-        rejectedRows: rejectedRows.size,
+        outputRows: outputRowCount,
+        rejectedRows: rejectedRowCount,
         csvKey,
       },
       "Output generation complete"
@@ -345,8 +248,8 @@ async function processOutputJob(job: Job<OutputJobData>): Promise<void> {
         errorsKey,
         decisionsKey,
         schemaKey,
-        outputRowCount: outputRows.length,
-        rejectedRowCount: rejectedRows.size,
+        outputRowCount,
+        rejectedRowCount,
       },
     });
 
@@ -359,7 +262,7 @@ async function processOutputJob(job: Job<OutputJobData>): Promise<void> {
         completedAt: new Date(),
         updatedAt: new Date(),
       })
-      .where(eq(ingestions.id, ingestionId));
+      .where(whileNotCancelled(ingestionId));
 
     // Cleanup local cache for raw file and output file
     await clearLocalCache(ingestion.rawFileKey);
@@ -376,7 +279,7 @@ async function processOutputJob(job: Job<OutputJobData>): Promise<void> {
         error: error instanceof Error ? error.message : "Unknown output error",
         updatedAt: new Date(),
       })
-      .where(eq(ingestions.id, ingestionId));
+      .where(whileNotCancelled(ingestionId));
 
     throw error;
   }
@@ -1,64 +1,393 @@
 import { Job, Worker } from "bullmq";
-import { eq } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { and, eq } from "drizzle-orm";
+import { unlink } from "fs/promises";
+import { config } from "../config.js";
 import { db } from "../db/index.js";
 import { decisionLogs, ingestions } from "../db/schema.js";
-import { parseCSV } from "../services/csv-parser.js";
-import { getFilePath } from "../services/storage.js";
+import {
+  ParseErrorThresholdError,
+  parseErrorRatio,
+  type ParseError,
+} from "../services/csv-parser.js";
+import {
+  decompressInput,
+  detectCompression,
+  ZipArchive,
+} from "../services/compression.js";
+import { readFileSample } from "../services/encoding.js";
+import { enterStage, whileNotCancelled } from "../services/ingestion-control.js";
+import { openInput } from "../services/input-adapter.js";
+import { writeRowStore } from "../services/row-store.js";
+import { NdjsonSpillFile } from "../services/spill-file.js";
+import {
+  clearLocalCache,
+  deleteFile,
+  generateQuarantineFileKey,
+  generateRawFileKey,
+  getFilePath,
+  saveFileWithChecksum,
+  type StoredFile,
+} from "../services/storage.js";
+import type { ParseOptions } from "../types/index.js";
 import { logger } from "../utils/logger.js";
-import { QUEUE_NAMES, inferQueue, redis, type ParseJobData } from "./queues.js";
+import {
+  QUEUE_NAMES,
+  inferQueue,
+  redis,
+  startIngestionPipeline,
+  type ParseJobData,
+} from "./queues.js";
 
 const log = logger.child({ worker: "parse" });
 
-async function processParseJob(job: Job<ParseJobData>): Promise<void> {
-  const { ingestionId, rawFileKey } = job.data;
+// Dropped footer rows kept in the decision log, counting from the end
+const MAX_LOGGED_FOOTER_ROWS = 10;
 
-  log.info({ ingestionId, rawFileKey }, "Starting parse job");
+// Quarantined records kept in the decision log, counting from the start
+const MAX_LOGGED_PARSE_ERRORS = 10;
+
+/**
+ * Pass records through, moving the parse errors reported meanwhile into the
+ * quarantine file so a file full of bad lines never piles up in memory.
+ */
+async function* quarantiningErrors(
+  records: AsyncIterable<Record<string, unknown>>,
+  pending: ParseError[],
+  quarantine: NdjsonSpillFile
+): AsyncGenerator<Record<string, unknown>> {
+  const drain = async () => {
+    for (const error of pending.splice(0)) {
+      await quarantine.write(error);
+    }
+  };
+
+  for await (const record of records) {
+    await drain();
+    yield record;
+  }
+  await drain();
+}
+
+/**
+ * Store each data file of a zip upload as a child ingestion of its own and
+ * start its pipeline. The parent only records the split and completes. A
+ * retried job reuses the children an earlier attempt recorded.
+ */
+async function splitArchive(
+  ingestionId: string,
+  filePath: string,
+  parseOptions: ParseOptions
+): Promise<void> {
+  const [parent] = await db
+    .select({ schemaId: ingestions.schemaId })
+    .from(ingestions)
+    .where(eq(ingestions.id, ingestionId));
+
+  const { splitArchive: _, ...childOptions } = parseOptions;
+  const archive = await ZipArchive.open(filePath);
+
+  let children = await db
+    .select({
+      id: ingestions.id,
+      entry: ingestions.originalFilename,
+      rawFileKey: ingestions.rawFileKey,
+      status: ingestions.status,
+    })
+    .from(ingestions)
+    .where(eq(ingestions.parentId, ingestionId));
+
+  if (children.length === 0) {
+    const stored: { id: string; entry: string; file: StoredFile }[] = [];
+
+    try {
+      if (archive.entries.length === 0) {
+        throw new Error("Archive holds no data files");
+      }
+
+      // Store every entry before starting any child, so a bad entry fails the
+      // parent without leaving half the batch running
+      for (const entry of archive.entries) {
+        const id = randomUUID();
+        const file = await saveFileWithChecksum(
+          generateRawFileKey(id, entry.name),
+          await archive.openEntry(entry.name)
+        );
+        stored.push({ id, entry: entry.name, file });
+      }
+
+      await db.insert(ingestions).values(
+        stored.map((child) => ({
+          id: child.id,
+          schemaId: parent?.schemaId ?? null,
+          parentId: ingestionId,
+          status: "pending" as const,
+          rawFileKey: child.file.key,
+          rawFileSha256: child.file.sha256,
+          rawFileBytes: child.file.byteCount,
+          originalFilename: child.entry,
+          parseOptions: childOptions,
+        }))
+      );
+    } catch (error) {
+      await Promise.all(
+        stored.map((child) => deleteFile(child.file.key).catch(() => undefined))
+      );
+      throw error;
+    } finally {
+      archive.close();
+    }
+
+    children = stored.map((child) => ({
+      id: child.id,
+      entry: child.entry,
+      rawFileKey: child.file.key,
+      status: "pending" as const,
+    }));
+  } else {
+    archive.close();
+  }
+
+  // Children that already left pending were started by an earlier attempt
+  for (const child of children.filter((c) => c.status === "pending")) {
+    await startIngestionPipeline(child.id, child.rawFileKey, childOptions);
+  }
+
+  log.info({ ingestionId, children: children.length }, "Archive split into child ingestions");
+
+  await db.insert(decisionLogs).values({
+    ingestionId,
+    stage: "parse",
+    decisionType: "archive_split",
+    details: {
+      entryCount: children.length,
+      entries: archive.entries,
+      children: children.map(({ id, entry }) => ({ id, entry })),
+    },
+  });
 
-  // Update status to parsing
   await db
     .update(ingestions)
-    .set({ status: "parsing", updatedAt: new Date() })
-    .where(eq(ingestions.id, ingestionId));
+    .set({ status: "complete", completedAt: new Date(), updatedAt: new Date() })
+    .where(whileNotCancelled(ingestionId));
+}
+
+async function processParseJob(job: Job<ParseJobData>): Promise<void> {
+  const { ingestionId, rawFileKey, parseOptions = {} } = job.data;
+
+  log.info({ ingestionId, rawFileKey }, "Starting parse job");
+
+  // Update status to parsing, unless the ingestion was cancelled while queued
+  if (!(await enterStage(ingestionId, "parsing"))) {
+    log.info({ ingestionId }, "Ingestion cancelled; skipping parse job");
+    return;
+  }
+
+  const quarantine = new NdjsonSpillFile(generateQuarantineFileKey(ingestionId));
+  const tempPaths: string[] = [];
 
   try {
+    // Clear any existing decision logs for this stage (idempotency for retries)
+    await db
+      .delete(decisionLogs)
+      .where(
+        and(
+          eq(decisionLogs.ingestionId, ingestionId),
+          eq(decisionLogs.stage, "parse")
+        )
+      );
+
     // Get file path from storage
-    const filePath = await getFilePath(rawFileKey);
+    const rawPath = await getFilePath(rawFileKey);
 
-    // Parse CSV
-    const parseResult = await parseCSV(filePath);
+    if (parseOptions.splitArchive && detectCompression(await readFileSample(rawPath)) === "zip") {
+      await splitArchive(ingestionId, rawPath, parseOptions);
+      await clearLocalCache(rawFileKey);
+      return;
+    }
+
+    // Compressed uploads are parsed from a decompressed local copy
+    const decompressed = await decompressInput(rawPath);
+    tempPaths.push(...decompressed.tempPaths);
+    const filePath = decompressed.path;
+
+    if (decompressed.layers.length > 0) {
+      log.info({ ingestionId, layers: decompressed.layers }, "Input decompressed");
+      await db.insert(decisionLogs).values({
+        ingestionId,
+        stage: "parse",
+        decisionType: "input_decompressed",
+        details: { layers: decompressed.layers },
+      });
+    }
+
+    // Malformed records are skipped and quarantined rather than failing the parse
+    const pendingErrors: ParseError[] = [];
+    const loggedErrors: ParseError[] = [];
+    const onParseError = (error: ParseError) => {
+      pendingErrors.push(error);
+      if (loggedErrors.length < MAX_LOGGED_PARSE_ERRORS) loggedErrors.push(error);
+    };
+
+    // CSV, spreadsheets and JSON all arrive as the same record stream
+    const { format, records, header, dialect, encoding, sheet, headerChanges, trailingRows } =
+      await openInput(filePath, { ...parseOptions, onParseError });
+
+    // Stream the file once into the row store read by later stages
+    const rowStore = {
+      ...(await writeRowStore(
+        ingestionId,
+        quarantiningErrors(records, pendingErrors, quarantine)
+      )),
+      ...(headerChanges.length > 0 && { headerChanges }),
+    };
+    await clearLocalCache(rawFileKey);
+
+    const parseErrorCount = quarantine.recordCount;
+    const quarantineFileKey = await quarantine.commit();
 
     log.info(
       {
         ingestionId,
-        columns: parseResult.columns.length,
-        rows: parseResult.totalRowCount,
-        errors: parseResult.parseErrors.length,
+        columns: rowStore.columns.length,
+        rows: rowStore.totalRowCount,
+        chunks: rowStore.chunks.length,
+        format,
+        ...(encoding && { encoding: encoding.encoding }),
+        ...(dialect && { delimiter: dialect.delimiter }),
+        ...(sheet && { sheet: sheet.name }),
+        ...(header && { headerRow: header.headerRow }),
+        footerRows: trailingRows.length,
+        parseErrors: parseErrorCount,
       },
       "Parse complete"
     );
 
+    if (dialect?.ambiguous) {
+      log.warn(
+        { ingestionId, dialect },
+        "Delimiter detection was ambiguous; pass a delimiter to override"
+      );
+    }
+
     // Log decision
     await db.insert(decisionLogs).values({
       ingestionId,
       stage: "parse",
       decisionType: "parse_complete",
       details: {
-        columnCount: parseResult.columns.length,
-        rowCount: parseResult.totalRowCount,
-        parseErrors: parseResult.parseErrors.length,
-        detectedDelimiter: parseResult.detectedDelimiter,
+        columnCount: rowStore.columns.length,
+        rowCount: rowStore.totalRowCount,
+        chunkCount: rowStore.chunks.length,
+        format,
+        ...(dialect && {
+          detectedDelimiter: dialect.delimiter,
+          detectedQuote: dialect.quote,
+          detectedEscape: dialect.escape,
+          delimiterConfidence: dialect.confidence,
+          delimiterSource: dialect.source,
+          delimiterAmbiguous: dialect.ambiguous,
+          runnerUpDelimiter: dialect.runnerUp,
+        }),
+        ...(encoding && {
+          detectedEncoding: encoding.encoding,
+          encodingConfidence: encoding.confidence,
+          encodingSource: encoding.source,
+          bom: encoding.bom,
+        }),
+        parseOptions,
       },
     });
 
-    // Update ingestion with row count
+    if (sheet) {
+      await db.insert(decisionLogs).values({
+        ingestionId,
+        stage: "parse",
+        decisionType: "sheet_selected",
+        details: { format, ...sheet },
+      });
+    }
+
+    if (header) {
+      await db.insert(decisionLogs).values({
+        ingestionId,
+        stage: "parse",
+        decisionType: "header_row_detected",
+        details: {
+          headerRow: header.headerRow,
+          confidence: header.confidence,
+          source: header.source,
+          skippedLeadingLines: header.headerRow,
+        },
+      });
+    }
+
+    // One decision per renamed header, so mapping review can explain it
+    if (headerChanges.length > 0) {
+      await db.insert(decisionLogs).values(
+        headerChanges.map((change) => ({
+          ingestionId,
+          stage: "parse" as const,
+          decisionType: "header_normalized",
+          details: { ...change },
+        }))
+      );
+    }
+
+    if (trailingRows.length > 0) {
+      await db.insert(decisionLogs).values({
+        ingestionId,
+        stage: "parse",
+        decisionType: "footer_rows_skipped",
+        details: {
+          count: trailingRows.length,
+          skipTrailingRows: parseOptions.skipTrailingRows ?? 0,
+          rows: trailingRows.slice(-MAX_LOGGED_FOOTER_ROWS),
+        },
+      });
+    }
+
+    if (parseErrorCount > 0) {
+      const ratio = parseErrorRatio(parseErrorCount, rowStore.totalRowCount);
+      const maxErrorRatio = parseOptions.maxErrorRatio ?? config.parseMaxErrorRatio;
+
+      await db.insert(decisionLogs).values({
+        ingestionId,
+        stage: "parse",
+        decisionType: "parse_errors_quarantined",
+        details: {
+          count: parseErrorCount,
+          ratio,
+          maxErrorRatio,
+          quarantineFileKey,
+          errors: loggedErrors,
+        },
+      });
+
+      // Keep the quarantine reachable even when the ingestion fails over it
+      await db
+        .update(ingestions)
+        .set({ parseErrorCount, quarantineFileKey, updatedAt: new Date() })
+        .where(whileNotCancelled(ingestionId));
+
+      if (ratio > maxErrorRatio) {
+        throw new ParseErrorThresholdError(parseErrorCount, ratio, maxErrorRatio);
+      }
+    }
+
+    // Update ingestion with row count and row store location
     await db
       .update(ingestions)
       .set({
-        rowCount: parseResult.totalRowCount,
+        rowStore,
+        dialect,
+        rowCount: rowStore.totalRowCount,
+        parseErrorCount,
+        quarantineFileKey,
         status: "inferring",
         updatedAt: new Date(),
       })
-      .where(eq(ingestions.id, ingestionId));
+      .where(whileNotCancelled(ingestionId));
 
     // Trigger next stage
     await inferQueue.add(
@@ -69,6 +398,8 @@ async function processParseJob(job: Job<ParseJobData>): Promise<void> {
   } catch (error) {
     log.error({ ingestionId, error }, "Parse job failed");
 
+    await quarantine.discard();
+
     await db
       .update(ingestions)
       .set({
@@ -76,9 +407,11 @@ async function processParseJob(job: Job<ParseJobData>): Promise<void> {
         error: error instanceof Error ? error.message : "Unknown parse error",
         updatedAt: new Date(),
       })
-      .where(eq(ingestions.id, ingestionId));
+      .where(whileNotCancelled(ingestionId));
 
     throw error;
+  } finally {
+    await Promise.all(tempPaths.map((path) => unlink(path).catch(() => undefined)));
   }
 }
 
@@ -1,6 +1,7 @@
-import { Job, Queue, QueueEvents } from "bullmq";
+import { FlowProducer, Job, Queue, QueueEvents } from "bullmq";
 import { Redis } from "ioredis";
 import { config } from "../config.js";
+import type { ParseOptions, PipelineStage } from "../types/index.js";
 
 // =============================================================================
 // REDIS CONNECTION
@@ -23,7 +24,10 @@ export const QUEUE_NAMES = {
   INFER: "ingestion.infer",
   MAP: "ingestion.map",
   VALIDATE: "ingestion.validate",
+  VALIDATE_CHUNK: "ingestion.validate-chunk",
   OUTPUT: "ingestion.output",
+  CLEANUP: "maintenance.cleanup",
+  DROP_ZONES: "maintenance.drop-zones",
 } as const;
 
 // =============================================================================
@@ -33,6 +37,7 @@ export const QUEUE_NAMES = {
 export interface ParseJobData {
   ingestionId: string;
   rawFileKey: string;
+  parseOptions?: ParseOptions;
 }
 
 export interface InferJobData {
@@ -50,32 +55,49 @@ export interface MapJobData {
 
 export interface ValidateJobData {
   ingestionId: string;
+  // Set on the parent of a chunked validation flow once its chunks are done
+  step?: "merge";
+}
+
+export interface ValidateChunkJobData {
+  ingestionId: string;
+  chunkIndex: number;
 }
 
 export interface OutputJobData {
   ingestionId: string;
 }
 
+export interface CleanupJobData {
+  task: "expire_upload_sessions";
+}
+
+export interface DropZonePollJobData {
+  zoneId?: string; // Poll just this zone; every zone when unset
+}
+
 // =============================================================================
 // QUEUE INSTANCES
 // =============================================================================
 
+const defaultJobOptions = {
+  attempts: 3,
+  backoff: {
+    type: "exponential",
+    delay: 1000,
+  },
+  removeOnComplete: {
+    count: 100,
+    age: 24 * 60 * 60, // 24 hours
+  },
+  removeOnFail: {
+    count: 500,
+  },
+};
+
 const defaultQueueOptions = {
   connection: redis,
-  defaultJobOptions: {
-    attempts: 3,
-    backoff: {
-      type: "exponential",
-      delay: 1000,
-    },
-    removeOnComplete: {
-      count: 100,
-      age: 24 * 60 * 60, // 24 hours
-    },
-    removeOnFail: {
-      count: 500,
-    },
-  },
+  defaultJobOptions,
 };
 
 export const parseQueue = new Queue<ParseJobData>(
@@ -99,6 +121,21 @@ export const outputQueue = new Queue<OutputJobData>(
   defaultQueueOptions
 );
 
+// Periodic housekeeping, scheduled by the cleanup worker
+export const cleanupQueue = new Queue<CleanupJobData>(
+  QUEUE_NAMES.CLEANUP,
+  defaultQueueOptions
+);
+
+// Scheduled polls of every zone, plus on-demand polls of one
+export const dropZoneQueue = new Queue<DropZonePollJobData>(
+  QUEUE_NAMES.DROP_ZONES,
+  defaultQueueOptions
+);
+
+// Fans validation out into chunk jobs (flows don't use queue defaults)
+export const flowProducer = new FlowProducer({ connection: redis });
+
 // =============================================================================
 // QUEUE EVENTS (for monitoring)
 // =============================================================================
@@ -125,18 +162,127 @@ export const outputQueueEvents = new QueueEvents(QUEUE_NAMES.OUTPUT, {
 
 export async function startIngestionPipeline(
   ingestionId: string,
-  rawFileKey: string
+  rawFileKey: string,
+  parseOptions?: ParseOptions
 ): Promise<Job<ParseJobData>> {
   // Start with parse job - each worker will trigger the next stage
   return parseQueue.add(
     `parse-${ingestionId}`,
-    { ingestionId, rawFileKey },
+    { ingestionId, rawFileKey, ...(parseOptions && { parseOptions }) },
     {
       jobId: `parse-${ingestionId}`,
     }
   );
 }
 
+/**
+ * Validate each row-store chunk in its own job, then merge the results in a
+ * parent validate job that runs once every chunk has finished.
+ */
+export async function startChunkedValidation(
+  ingestionId: string,
+  chunkCount: number
+): Promise<void> {
+  await flowProducer.add({
+    name: `validate-merge-${ingestionId}`,
+    queueName: QUEUE_NAMES.VALIDATE,
+    data: { ingestionId, step: "merge" } satisfies ValidateJobData,
+    opts: { ...defaultJobOptions, jobId: `validate-merge-${ingestionId}` },
+    children: Array.from({ length: chunkCount }, (_, chunkIndex) => ({
+      name: `validate-chunk-${ingestionId}-${chunkIndex}`,
+      queueName: QUEUE_NAMES.VALIDATE_CHUNK,
+      data: { ingestionId, chunkIndex } satisfies ValidateChunkJobData,
+      opts: {
+        ...defaultJobOptions,
+        jobId: `validate-chunk-${ingestionId}-${chunkIndex}`,
+        failParentOnFailure: true,
+      },
+    })),
+  });
+}
+
+/**
+ * Queue the job for one stage, as the stage before it would have. Stage jobs
+ * have fixed ids, so clear finished ones with removeIngestionJobs first.
+ */
+export async function enqueueStage(
+  ingestion: {
+    id: string;
+    schemaId: string | null;
+    rawFileKey: string;
+    parseOptions: ParseOptions | null;
+  },
+  stage: PipelineStage
+): Promise<void> {
+  const ingestionId = ingestion.id;
+  switch (stage) {
+    case "parse":
+      await startIngestionPipeline(
+        ingestionId,
+        ingestion.rawFileKey,
+        ingestion.parseOptions ?? undefined
+      );
+      return;
+    case "infer":
+      await inferQueue.add(`infer-${ingestionId}`, { ingestionId }, { jobId: `infer-${ingestionId}` });
+      return;
+    case "map":
+      await mapQueue.add(
+        `map-${ingestionId}`,
+        { ingestionId, schemaId: ingestion.schemaId },
+        { jobId: `map-${ingestionId}` }
+      );
+      return;
+    case "validate":
+      await validateQueue.add(
+        `validate-${ingestionId}`,
+        { ingestionId },
+        { jobId: `validate-${ingestionId}` }
+      );
+      return;
+    case "output":
+      await outputQueue.add(
+        `output-${ingestionId}`,
+        { ingestionId },
+        { jobId: `output-${ingestionId}` }
+      );
+      return;
+  }
+}
+
+// Every stage job an ingestion can have; chunk jobs hang off the merge job
+function ingestionJobs(ingestionId: string): Array<[Queue, string]> {
+  return [
+    [parseQueue, `parse-${ingestionId}`],
+    [inferQueue, `infer-${ingestionId}`],
+    [mapQueue, `map-${ingestionId}`],
+    [mapQueue, `map-resume-${ingestionId}`],
+    [validateQueue, `validate-${ingestionId}`],
+    [validateQueue, `validate-merge-${ingestionId}`],
+    [outputQueue, `output-${ingestionId}`],
+  ];
+}
+
+/**
+ * Remove every job of an ingestion that is not running: queued, delayed for
+ * a retry, or finished. Running jobs are locked and stay; workers check for
+ * cancellation themselves.
+ */
+export async function removeIngestionJobs(ingestionId: string): Promise<void> {
+  for (const [queue, jobId] of ingestionJobs(ingestionId)) {
+    await queue.remove(jobId, { removeChildren: true });
+  }
+}
+
+/** Whether a stage, or a validation chunk, of the ingestion is running. */
+export async function hasRunningJobs(ingestionId: string): Promise<boolean> {
+  for (const [queue, jobId] of ingestionJobs(ingestionId)) {
+    const state = await queue.getJobState(jobId);
+    if (state === "active" || state === "waiting-children") return true;
+  }
+  return false;
+}
+
 // =============================================================================
 // CLEANUP
 // =============================================================================
@@ -148,11 +294,14 @@ export async function closeQueues(): Promise<void> {
     mapQueue.close(),
     validateQueue.close(),
     outputQueue.close(),
+    cleanupQueue.close(),
+    dropZoneQueue.close(),
     parseQueueEvents.close(),
     inferQueueEvents.close(),
     mapQueueEvents.close(),
     validateQueueEvents.close(),
     outputQueueEvents.close(),
+    flowProducer.close(),
     redis.quit(),
     redisSubscriber.quit(),
   ]);
@@ -0,0 +1,159 @@
+import { Job, Worker } from "bullmq";
+import { eq } from "drizzle-orm";
+import { config } from "../config.js";
+import { db } from "../db/index.js";
+import { decisionLogs, ingestions, schemas } from "../db/schema.js";
+import { whileNotCancelled } from "../services/ingestion-control.js";
+import { readRowStoreChunk } from "../services/row-store.js";
+import { NdjsonSpillFile } from "../services/spill-file.js";
+import { generateValidationChunkKey } from "../services/storage.js";
+import { UniqueValueTracker } from "../services/unique-tracker.js";
+import {
+  validateRows,
+  type UniqueValueRecord,
+  type ValidationChunkResult,
+} from "../services/validation-runner.js";
+import type { CanonicalSchema } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+import { QUEUE_NAMES, redis, type ValidateChunkJobData } from "./queues.js";
+
+const log = logger.child({ worker: "validate-chunk" });
+
+// =============================================================================
+// CHUNK VALIDATION
+// =============================================================================
+
+async function processValidateChunkJob(
+  job: Job<ValidateChunkJobData>
+): Promise<ValidationChunkResult> {
+  const { ingestionId, chunkIndex } = job.data;
+
+  log.info({ ingestionId, chunkIndex }, "Starting validate chunk job");
+
+  const errorsFile = new NdjsonSpillFile(
+    generateValidationChunkKey(ingestionId, chunkIndex, "errors")
+  );
+  const uniqueValuesFile = new NdjsonSpillFile(
+    generateValidationChunkKey(ingestionId, chunkIndex, "unique-values")
+  );
+
+  try {
+    const [ingestion] = await db
+      .select()
+      .from(ingestions)
+      .where(eq(ingestions.id, ingestionId))
+      .limit(1);
+
+    if (!ingestion) {
+      throw new Error(`Ingestion not found: ${ingestionId}`);
+    }
+
+    if (!ingestion.mappingResult) {
+      throw new Error(`Mapping result not found for ingestion: ${ingestionId}`);
+    }
+
+    const chunk = ingestion.rowStore?.chunks[chunkIndex];
+    if (!chunk) {
+      throw new Error(`Row store chunk ${chunkIndex} not found for ingestion: ${ingestionId}`);
+    }
+
+    let canonicalSchema: CanonicalSchema | null = null;
+    if (ingestion.schemaId) {
+      const [schemaRow] = await db
+        .select()
+        .from(schemas)
+        .where(eq(schemas.id, ingestion.schemaId))
+        .limit(1);
+
+      if (schemaRow) {
+        canonicalSchema = schemaRow.definition;
+      }
+    }
+
+    // Duplicates within the chunk are caught here; first occurrences are
+    // written out so the merge step can check them across chunks
+    const tally = await validateRows({
+      rows: readRowStoreChunk(chunk),
+      mappingResult: ingestion.mappingResult,
+      canonicalSchema,
+      uniqueValues: new UniqueValueTracker({ recordAdditions: true }),
+      onRowError: (rowError) => errorsFile.write(rowError),
+      onUniqueValues: async (row, additions) => {
+        for (const { column, value } of additions) {
+          const record: UniqueValueRecord = { row, column, value };
+          await uniqueValuesFile.write(record);
+        }
+      },
+      onProgress: (rowsValidated) =>
+        job.updateProgress({ chunkIndex, rowsValidated, rowCount: chunk.rowCount }),
+    });
+
+    const result: ValidationChunkResult = {
+      chunkIndex,
+      tally,
+      errorsFileKey: await errorsFile.commit(),
+      uniqueValuesFileKey: await uniqueValuesFile.commit(),
+    };
+
+    await job.updateProgress({
+      chunkIndex,
+      rowsValidated: chunk.rowCount,
+      rowCount: chunk.rowCount,
+    });
+
+    await db.insert(decisionLogs).values({
+      ingestionId,
+      stage: "validate",
+      decisionType: "validation_chunk_complete",
+      details: {
+        chunkIndex,
+        firstRow: chunk.firstRow,
+        rowCount: chunk.rowCount,
+        validRowCount: tally.validRowCount,
+        invalidRowCount: tally.invalidRowCount,
+      },
+    });
+
+    return result;
+  } catch (error) {
+    log.error({ ingestionId, chunkIndex, error }, "Validate chunk job failed");
+
+    await errorsFile.discard();
+    await uniqueValuesFile.discard();
+
+    await db
+      .update(ingestions)
+      .set({
+        status: "failed",
+        error: error instanceof Error ? error.message : "Unknown validate error",
+        updatedAt: new Date(),
+      })
+      .where(whileNotCancelled(ingestionId));
+
+    throw error;
+  }
+}
+
+export const validateChunkWorker = new Worker<ValidateChunkJobData, ValidationChunkResult>(
+  QUEUE_NAMES.VALIDATE_CHUNK,
+  processValidateChunkJob,
+  {
+    connection: redis,
+    concurrency: config.validationChunkConcurrency,
+  }
+);
+
+validateChunkWorker.on("completed", (job) => {
+  log.info(
+    {
+      jobId: job.id,
+      ingestionId: job.data.ingestionId,
+      chunkIndex: job.data.chunkIndex,
+    },
+    "Validate chunk job completed"
+  );
+});
+
+validateChunkWorker.on("failed", (job, error) => {
+  log.error({ jobId: job?.id, error }, "Validate chunk job failed");
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LocalStubMappingProvider,
+  buildAiMappingRequest,
+  mergeAiSuggestions,
+} from '../../src/services/ai-mapping.js';
+import { applyMappingTemplate } from '../../src/services/mapping-templates.js';
+import type {
+  CanonicalSchema,
+  ColumnType,
+  InferredSchema,
+  MappingResult,
+} from '../../src/types/index.js';
+
+function column(name: string, type: ColumnType, aliases: string[] = []) {
+  return {
+    name,
+    type,
+    required: false,
+    nullable: true,
+    aliases,
+    validators: [],
+    strict: false,
+  };
+}
+
+const canonical: CanonicalSchema = {
+  name: 'orders',
+  version: '1.0.0',
+  errorPolicy: 'flag',
+  strict: false,
+  columns: [
+    column('order_id', 'integer'),
+    column('customer_email', 'email'),
+    column('order_total', 'float'),
+  ],
+};
+
+const inferred: InferredSchema = {
+  rowCount: 3,
+  parseErrors: 0,
+  columns: [
+    { name: 'order_id', inferredType: 'integer', sampleValues: ['1'] },
+    { name: 'buyer email address', inferredType: 'email', sampleValues: ['a@b.co'] },
+    { name: 'Total', inferredType: 'float', sampleValues: ['9.99'] },
+  ].map((c) => ({
+    ...c,
+    inferredType: c.inferredType as ColumnType,
+    confidence: 1,
+    nullable: false,
+    uniqueRatio: 1,
+    nullCount: 0,
+    totalCount: 3,
+  })),
+};
+
+const heuristic: MappingResult = {
+  mappings: [
+    { sourceColumn: 'order_id', targetColumn: 'order_id', method: 'exact', confidence: 1 },
+    { sourceColumn: 'buyer email address', targetColumn: null, method: 'unmapped', confidence: 0 },
+    { sourceColumn: 'Total', targetColumn: 'order_total', method: 'fuzzy', confidence: 0.55 },
+  ],
+  requiresReview: true,
+  ambiguousMappings: [],
+};
+
+describe('buildAiMappingRequest', () => {
+  it('should only ask about unmapped and low-confidence columns', () => {
+    const request = buildAiMappingRequest(heuristic, inferred, canonical, 0.8);
+
+    expect(request?.sourceColumns.map((c) => c.name)).toEqual(['buyer email address', 'Total']);
+    expect(request?.targetColumns.map((c) => c.name)).toEqual(['customer_email', 'order_total']);
+    expect(request?.sourceColumns[0]?.sampleValues).toEqual(['a@b.co']);
+  });
+
+  it('should return null when everything is confidently mapped', () => {
+    const confident: MappingResult = {
+      ...heuristic,
+      mappings: heuristic.mappings.slice(0, 1),
+    };
+    expect(buildAiMappingRequest(confident, inferred, canonical, 0.8)).toBeNull();
+  });
+});
+
+describe('LocalStubMappingProvider', () => {
+  it('should produce deterministic ranked suggestions', async () => {
+    const provider = new LocalStubMappingProvider();
+    const request = buildAiMappingRequest(heuristic, inferred, canonical, 0.8)!;
+
+    const first = await provider.suggest(request);
+    const second = await provider.suggest(request);
+
+    expect(first.suggestions).toEqual(second.suggestions);
+    expect(first.suggestions.find((s) => s.sourceColumn === 'buyer email address')).toMatchObject({
+      targetColumn: 'customer_email',
+    });
+  });
+});
+
+describe('mergeAiSuggestions', () => {
+  it('should mark adopted suggestions with method "ai"', async () => {
+    const request = buildAiMappingRequest(heuristic, inferred, canonical, 0.8)!;
+    const result = mergeAiSuggestions(
+      heuristic,
+      request,
+      [
+        { sourceColumn: 'buyer email address', targetColumn: 'customer_email', confidence: 0.92 },
+        { sourceColumn: 'Total', targetColumn: 'order_total', confidence: 0.9 },
+      ],
+      canonical,
+      0.8
+    );
+
+    expect(result.mappings[1]).toMatchObject({ targetColumn: 'customer_email', method: 'ai' });
+    expect(result.mappings[2]).toMatchObject({ targetColumn: 'order_total', method: 'ai' });
+    expect(result.requiresReview).toBe(false);
+  });
+
+  it('should ignore targets outside the request and keep stronger heuristics', () => {
+    const request = buildAiMappingRequest(heuristic, inferred, canonical, 0.8)!;
+    const result = mergeAiSuggestions(
+      heuristic,
+      request,
+      [
+        { sourceColumn: 'buyer email address', targetColumn: 'order_id', confidence: 0.99 },
+        { sourceColumn: 'Total', targetColumn: 'order_total', confidence: 0.4 },
+      ],
+      canonical,
+      0.8
+    );
+
+    expect(result.mappings[1]?.method).toBe('unmapped');
+    expect(result.mappings[2]).toMatchObject({ method: 'fuzzy', confidence: 0.55 });
+  });
+
+  it('should keep contested columns the provider was not asked about', () => {
+    const contested: MappingResult = {
+      ...heuristic,
+      ambiguousMappings: [heuristic.mappings[0]!],
+    };
+    const request = buildAiMappingRequest(contested, inferred, canonical, 0.8)!;
+    const result = mergeAiSuggestions(
+      contested,
+      request,
+      [
+        { sourceColumn: 'buyer email address', targetColumn: 'customer_email', confidence: 0.92 },
+        { sourceColumn: 'Total', targetColumn: 'order_total', confidence: 0.9 },
+      ],
+      canonical,
+      0.8
+    );
+
+    expect(request.sourceColumns.map((c) => c.name)).not.toContain('order_id');
+    expect(result.ambiguousMappings.map((m) => m.sourceColumn)).toEqual(['order_id']);
+    expect(result.requiresReview).toBe(true);
+  });
+});
+
+describe('AI mapping after a template', () => {
+  const strict: CanonicalSchema = { ...canonical, strict: true };
+
+  it('should make no request when the template covers every column', () => {
+    const applied = applyMappingTemplate({
+      inferredSchema: inferred,
+      canonicalSchema: strict,
+      templateMappings: [
+        { sourceColumn: 'order_id', targetColumn: 'order_id' },
+        { sourceColumn: 'buyer email address', targetColumn: null },
+        { sourceColumn: 'Total', targetColumn: 'order_total' },
+      ],
+    });
+
+    const request = buildAiMappingRequest(
+      applied.mappingResult,
+      inferred,
+      strict,
+      0.8,
+      applied.appliedSources
+    );
+
+    expect(request).toBeNull();
+    expect(applied.mappingResult.requiresReview).toBe(false);
+  });
+
+  it('should not let the provider override a column the template ignores', async () => {
+    const applied = applyMappingTemplate({
+      inferredSchema: inferred,
+      canonicalSchema: canonical,
+      templateMappings: [
+        { sourceColumn: 'order_id', targetColumn: 'order_id' },
+        { sourceColumn: 'buyer email address', targetColumn: null },
+      ],
+    });
+
+    const request = buildAiMappingRequest(
+      applied.mappingResult,
+      inferred,
+      canonical,
+      0.8,
+      applied.appliedSources
+    );
+    expect(request?.sourceColumns.map((c) => c.name)).toEqual(['Total']);
+
+    const response = await new LocalStubMappingProvider().suggest(request!);
+    const result = mergeAiSuggestions(
+      applied.mappingResult,
+      request!,
+      response.suggestions,
+      canonical,
+      0.8
+    );
+
+    expect(result.mappings[1]).toMatchObject({
+      sourceColumn: 'buyer email address',
+      targetColumn: null,
+      method: 'unmapped',
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { coerceValue, serializeValue } from '../../src/services/coercion.js';
+import { UniqueValueTracker } from '../../src/services/unique-tracker.js';
+import { validateRow } from '../../src/services/validation.js';
+import type {
+  CanonicalSchema,
+  ColumnDefinition,
+  ColumnType,
+  MappingResult,
+} from '../../src/types/index.js';
+
+function column(type: ColumnType, extra: Partial<ColumnDefinition> = {}): ColumnDefinition {
+  return {
+    name: 'value',
+    type,
+    required: false,
+    nullable: true,
+    aliases: [],
+    validators: [],
+    strict: false,
+    ...extra,
+  };
+}
+
+function schemaFor(colDef: ColumnDefinition): CanonicalSchema {
+  return {
+    name: 'test',
+    version: '1.0.0',
+    columns: [colDef],
+    errorPolicy: 'flag',
+    strict: false,
+  };
+}
+
+const mapping: MappingResult = {
+  mappings: [{ sourceColumn: 'raw', targetColumn: 'value', method: 'exact', confidence: 1 }],
+  requiresReview: false,
+  ambiguousMappings: [],
+};
+
+// Raw cells that look like each type, plus arbitrary noise
+const rawCells: Record<ColumnType, fc.Arbitrary<string>> = {
+  string: fc.string(),
+  integer: fc.oneof(fc.integer().map(String), fc.string()),
+  float: fc.oneof(
+    fc.double({ noNaN: true, noDefaultInfinity: true }).map(String),
+    fc.integer().map((n) => `${n}.50`),
+    fc.string()
+  ),
+  boolean: fc.oneof(
+    fc.constantFrom('true', 'FALSE', 'Yes', 'n', '1', '0', 'on', 'off'),
+    fc.string()
+  ),
+  date: fc.oneof(
+    fc
+      .date({ min: new Date('1900-01-01'), max: new Date('2100-12-31'), noInvalidDate: true })
+      .map((d) => d.toISOString().slice(0, 10)),
+    fc.constantFrom('3/15/2024', '2024/3/15', '02-29-2023'),
+    fc.string()
+  ),
+  datetime: fc.oneof(
+    fc
+      .date({ min: new Date('1900-01-01'), max: new Date('2100-12-31'), noInvalidDate: true })
+      .map((d) => d.toISOString()),
+    fc.string()
+  ),
+  email: fc.oneof(fc.emailAddress().map((e) => e.toUpperCase()), fc.string()),
+  uuid: fc.oneof(fc.uuid().map((u) => u.toUpperCase()), fc.string()),
+  url: fc.oneof(fc.webUrl(), fc.string()),
+  json: fc.oneof(fc.json(), fc.string()),
+};
+
+const TYPES = Object.keys(rawCells) as ColumnType[];
+
+function expectTypeOf(value: unknown, type: ColumnType): void {
+  switch (type) {
+    case 'integer':
+      expect(Number.isSafeInteger(value)).toBe(true);
+      break;
+    case 'float':
+      expect(Number.isFinite(value)).toBe(true);
+      break;
+    case 'boolean':
+      expect(typeof value).toBe('boolean');
+      break;
+    case 'date':
+      expect(value).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+      break;
+    case 'datetime':
+      expect(Number.isNaN(Date.parse(String(value)))).toBe(false);
+      break;
+    case 'json':
+      break;
+    default:
+      expect(typeof value).toBe('string');
+  }
+}
+
+describe('coerceValue', () => {
+  it('should keep empty cells null for nullable columns', () => {
+    const result = coerceValue('', column('integer', { default: 0 }));
+    expect(result.value).toBeNull();
+    expect(result.provenance.rule).toBe('null');
+  });
+
+  it('should fill defaults for non-nullable columns', () => {
+    const result = coerceValue('', column('integer', { nullable: false, default: 0 }));
+    expect(result.value).toBe(0);
+    expect(result.provenance.rule).toBe('default');
+  });
+
+  it('should reject partially numeric integers', () => {
+    expect(coerceValue('12abc', column('integer')).success).toBe(false);
+    expect(coerceValue('1.5', column('integer')).success).toBe(false);
+    expect(coerceValue('1.0', column('integer')).value).toBe(1);
+  });
+
+  it('should record the matched date format', () => {
+    const result = coerceValue('15/03/2024', column('date', { dateFormat: 'DD/MM/YYYY' }));
+    expect(result.value).toBe('2024-03-15');
+    expect(result.provenance).toMatchObject({ rule: 'converted', format: 'DD/MM/YYYY' });
+  });
+
+  it('should accept nested values from JSON input as they are', () => {
+    const result = coerceValue({ city: 'Oslo' }, column('json'));
+    expect(result.value).toEqual({ city: 'Oslo' });
+    expect(result.provenance.changed).toBe(false);
+  });
+
+  for (const type of TYPES) {
+    describe(`${type} columns`, () => {
+      it('should only produce values of the column type', () => {
+        fc.assert(
+          fc.property(rawCells[type], (raw) => {
+            const result = coerceValue(raw, column(type));
+            if (result.success && result.value !== null) {
+              expectTypeOf(result.value, type);
+            }
+          })
+        );
+      });
+
+      it('should write cells that coerce back to themselves', () => {
+        fc.assert(
+          fc.property(rawCells[type], (raw) => {
+            const first = coerceValue(raw, column(type));
+            fc.pre(first.success);
+
+            const written = serializeValue(first.value, type);
+            const second = coerceValue(written, column(type));
+            expect(second.success).toBe(true);
+            expect(serializeValue(second.value, type)).toBe(written);
+          })
+        );
+      });
+
+      it('should validate and output the same value', () => {
+        fc.assert(
+          fc.property(rawCells[type], (raw) => {
+            const colDef = column(type);
+            const validated = validateRow(
+              { raw },
+              1,
+              mapping,
+              schemaFor(colDef),
+              new UniqueValueTracker()
+            );
+            const coerced = coerceValue(raw, colDef);
+
+            expect(validated.errors.length === 0).toBe(coerced.success);
+            if (coerced.success) {
+              expect(validated.data.value).toEqual(coerced.value);
+              expect(validated.provenance.value).toEqual(coerced.provenance);
+            }
+          })
+        );
+      });
+    });
+  }
+});
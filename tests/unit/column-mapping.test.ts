@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import { mapColumns, solveAssignment } from '../../src/services/column-mapping.js';
+import type { CanonicalSchema, ColumnType, InferredSchema } from '../../src/types/index.js';
+
+function inferred(names: string[]): InferredSchema {
+  return profiled(names.map((name) => ({ name })));
+}
+
+function profiled(
+  columns: Array<{ name: string; type?: ColumnType; samples?: string[] }>
+): InferredSchema {
+  return {
+    columns: columns.map((c) => ({
+      name: c.name,
+      inferredType: c.type ?? 'string',
+      confidence: 1,
+      nullable: false,
+      uniqueRatio: 1,
+      sampleValues: c.samples ?? [],
+      nullCount: 0,
+      totalCount: 10,
+    })),
+    rowCount: 10,
+    parseErrors: 0,
+  };
+}
+
+function schema(
+  columns: Array<{
+    name: string;
+    type?: ColumnType;
+    aliases?: string[];
+    validators?: CanonicalSchema['columns'][number]['validators'];
+  }>,
+  strict = false
+): CanonicalSchema {
+  return {
+    name: 'test',
+    version: '1.0.0',
+    errorPolicy: 'flag',
+    strict,
+    columns: columns.map((c) => ({
+      name: c.name,
+      type: c.type ?? 'string',
+      required: false,
+      nullable: true,
+      aliases: c.aliases ?? [],
+      validators: c.validators ?? [],
+      strict: false,
+    })),
+  };
+}
+
+describe('solveAssignment', () => {
+  it('should find the maximum-weight assignment', () => {
+    // Greedy row-by-row would pick (0,0) then (1,1) for a total of 1.0
+    const weights = [
+      [0.9, 0.8],
+      [0.85, 0.1],
+    ];
+    expect(solveAssignment(weights)).toEqual([1, 0]);
+  });
+
+  it('should handle more rows than columns', () => {
+    const assignment = solveAssignment([[0.2], [0.9], [0.5]]);
+    expect(assignment).toEqual([-1, 0, -1]);
+  });
+
+  it('should handle empty input', () => {
+    expect(solveAssignment([])).toEqual([]);
+  });
+});
+
+describe('mapColumns', () => {
+  it('should map exact matches', () => {
+    const result = mapColumns({
+      inferredSchema: inferred(['email', 'name']),
+      canonicalSchema: schema([{ name: 'email' }, { name: 'name' }]),
+      confidenceThreshold: 0.8,
+    });
+
+    expect(result.mappings.map((m) => [m.targetColumn, m.method])).toEqual([
+      ['email', 'exact'],
+      ['name', 'exact'],
+    ]);
+    expect(result.requiresReview).toBe(false);
+  });
+
+  it('should not let an early weak match steal a later exact match', () => {
+    const result = mapColumns({
+      inferredSchema: inferred(['cust_id', 'customer_id']),
+      canonicalSchema: schema([{ name: 'customer_id' }, { name: 'customer_ref', aliases: ['cust_ref'] }]),
+      confidenceThreshold: 0.8,
+    });
+
+    const byName = Object.fromEntries(result.mappings.map((m) => [m.sourceColumn, m]));
+    expect(byName['customer_id']).toMatchObject({ targetColumn: 'customer_id', method: 'exact' });
+    expect(byName['cust_id']?.targetColumn).not.toBe('customer_id');
+  });
+
+  it('should prefer alias matches over fuzzy ones regardless of column order', () => {
+    const result = mapColumns({
+      inferredSchema: inferred(['e_mail_addr', 'mail']),
+      canonicalSchema: schema([{ name: 'email', aliases: ['mail'] }]),
+      confidenceThreshold: 0.8,
+    });
+
+    expect(result.mappings[1]).toMatchObject({ targetColumn: 'email', method: 'alias' });
+    expect(result.mappings[0]?.method).toBe('unmapped');
+  });
+
+  it('should surface near-ties as ambiguous', () => {
+    const result = mapColumns({
+      inferredSchema: inferred(['contact']),
+      canonicalSchema: schema([
+        { name: 'email', aliases: ['contact'] },
+        { name: 'phone', aliases: ['Contact'] },
+      ]),
+      confidenceThreshold: 0.8,
+    });
+
+    expect(result.requiresReview).toBe(true);
+    expect(result.ambiguousMappings[0]?.alternativeMappings?.length).toBe(1);
+  });
+
+  it('should flag unmapped columns for review in strict schemas', () => {
+    const result = mapColumns({
+      inferredSchema: inferred(['zzz']),
+      canonicalSchema: schema([{ name: 'email' }], true),
+      confidenceThreshold: 0.8,
+    });
+
+    expect(result.mappings[0]?.method).toBe('unmapped');
+    expect(result.requiresReview).toBe(true);
+  });
+});
+
+describe('mapColumns with value profiles', () => {
+  it('should map opaque headers by their values', () => {
+    const result = mapColumns({
+      inferredSchema: profiled([
+        { name: 'col7', type: 'email', samples: ['a@x.io', 'b@y.com', 'c@z.org'] },
+        {
+          name: 'field_a',
+          type: 'uuid',
+          samples: ['123e4567-e89b-12d3-a456-426614174000', '550e8400-e29b-41d4-a716-446655440000'],
+        },
+      ]),
+      canonicalSchema: schema([
+        { name: 'email', type: 'email' },
+        { name: 'external_id', type: 'uuid' },
+      ]),
+      confidenceThreshold: 0.8,
+    });
+
+    expect(result.mappings[0]).toMatchObject({ targetColumn: 'email', method: 'content' });
+    expect(result.mappings[1]).toMatchObject({ targetColumn: 'external_id', method: 'content' });
+    // Content-only matches are never confident enough to skip review
+    expect(result.requiresReview).toBe(true);
+  });
+
+  it('should use enum validators as a content signal', () => {
+    const result = mapColumns({
+      inferredSchema: profiled([{ name: 'x1', samples: ['open', 'closed', 'Open'] }]),
+      canonicalSchema: schema([
+        { name: 'status', validators: [{ type: 'enum', values: ['open', 'closed'] }] },
+      ]),
+      confidenceThreshold: 0.8,
+    });
+
+    expect(result.mappings[0]).toMatchObject({ targetColumn: 'status', method: 'content' });
+    expect(result.mappings[0]?.signals?.map((s) => s.signal)).toEqual(['enum']);
+  });
+
+  it('should penalize type-incompatible header matches', () => {
+    const result = mapColumns({
+      inferredSchema: profiled([{ name: 'email', type: 'float', samples: ['1.5', '2.25'] }]),
+      canonicalSchema: schema([{ name: 'email', type: 'email' }]),
+      confidenceThreshold: 0.8,
+    });
+
+    expect(result.mappings[0]?.targetColumn).toBe('email');
+    expect(result.mappings[0]?.confidence).toBeLessThan(0.8);
+    expect(result.requiresReview).toBe(true);
+  });
+
+  it('should break header ties using values', () => {
+    const result = mapColumns({
+      inferredSchema: profiled([
+        { name: 'date_sent', type: 'string', samples: ['2024-01-02'] },
+      ]),
+      canonicalSchema: schema([
+        { name: 'date_sent_at', type: 'date' },
+        { name: 'date_sent_by', type: 'email' },
+      ]),
+      confidenceThreshold: 0.8,
+    });
+
+    expect(result.mappings[0]?.targetColumn).toBe('date_sent_at');
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import { readFile, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { crc32, deflateRawSync, gzipSync } from 'zlib';
+import {
+  decompressFile,
+  decompressInput,
+  DecompressionLimitError,
+  detectCompression,
+  ZipArchive,
+  type DecompressionLimits,
+} from '../../src/services/compression.js';
+
+const CSV = 'id,name\n1,Ada\n2,Grace\n';
+
+// `printf 'id,name\n1,Ada\n2,Grace\n' | bzip2`
+const CSV_BZ2 = Buffer.from(
+  'QlpoOTFBWSZTWf9bE9oAAAldgAAQAAQwACCALiMQACAAIiaNqHqH6oQAAHqaTUZi4b9wGmfF3JFOFCQ/1sT2gA==',
+  'base64'
+);
+
+const limits: DecompressionLimits = { maxBytes: 64 * 1024 * 1024, maxRatio: 200, maxEntries: 10 };
+
+async function writeTemp(data: Buffer): Promise<string> {
+  const path = join(tmpdir(), `${randomUUID()}.bin`);
+  await writeFile(path, data);
+  return path;
+}
+
+// Minimal deflate zip writer: local headers, data, central directory
+function zip(files: Record<string, string | Buffer>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const data = Buffer.from(content);
+    const compressed = deflateRawSync(data);
+    const nameBytes = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(crc32(data), 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc32(data), 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, compressed);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe('detectCompression', () => {
+  it('should recognise gzip, bzip2 and zip by magic bytes', () => {
+    expect(detectCompression(gzipSync(CSV))).toBe('gzip');
+    expect(detectCompression(CSV_BZ2)).toBe('bzip2');
+    expect(detectCompression(zip({ 'a.csv': CSV }))).toBe('zip');
+  });
+
+  it('should leave plain text and spreadsheet packages alone', () => {
+    expect(detectCompression(Buffer.from(CSV))).toBeNull();
+    expect(detectCompression(zip({ '[Content_Types].xml': '<Types/>' }))).toBeNull();
+  });
+});
+
+describe('decompressFile', () => {
+  it.each([
+    ['gzip', gzipSync(CSV)],
+    ['bzip2', CSV_BZ2],
+  ] as const)('should decompress %s to a temp file', async (format, data) => {
+    const path = await decompressFile(await writeTemp(data), format, limits);
+    expect(await readFile(path, 'utf8')).toBe(CSV);
+  });
+
+  it('should stop once output outgrows the compressed input by the ratio limit', async () => {
+    const bomb = gzipSync(Buffer.alloc(8 * 1024 * 1024, 'a'));
+
+    await expect(decompressFile(await writeTemp(bomb), 'gzip', limits)).rejects.toThrow(
+      DecompressionLimitError
+    );
+  });
+
+  it('should stop once output exceeds the size limit', async () => {
+    const data = gzipSync(Buffer.alloc(2 * 1024 * 1024, 'a'));
+
+    await expect(
+      decompressFile(await writeTemp(data), 'gzip', { ...limits, maxBytes: 1024 * 1024, maxRatio: Infinity })
+    ).rejects.toThrow('output exceeds 1MB');
+  });
+});
+
+describe('ZipArchive', () => {
+  it('should list data files and skip folders, dotfiles and macOS metadata', async () => {
+    const path = await writeTemp(
+      zip({
+        'exports/': '',
+        'exports/jan.csv': CSV,
+        'exports/feb.csv.gz': gzipSync(CSV),
+        'exports/.DS_Store': 'x',
+        '__MACOSX/exports/._jan.csv': 'x',
+        'README.md': '# notes',
+      })
+    );
+
+    const archive = await ZipArchive.open(path, limits);
+    try {
+      expect(archive.entries.map((entry) => entry.name)).toEqual([
+        'exports/jan.csv',
+        'exports/feb.csv.gz',
+      ]);
+      expect(await readFile(await archive.extractEntry('exports/jan.csv'), 'utf8')).toBe(CSV);
+    } finally {
+      archive.close();
+    }
+  });
+
+  it('should reject archives with too many files before extracting', async () => {
+    const path = await writeTemp(zip({ 'a.csv': CSV, 'b.csv': CSV, 'c.csv': CSV }));
+
+    await expect(ZipArchive.open(path, { ...limits, maxEntries: 2 })).rejects.toThrow(
+      'more than 2 files'
+    );
+  });
+
+  it('should reject entries that declare a bomb-like ratio', async () => {
+    const path = await writeTemp(zip({ 'big.csv': Buffer.alloc(8 * 1024 * 1024, 'a') }));
+
+    await expect(ZipArchive.open(path, limits)).rejects.toThrow(DecompressionLimitError);
+  });
+});
+
+describe('decompressInput', () => {
+  it('should unwrap a single-file zip holding a gzip file', async () => {
+    const path = await writeTemp(zip({ 'data.csv.gz': gzipSync(CSV) }));
+    const result = await decompressInput(path, limits);
+
+    expect(result.layers).toEqual([{ format: 'zip', entry: 'data.csv.gz' }, { format: 'gzip' }]);
+    expect(result.tempPaths).toHaveLength(2);
+    expect(await readFile(result.path, 'utf8')).toBe(CSV);
+  });
+
+  it('should pass uncompressed files through', async () => {
+    const path = await writeTemp(Buffer.from(CSV));
+
+    expect(await decompressInput(path, limits)).toEqual({ path, layers: [], tempPaths: [] });
+  });
+
+  it('should ask for splitArchive when a zip holds several files', async () => {
+    const path = await writeTemp(zip({ 'a.csv': CSV, 'b.csv': CSV }));
+
+    await expect(decompressInput(path, limits)).rejects.toThrow('splitArchive');
+  });
+});
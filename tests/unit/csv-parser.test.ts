@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import { writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseCSV, parseErrorRatio } from '../../src/services/csv-parser.js';
+
+async function writeTemp(contents: string): Promise<string> {
+  const path = join(tmpdir(), `${randomUUID()}.csv`);
+  await writeFile(path, contents);
+  return path;
+}
+
+describe('parseCSV options', () => {
+  it('should start at the configured header row', async () => {
+    const path = await writeTemp('Monthly export\nGenerated 2024-03-01\nid;name\n1;Ada\n');
+    const result = await parseCSV(path, { headerRow: 2 });
+
+    expect(result.detectedDelimiter).toBe(';');
+    expect(result.columns).toEqual(['id', 'name']);
+    expect(result.rows).toEqual([{ id: '1', name: 'Ada' }]);
+  });
+
+  it('should skip comment lines but keep the prefix inside values', async () => {
+    const path = await writeTemp('# exported by billing\nid,tag\n# draft rows follow\n1,#vip\n');
+    const result = await parseCSV(path, { commentPrefix: '#' });
+
+    expect(result.columns).toEqual(['id', 'tag']);
+    expect(result.rows).toEqual([{ id: '1', tag: '#vip' }]);
+  });
+
+  it('should trim only the requested side', async () => {
+    const path = await writeTemp('a,b\n  x  ,  y  \n');
+
+    expect((await parseCSV(path)).rows[0]).toEqual({ a: '  x  ', b: '  y  ' });
+    expect((await parseCSV(path, { trim: 'left' })).rows[0]).toEqual({ a: 'x  ', b: 'y  ' });
+    expect((await parseCSV(path, { trim: 'both' })).rows[0]).toEqual({ a: 'x', b: 'y' });
+  });
+
+  it('should honor explicit quote and delimiter characters', async () => {
+    const path = await writeTemp("id|note\n1|'a|b'\n");
+    const result = await parseCSV(path, { delimiter: '|', quote: "'", escape: "'" });
+
+    expect(result.rows).toEqual([{ id: '1', note: 'a|b' }]);
+  });
+});
+
+describe('parseCSV report layouts', () => {
+  it('should find the header below a preamble and drop the totals row', async () => {
+    const path = await writeTemp(
+      'Sales by rep\nExported 2024-04-01\n\nrep;units\nAda;12\nGrace;7\nTotal;19\n'
+    );
+    const result = await parseCSV(path);
+
+    expect(result.detectedHeader).toMatchObject({ headerRow: 3, source: 'detected' });
+    expect(result.detectedDelimiter).toBe(';');
+    expect(result.rows).toEqual([
+      { rep: 'Ada', units: '12' },
+      { rep: 'Grace', units: '7' },
+    ]);
+  });
+
+  it('should number header rows counting comment lines', async () => {
+    const contents =
+      '# source: billing\n# do not edit\nQuarterly report\nGenerated on 2024-01-01\n\n' +
+      'name,amount,date\nAda,5,2024-01-02\nGrace,4,2024-01-03\nLinus,3,2024-01-04\nTotal,12\n';
+    const expected = [
+      { name: 'Ada', amount: '5', date: '2024-01-02' },
+      { name: 'Grace', amount: '4', date: '2024-01-03' },
+      { name: 'Linus', amount: '3', date: '2024-01-04' },
+    ];
+
+    const detected = await parseCSV(await writeTemp(contents), { commentPrefix: '#' });
+    expect(detected.detectedHeader).toMatchObject({ headerRow: 5, source: 'detected' });
+    expect(detected.rows).toEqual(expected);
+
+    const explicit = await parseCSV(await writeTemp(contents), {
+      commentPrefix: '#',
+      headerRow: 5,
+    });
+    expect(explicit.columns).toEqual(['name', 'amount', 'date']);
+    expect(explicit.rows).toEqual(expected);
+  });
+
+  it('should keep every column when headers repeat or are blank', async () => {
+    const path = await writeTemp('amount,amount,,note\n1,2,3,x\n');
+    const result = await parseCSV(path);
+
+    expect(result.columns).toEqual(['amount', 'amount_2', 'column_3', 'note']);
+    expect(result.rows[0]).toEqual({ amount: '1', amount_2: '2', column_3: '3', note: 'x' });
+    expect(result.headerChanges.map((c) => c.reason)).toEqual(['duplicate', 'blank']);
+  });
+});
+
+describe('parseCSV malformed records', () => {
+  it('should skip a bad record and report its line, code and raw text', async () => {
+    const path = await writeTemp('id,name\n1,Ada\n2,Grace,extra\n3,Linus\n');
+    const result = await parseCSV(path, { relaxColumnCount: false });
+
+    expect(result.rows).toEqual([
+      { id: '1', name: 'Ada' },
+      { id: '3', name: 'Linus' },
+    ]);
+    expect(result.parseErrors).toEqual([
+      expect.objectContaining({
+        line: 3,
+        code: 'CSV_RECORD_INCONSISTENT_COLUMNS',
+        rawLine: '2,Grace,extra',
+      }),
+    ]);
+  });
+
+  it('should measure the error ratio against every record read', () => {
+    expect(parseErrorRatio(1, 3)).toBe(0.25);
+    expect(parseErrorRatio(0, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseDate,
+  parseDateWithFormat,
+  resolveDateFormats,
+} from '../../src/services/date-formats.js';
+
+function iso(value: string, format: string): string | null {
+  return parseDateWithFormat(value, format)?.toISOString() ?? null;
+}
+
+describe('parseDateWithFormat', () => {
+  it('should parse day-first European dates', () => {
+    expect(iso('05/03/2024', 'DD/MM/YYYY')).toBe('2024-03-05T00:00:00.000Z');
+    expect(iso('5/3/2024', 'D/M/YYYY')).toBe('2024-03-05T00:00:00.000Z');
+  });
+
+  it('should parse month names', () => {
+    expect(iso('7 Mar 2024', 'd MMM yyyy')).toBe('2024-03-07T00:00:00.000Z');
+    expect(iso('7 March 2024', 'd MMMM yyyy')).toBe('2024-03-07T00:00:00.000Z');
+  });
+
+  it('should parse compact dates', () => {
+    expect(iso('20240229', 'YYYYMMDD')).toBe('2024-02-29T00:00:00.000Z');
+  });
+
+  it('should reject impossible calendar dates', () => {
+    expect(iso('31/02/2024', 'DD/MM/YYYY')).toBeNull();
+    expect(iso('20230229', 'YYYYMMDD')).toBeNull();
+  });
+
+  it('should parse times, meridiems and offsets', () => {
+    expect(iso('2024-03-05 01:30 PM', 'YYYY-MM-DD hh:mm A')).toBe('2024-03-05T13:30:00.000Z');
+    expect(iso('05.03.2024 10:00:00 +02:00', 'DD.MM.YYYY HH:mm:ss Z')).toBe(
+      '2024-03-05T08:00:00.000Z'
+    );
+    expect(iso('2024-03-05T10:00:00', 'YYYY-MM-DD[T]HH:mm:ss')).toBe('2024-03-05T10:00:00.000Z');
+  });
+
+  it('should parse Excel serial numbers', () => {
+    expect(iso('45356', 'excel')).toBe('2024-03-05T00:00:00.000Z');
+    expect(iso('1', 'excel')).toBe('1900-01-01T00:00:00.000Z');
+    expect(iso('45356.5', 'excel')).toBe('2024-03-05T12:00:00.000Z');
+  });
+
+  it('should parse Unix epochs', () => {
+    expect(iso('1709596800', 'unix')).toBe('2024-03-05T00:00:00.000Z');
+    expect(iso('1709596800000', 'unix_ms')).toBe('2024-03-05T00:00:00.000Z');
+    expect(iso('abc', 'unix')).toBeNull();
+  });
+
+  it('should parse ISO 8601 strictly', () => {
+    expect(iso('2024-03-05', 'ISO')).toBe('2024-03-05T00:00:00.000Z');
+    expect(iso('2024-03-05T10:00:00+01:00', 'ISO')).toBe('2024-03-05T09:00:00.000Z');
+    expect(iso('2024-02-30', 'ISO')).toBeNull();
+    expect(iso('03/05/2024', 'ISO')).toBeNull();
+  });
+});
+
+describe('parseDate', () => {
+  it('should report the first format that matched', () => {
+    const parsed = parseDate('05/03/2024', ['YYYYMMDD', 'DD/MM/YYYY', 'MM/DD/YYYY']);
+    expect(parsed?.format).toBe('DD/MM/YYYY');
+    expect(parsed?.date.toISOString()).toBe('2024-03-05T00:00:00.000Z');
+  });
+
+  it('should return null when nothing matches', () => {
+    expect(parseDate('not a date', ['DD/MM/YYYY'])).toBeNull();
+  });
+});
+
+describe('resolveDateFormats', () => {
+  it('should keep the historical defaults when nothing is declared', () => {
+    expect(resolveDateFormats(undefined, undefined)).toContain('M/D/YYYY');
+  });
+
+  it('should not fall back to US formats when formats are declared', () => {
+    const formats = resolveDateFormats('DD/MM/YYYY', ['d MMM yyyy']);
+    expect(formats).toEqual(['DD/MM/YYYY', 'd MMM yyyy', 'ISO']);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { sniffDialect } from '../../src/services/dialect-sniffer.js';
+
+describe('sniffDialect', () => {
+  it('should ignore delimiters inside quoted fields', () => {
+    const result = sniffDialect('"Name, Full";Age\n"Lovelace, Ada";36\n"Hopper, Grace";85\n');
+
+    expect(result).toMatchObject({ delimiter: ';', quote: '"', source: 'sniffed' });
+    expect(result.confidence).toBe(1);
+    expect(result.ambiguous).toBe(false);
+  });
+
+  it('should follow quoted fields across line breaks', () => {
+    const sample = 'id,note,qty\n1,"first line\nsecond; line",2\n2,plain,3\n3,"a\nb\nc",4\n';
+    const result = sniffDialect(sample);
+
+    expect(result.delimiter).toBe(',');
+    expect(result.confidence).toBe(1);
+  });
+
+  it('should detect single quotes and backslash escapes', () => {
+    expect(sniffDialect("id|name\n1|'a|b'\n2|'c|d'\n").quote).toBe("'");
+
+    const escaped = sniffDialect('id,text\n1,"say \\"hi\\", ok"\n2,"x"\n');
+    expect(escaped).toMatchObject({ delimiter: ',', quote: '"', escape: '\\' });
+  });
+
+  it('should report a close runner-up as ambiguous', () => {
+    const result = sniffDialect('a;b,c\n1;2,3\n4;5,6\n');
+
+    expect(result.ambiguous).toBe(true);
+    expect(result.runnerUp).not.toBeNull();
+    expect([result.delimiter, result.runnerUp?.delimiter].sort()).toEqual([',', ';']);
+  });
+
+  it('should ignore a partial last record in a truncated sample', () => {
+    const result = sniffDialect('a\tb\tc\n1\t2\t3\n4\t5', { complete: false });
+
+    expect(result.delimiter).toBe('\t');
+    expect(result.confidence).toBe(1);
+  });
+
+  it('should skip preamble lines above the header', () => {
+    const result = sniffDialect('Report, March\nGenerated by: admin\nid|name\n1|Ada\n', {
+      headerRow: 2,
+    });
+
+    expect(result.delimiter).toBe('|');
+  });
+
+  it('should keep an explicit delimiter and still sniff the quote', () => {
+    const result = sniffDialect("a;b\n'x;y';1\n", { delimiter: ';' });
+
+    expect(result).toMatchObject({ delimiter: ';', quote: "'", source: 'override', confidence: 1 });
+  });
+
+  it('should fall back to comma for single-column files', () => {
+    expect(sniffDialect('email\na@example.com\n')).toMatchObject({
+      delimiter: ',',
+      confidence: 0,
+      source: 'default',
+    });
+  });
+});
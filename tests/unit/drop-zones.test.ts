@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import { utimes } from 'fs/promises';
+import {
+  compileFilePattern,
+  dropZoneFileKey,
+  findDropZoneFiles,
+  normalizeDropZonePrefix,
+  prefixesOverlap,
+} from '../../src/services/drop-zones.js';
+import { getFilePath, saveFile } from '../../src/services/storage.js';
+
+async function dropFile(key: string, modifiedAt: Date): Promise<void> {
+  await saveFile(key, Buffer.from('id\n1\n'));
+  await utimes(await getFilePath(key), modifiedAt, modifiedAt);
+}
+
+describe('normalizeDropZonePrefix', () => {
+  it('should normalize slashes and add a trailing one', () => {
+    expect(normalizeDropZonePrefix('incoming/vendor-a')).toBe('incoming/vendor-a/');
+    expect(normalizeDropZonePrefix('./incoming//vendor-a/')).toBe('incoming/vendor-a/');
+  });
+
+  it('should refuse prefixes outside storage or over the pipeline folders', () => {
+    expect(normalizeDropZonePrefix('/etc')).toBeNull();
+    expect(normalizeDropZonePrefix('incoming/../../etc')).toBeNull();
+    expect(normalizeDropZonePrefix('  ')).toBeNull();
+    expect(normalizeDropZonePrefix('raw')).toBeNull();
+    expect(normalizeDropZonePrefix('output/drops')).toBeNull();
+  });
+
+  it('should treat nested prefixes as overlapping', () => {
+    expect(prefixesOverlap('incoming/', 'incoming/vendor-a/')).toBe(true);
+    expect(prefixesOverlap('incoming/a/', 'incoming/ab/')).toBe(false);
+  });
+});
+
+describe('compileFilePattern', () => {
+  it('should match names by glob, ignoring case', () => {
+    const pattern = compileFilePattern('orders-*.{csv,tsv}');
+    expect(pattern.test('orders-2024.csv')).toBe(true);
+    expect(pattern.test('ORDERS-2024.TSV')).toBe(true);
+    expect(pattern.test('orders-2024.csv.bak')).toBe(false);
+    expect(pattern.test('orders.csv')).toBe(false);
+  });
+
+  it('should treat regex characters literally', () => {
+    expect(compileFilePattern('a+b(1).csv').test('a+b(1).csv')).toBe(true);
+    expect(compileFilePattern('?.csv').test('ab.csv')).toBe(false);
+  });
+
+  it('should reject malformed patterns', () => {
+    expect(() => compileFilePattern('*.{csv')).toThrow('Unclosed');
+    expect(() => compileFilePattern('sub/*.csv')).toThrow('names, not paths');
+  });
+});
+
+describe('findDropZoneFiles', () => {
+  it('should return settled matching files, oldest first', async () => {
+    const prefix = `drops/${randomUUID()}/`;
+    const now = new Date();
+    const ago = (seconds: number) => new Date(now.getTime() - seconds * 1000);
+
+    await dropFile(`${prefix}newer.csv`, ago(60));
+    await dropFile(`${prefix}older.csv`, ago(120));
+    await dropFile(`${prefix}still-writing.csv`, ago(2));
+    await dropFile(`${prefix}notes.txt`, ago(120));
+    await dropFile(`${prefix}.hidden.csv`, ago(120));
+    await dropFile(dropZoneFileKey(prefix, 'processing', randomUUID(), 'claimed.csv'), ago(120));
+
+    const files = await findDropZoneFiles({ prefix, filePattern: '*.csv' }, now, 10_000);
+
+    expect(files.map((f) => f.key)).toEqual([`${prefix}older.csv`, `${prefix}newer.csv`]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import { writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseCSV, streamCSV } from '../../src/services/csv-parser.js';
+import { detectEncoding } from '../../src/services/encoding.js';
+
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+
+function utf16be(text: string): Buffer {
+  return Buffer.from(text, 'utf16le').swap16();
+}
+
+async function writeTemp(contents: Buffer): Promise<string> {
+  const path = join(tmpdir(), `${randomUUID()}.csv`);
+  await writeFile(path, contents);
+  return path;
+}
+
+describe('detectEncoding', () => {
+  it('should trust byte order marks', () => {
+    expect(detectEncoding(Buffer.concat([UTF8_BOM, Buffer.from('a,b')]))).toMatchObject({
+      encoding: 'utf-8',
+      bom: true,
+      source: 'bom',
+    });
+    expect(detectEncoding(Buffer.from([0xff, 0xfe, 0x61, 0x00])).encoding).toBe('utf-16le');
+    expect(detectEncoding(Buffer.from([0xfe, 0xff, 0x00, 0x61])).encoding).toBe('utf-16be');
+  });
+
+  it('should spot UTF-16 without a BOM', () => {
+    expect(detectEncoding(Buffer.from('name,city\n', 'utf16le')).encoding).toBe('utf-16le');
+    expect(detectEncoding(utf16be('name,city\n')).encoding).toBe('utf-16be');
+  });
+
+  it('should prefer UTF-8 when the bytes decode cleanly', () => {
+    const result = detectEncoding(Buffer.from('name,city\nJosé,Zürich\n'));
+    expect(result.encoding).toBe('utf-8');
+    expect(result.confidence).toBeGreaterThan(0.9);
+  });
+
+  it('should fall back to Windows-1252 for code-page text', () => {
+    const result = detectEncoding(Buffer.from('name,note\nJos\xe9,\x93quoted\x94\n', 'latin1'));
+    expect(result.encoding).toBe('windows-1252');
+    expect(result.confidence).toBeLessThan(1);
+  });
+});
+
+describe('parser transcoding', () => {
+  it('should decode Windows-1252 headers and values', async () => {
+    const path = await writeTemp(Buffer.from('Stra\xdfe;Preis \x80\nHauptstra\xdfe;12\n', 'latin1'));
+    const result = await parseCSV(path);
+
+    expect(result.detectedEncoding.encoding).toBe('windows-1252');
+    expect(result.columns).toEqual(['Straße', 'Preis €']);
+    expect(result.rows[0]).toEqual({ Straße: 'Hauptstraße', 'Preis €': '12' });
+  });
+
+  it('should strip the BOM from the first header of UTF-16 files', async () => {
+    const path = await writeTemp(
+      Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('id,name\n1,Zoë\n', 'utf16le')])
+    );
+    const { encoding, records } = await streamCSV(path);
+
+    const rows = [];
+    for await (const record of records) rows.push(record);
+
+    expect(encoding).toMatchObject({ encoding: 'utf-16le', bom: true });
+    expect(rows).toEqual([{ id: '1', name: 'Zoë' }]);
+  });
+
+  it('should honor an explicit encoding', async () => {
+    const path = await writeTemp(Buffer.from('city\nK\xf8benhavn\n', 'latin1'));
+    const result = await parseCSV(path, { encoding: 'iso-8859-1' });
+
+    expect(result.detectedEncoding.source).toBe('override');
+    expect(result.rows[0]).toEqual({ city: 'København' });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import { writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  extractFields,
+  streamFixedWidth,
+  suggestFixedWidthLayout,
+} from '../../src/services/fixed-width.js';
+import { openInput } from '../../src/services/input-adapter.js';
+import type { FixedWidthLayout } from '../../src/types/index.js';
+
+async function writeTemp(contents: string): Promise<string> {
+  const path = join(tmpdir(), `${randomUUID()}.txt`);
+  await writeFile(path, contents);
+  return path;
+}
+
+async function collect(records: AsyncIterable<Record<string, unknown>>) {
+  const rows: Record<string, unknown>[] = [];
+  for await (const record of records) rows.push(record);
+  return rows;
+}
+
+const layout: FixedWidthLayout = {
+  fields: [
+    { name: 'account', start: 0, length: 8, trim: 'left', padChar: '0' },
+    { name: 'name', start: 8, length: 14 },
+    { name: 'balance', start: 22, length: 9 },
+  ],
+  skipLines: 1,
+};
+
+const bankExport = [
+  'ACCOUNT NAME          BALANCE  ',
+  '00000123Ada Lovelace     120.50',
+  '* adjusted below',
+  '00000456Grace Hopper    9000.00',
+  '',
+  '00000789Linus',
+].join('\n');
+
+describe('extractFields', () => {
+  it('should strip the pad character from the configured side', () => {
+    expect(extractFields('00000123Ada Lovelace     120.50', layout)).toEqual({
+      account: '123',
+      name: 'Ada Lovelace',
+      balance: '120.50',
+    });
+  });
+
+  it('should leave fields past the end of a short line empty', () => {
+    expect(extractFields('00000789Linus', layout)).toEqual({
+      account: '789',
+      name: 'Linus',
+      balance: '',
+    });
+  });
+});
+
+describe('streamFixedWidth', () => {
+  it('should skip leading, comment and blank lines', async () => {
+    const path = await writeTemp(bankExport);
+    const { records } = await streamFixedWidth(path, layout, { commentPrefix: '*' });
+
+    expect(await collect(records)).toEqual([
+      { account: '123', name: 'Ada Lovelace', balance: '120.50' },
+      { account: '456', name: 'Grace Hopper', balance: '9000.00' },
+      { account: '789', name: 'Linus', balance: '' },
+    ]);
+  });
+
+  it('should be chosen by the input adapter when a layout is given', async () => {
+    const path = await writeTemp(bankExport);
+    const input = await openInput(path, { fixedWidth: layout, commentPrefix: '*' });
+
+    expect(input.format).toBe('fixed_width');
+    expect(await collect(input.records)).toHaveLength(3);
+  });
+});
+
+describe('suggestFixedWidthLayout', () => {
+  it('should find boundaries from blank columns and name fields from the header', () => {
+    const sample = [
+      'ACCOUNT   NAME            BALANCE',
+      '0000123   Ada Lovelace     120.50',
+      '0000456   Grace Hopper    9000.00',
+    ].join('\n');
+
+    expect(suggestFixedWidthLayout(sample)).toEqual({
+      layout: {
+        fields: [
+          { name: 'ACCOUNT', start: 0, length: 10 },
+          { name: 'NAME', start: 10, length: 16 },
+          { name: 'BALANCE', start: 26, length: 7 },
+        ],
+        skipLines: 1,
+      },
+      sampledLines: 3,
+      header: true,
+    });
+  });
+
+  it('should number the fields of a file without a header', () => {
+    const sample = '0000123 20240301 A\n0000456 20240302 B\n';
+    const { layout: suggested, header } = suggestFixedWidthLayout(sample);
+
+    expect(header).toBe(false);
+    expect(suggested.fields.map((f) => [f.name, f.start, f.length])).toEqual([
+      ['column_1', 0, 8],
+      ['column_2', 8, 9],
+      ['column_3', 17, 1],
+    ]);
+  });
+});
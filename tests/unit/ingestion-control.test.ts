@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import type { IngestionRow } from '../../src/db/schema.js';
+import {
+  canRestartFrom,
+  clearResultsFrom,
+  queuedStatus,
+  resumePoint,
+} from '../../src/services/ingestion-control.js';
+
+type StageResults = Pick<
+  IngestionRow,
+  'rowStore' | 'inferredSchema' | 'mappingResult' | 'validationResult'
+>;
+
+// Only presence matters to the resume logic, so placeholders stand in for results
+const parsed = { rowStore: {} as IngestionRow['rowStore'] };
+const inferred = { ...parsed, inferredSchema: {} as IngestionRow['inferredSchema'] };
+const mapped = (requiresReview: boolean) => ({
+  ...inferred,
+  mappingResult: { requiresReview } as IngestionRow['mappingResult'],
+});
+
+function results(overrides: Partial<StageResults>): StageResults {
+  return {
+    rowStore: null,
+    inferredSchema: null,
+    mappingResult: null,
+    validationResult: null,
+    ...overrides,
+  };
+}
+
+describe('resumePoint', () => {
+  it('should resume at the first stage without a saved result', () => {
+    expect(resumePoint(results({}))).toBe('parse');
+    expect(resumePoint(results(parsed))).toBe('infer');
+    expect(resumePoint(results(inferred))).toBe('map');
+    expect(resumePoint(results(mapped(false)))).toBe('validate');
+    expect(
+      resumePoint(
+        results({ ...mapped(false), validationResult: {} as IngestionRow['validationResult'] })
+      )
+    ).toBe('output');
+  });
+
+  it('should return to review when the mapping was never resolved', () => {
+    expect(resumePoint(results(mapped(true)))).toBe('review');
+    expect(queuedStatus('review')).toBe('awaiting_review');
+  });
+});
+
+describe('canRestartFrom', () => {
+  it('should allow earlier stages but never skip ahead', () => {
+    expect(canRestartFrom('infer', 'validate')).toBe(true);
+    expect(canRestartFrom('validate', 'validate')).toBe(true);
+    expect(canRestartFrom('output', 'validate')).toBe(false);
+    expect(canRestartFrom('map', 'review')).toBe(true);
+    expect(canRestartFrom('validate', 'review')).toBe(false);
+  });
+});
+
+describe('clearResultsFrom', () => {
+  it('should clear the restarted stage and everything after it', () => {
+    const cleared = clearResultsFrom('map');
+
+    expect(cleared).toMatchObject({
+      mappingResult: null,
+      validationResult: null,
+      outputFileKey: null,
+      error: null,
+    });
+    expect(cleared).not.toHaveProperty('inferredSchema');
+    expect(cleared).not.toHaveProperty('rowStore');
+  });
+
+  it('should keep the mapping when returning to review', () => {
+    expect(clearResultsFrom('review')).not.toHaveProperty('mappingResult');
+    expect(clearResultsFrom('parse')).toMatchObject({ rowStore: null, rowCount: null });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import {
+  decodeListCursor,
+  encodeListCursor,
+  escapeLikePattern,
+  type ListCursor,
+} from '../../src/services/ingestion-list.js';
+
+describe('list cursors', () => {
+  it('should round-trip sort, order and a microsecond timestamp', () => {
+    const cursor: ListCursor = {
+      sort: 'completedAt',
+      order: 'asc',
+      value: '2024-06-01 12:00:00.123456+00',
+      id: randomUUID(),
+    };
+
+    const encoded = encodeListCursor(cursor);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeListCursor(encoded)).toEqual(cursor);
+  });
+
+  it('should reject tampered or foreign cursors', () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    expect(decodeListCursor('not a cursor')).toBeNull();
+    expect(decodeListCursor(encode({ id: randomUUID() }))).toBeNull();
+    expect(decodeListCursor(encode(['rowCount', 'asc', '2024-06-01 12:00:00+00', randomUUID()]))).toBeNull();
+    expect(decodeListCursor(encode(['createdAt', 'asc', "1'; drop table", randomUUID()]))).toBeNull();
+    expect(decodeListCursor(encode(['createdAt', 'desc', '2024-06-01 12:00:00+00', 'x']))).toBeNull();
+  });
+});
+
+describe('escapeLikePattern', () => {
+  it('should escape wildcards and backslashes', () => {
+    expect(escapeLikePattern('100%_sales\\q1')).toBe('100\\%\\_sales\\\\q1');
+    expect(escapeLikePattern('orders.csv')).toBe('orders.csv');
+  });
+});
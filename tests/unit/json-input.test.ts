@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import { writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { ParseError } from '../../src/services/csv-parser.js';
+import { detectInputFormat } from '../../src/services/input-adapter.js';
+import {
+  detectJsonFormat,
+  flattenRecord,
+  streamJson,
+} from '../../src/services/json-input.js';
+
+async function writeTemp(contents: string, ext = 'json'): Promise<string> {
+  const path = join(tmpdir(), `${randomUUID()}.${ext}`);
+  await writeFile(path, contents);
+  return path;
+}
+
+async function collect(records: AsyncIterable<Record<string, unknown>>) {
+  const rows: Record<string, unknown>[] = [];
+  for await (const record of records) rows.push(record);
+  return rows;
+}
+
+describe('detectJsonFormat', () => {
+  it('should tell arrays, NDJSON and delimited text apart', () => {
+    expect(detectJsonFormat('\uFEFF  [{"a": 1}]')).toBe('json');
+    expect(detectJsonFormat('{"a": 1}\n{"a": 2}\n')).toBe('ndjson');
+    expect(detectJsonFormat('a,b\n1,2\n')).toBeNull();
+  });
+
+  it('should only fall back to CSV for files that are neither', async () => {
+    expect(await detectInputFormat(await writeTemp('[{"a": 1}]'))).toBe('json');
+    expect(await detectInputFormat(await writeTemp('a,b\n1,2\n', 'csv'))).toBe('csv');
+    expect(await detectInputFormat(await writeTemp('[1]'), { format: 'csv' })).toBe('csv');
+  });
+});
+
+describe('flattenRecord', () => {
+  const order = { id: 7, customer: { name: 'Ada', address: { city: 'Oslo' } }, tags: ['a'] };
+
+  it('should flatten nested objects into dotted names and keep arrays whole', () => {
+    expect(flattenRecord(order)).toEqual({
+      id: 7,
+      'customer.name': 'Ada',
+      'customer.address.city': 'Oslo',
+      tags: ['a'],
+    });
+  });
+
+  it('should keep objects below the configured depth as values', () => {
+    expect(flattenRecord(order, 1)).toEqual({
+      id: 7,
+      'customer.name': 'Ada',
+      'customer.address': { city: 'Oslo' },
+      tags: ['a'],
+    });
+    expect(flattenRecord(order, 0)).toEqual(order);
+  });
+});
+
+describe('streamJson', () => {
+  it('should read a JSON array element by element, skipping bad elements', async () => {
+    const path = await writeTemp(
+      '[\n  {"id": 1, "meta": {"source": "web, \\"beta\\""}},\n  "oops",\n  {"id": 3}\n]\n'
+    );
+    const errors: ParseError[] = [];
+    const { records } = await streamJson(path, 'json', { onParseError: (e) => errors.push(e) });
+
+    expect(await collect(records)).toEqual([
+      { id: 1, 'meta.source': 'web, "beta"' },
+      { id: 3 },
+    ]);
+    expect(errors).toEqual([
+      { line: 3, code: 'JSON_NOT_AN_OBJECT', message: 'Expected a JSON object', rawLine: '"oops"' },
+    ]);
+  });
+
+  it('should report malformed NDJSON lines with their line numbers', async () => {
+    const path = await writeTemp('{"id": 1}\n\n{"id": \n{"id": 3}\n', 'ndjson');
+    const errors: ParseError[] = [];
+    const { records } = await streamJson(path, 'ndjson', { onParseError: (e) => errors.push(e) });
+
+    expect(await collect(records)).toEqual([{ id: 1 }, { id: 3 }]);
+    expect(errors).toMatchObject([{ line: 3, code: 'JSON_INVALID', rawLine: '{"id": ' }]);
+  });
+
+  it('should fail on a truncated array', async () => {
+    const path = await writeTemp('[{"id": 1}, {"id": 2}');
+    const { records } = await streamJson(path, 'json');
+
+    await expect(collect(records)).rejects.toThrow('top-level array is not closed');
+  });
+});
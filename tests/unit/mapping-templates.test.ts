@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyMappingTemplate,
+  fingerprintColumns,
+} from '../../src/services/mapping-templates.js';
+import type { CanonicalSchema, InferredSchema } from '../../src/types/index.js';
+
+function inferred(names: string[]): InferredSchema {
+  return {
+    columns: names.map((name) => ({
+      name,
+      inferredType: 'string',
+      confidence: 1,
+      nullable: false,
+      uniqueRatio: 1,
+      sampleValues: [],
+      nullCount: 0,
+      totalCount: 10,
+    })),
+    rowCount: 10,
+    parseErrors: 0,
+  };
+}
+
+const canonical: CanonicalSchema = {
+  name: 'customers',
+  version: '1.0.0',
+  errorPolicy: 'flag',
+  strict: false,
+  columns: ['email', 'name', 'signup_date'].map((name) => ({
+    name,
+    type: 'string',
+    required: false,
+    nullable: true,
+    aliases: [],
+    validators: [],
+    strict: false,
+  })),
+};
+
+describe('fingerprintColumns', () => {
+  it('should ignore column order', () => {
+    expect(fingerprintColumns(['a', 'b', 'c'])).toBe(fingerprintColumns(['c', 'a', 'b']));
+  });
+
+  it('should differ for different header sets', () => {
+    expect(fingerprintColumns(['a', 'b'])).not.toBe(fingerprintColumns(['a', 'b', 'c']));
+  });
+});
+
+describe('applyMappingTemplate', () => {
+  it('should fully cover a file with a matching template', () => {
+    const result = applyMappingTemplate({
+      inferredSchema: inferred(['E-Mail Addr', 'Full Nm', 'Joined']),
+      canonicalSchema: canonical,
+      templateMappings: [
+        { sourceColumn: 'E-Mail Addr', targetColumn: 'email' },
+        { sourceColumn: 'Full Nm', targetColumn: 'name' },
+        { sourceColumn: 'Joined', targetColumn: 'signup_date' },
+      ],
+    });
+
+    expect(result.fullyCovered).toBe(true);
+    expect(result.mappingResult.requiresReview).toBe(false);
+    expect(result.mappingResult.mappings.map((m) => m.method)).toEqual([
+      'template',
+      'template',
+      'template',
+    ]);
+  });
+
+  it('should map uncovered columns heuristically against remaining targets', () => {
+    const result = applyMappingTemplate({
+      inferredSchema: inferred(['E-Mail Addr', 'name']),
+      canonicalSchema: canonical,
+      templateMappings: [{ sourceColumn: 'E-Mail Addr', targetColumn: 'email' }],
+    });
+
+    expect(result.fullyCovered).toBe(false);
+    expect(result.appliedCount).toBe(1);
+    expect(result.mappingResult.mappings[1]).toMatchObject({
+      sourceColumn: 'name',
+      targetColumn: 'name',
+      method: 'exact',
+    });
+  });
+
+  it('should skip template entries whose target no longer exists', () => {
+    const result = applyMappingTemplate({
+      inferredSchema: inferred(['phone']),
+      canonicalSchema: canonical,
+      templateMappings: [{ sourceColumn: 'phone', targetColumn: 'phone_number' }],
+    });
+
+    expect(result.appliedCount).toBe(0);
+    expect(result.mappingResult.mappings[0]?.method).not.toBe('template');
+  });
+});
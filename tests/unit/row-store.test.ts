@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import { writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { streamCSV } from '../../src/services/csv-parser.js';
+import {
+  readRowStore,
+  readRowStoreSample,
+  writeRowStore,
+} from '../../src/services/row-store.js';
+
+async function* generateRows(count: number) {
+  for (let i = 1; i <= count; i++) {
+    yield { id: String(i), name: `row ${i}` };
+  }
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe('row store', () => {
+  it('should split rows into chunks and preserve row numbers', async () => {
+    const manifest = await writeRowStore(randomUUID(), generateRows(7), 3);
+
+    expect(manifest.columns).toEqual(['id', 'name']);
+    expect(manifest.totalRowCount).toBe(7);
+    expect(manifest.chunks.map((c) => [c.firstRow, c.rowCount])).toEqual([
+      [1, 3],
+      [4, 3],
+      [7, 1],
+    ]);
+
+    const rows = await collect(readRowStore(manifest));
+    expect(rows.map((r) => r.row)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(rows[4]!.data).toEqual({ id: '5', name: 'row 5' });
+  });
+
+  it('should write an empty manifest for a header-only file', async () => {
+    const manifest = await writeRowStore(randomUUID(), generateRows(0));
+    expect(manifest).toEqual({ format: 'ndjson', columns: [], totalRowCount: 0, chunks: [] });
+    expect(await collect(readRowStore(manifest))).toEqual([]);
+  });
+
+  it('should collect columns from records of different shapes', async () => {
+    async function* records() {
+      yield { id: 1 };
+      yield { id: 2, 'address.city': 'Oslo' };
+    }
+    const manifest = await writeRowStore(randomUUID(), records());
+    expect(manifest.columns).toEqual(['id', 'address.city']);
+  });
+
+  it('should read a leading sample without walking every chunk', async () => {
+    const manifest = await writeRowStore(randomUUID(), generateRows(10), 4);
+    const sample = await readRowStoreSample(manifest, 5);
+    expect(sample.map((r) => r.id)).toEqual(['1', '2', '3', '4', '5']);
+  });
+
+  it('should store records streamed from a CSV file', async () => {
+    const path = join(tmpdir(), `${randomUUID()}.csv`);
+    await writeFile(path, 'a;b\n1;"x\ny"\n2;z\n');
+
+    const { dialect, records } = await streamCSV(path);
+    const manifest = await writeRowStore(randomUUID(), records);
+
+    expect(dialect.delimiter).toBe(';');
+    expect(await collect(readRowStore(manifest))).toEqual([
+      { row: 1, data: { a: '1', b: 'x\ny' } },
+      { row: 2, data: { a: '2', b: 'z' } },
+    ]);
+  });
+});
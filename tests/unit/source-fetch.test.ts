@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { randomUUID } from 'crypto';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { text } from 'stream/consumers';
+import {
+  isAddressAllowed,
+  isHostAllowed,
+  openSourceUrl,
+  openStorageSource,
+  type SourceFetchOptions,
+} from '../../src/services/source-fetch.js';
+import { saveFile } from '../../src/services/storage.js';
+
+const CSV = 'id,name\n1,Ada\n2,Grace\n';
+
+// Local stand-in for an internal file server
+let server: Server;
+let base: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    switch (req.url) {
+      case '/exports/customers.csv':
+        res.writeHead(200, { 'content-type': 'text/csv', 'content-length': CSV.length });
+        res.end(CSV);
+        return;
+      case '/redirect':
+        res.writeHead(302, { location: '/exports/customers.csv' });
+        res.end();
+        return;
+      case '/redirect-away':
+        res.writeHead(302, { location: 'http://example.com/customers.csv' });
+        res.end();
+        return;
+      case '/big-declared':
+        res.writeHead(200, { 'content-length': 4096 });
+        res.end('x'.repeat(4096));
+        return;
+      case '/big-chunked':
+        res.writeHead(200);
+        for (let i = 0; i < 8; i++) res.write('x'.repeat(512));
+        res.end();
+        return;
+      case '/slow':
+        res.writeHead(200);
+        res.write('id\n');
+        return; // Never ends
+      default:
+        res.writeHead(404);
+        res.end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const options: SourceFetchOptions = {
+  allowlist: ['127.0.0.1'],
+  allowPrivateNetworks: true,
+  timeoutMs: 2000,
+  maxBytes: 1024,
+  maxRedirects: 2,
+};
+
+describe('address and host checks', () => {
+  it('should refuse link-local addresses even with private networks allowed', () => {
+    expect(isAddressAllowed('169.254.169.254', true)).toBe(false);
+    expect(isAddressAllowed('fe80::1', true)).toBe(false);
+  });
+
+  it('should refuse private addresses unless allowed, including IPv4-mapped ones', () => {
+    expect(isAddressAllowed('10.0.0.5', false)).toBe(false);
+    expect(isAddressAllowed('::ffff:127.0.0.1', false)).toBe(false);
+    expect(isAddressAllowed('::1', false)).toBe(false);
+    expect(isAddressAllowed('10.0.0.5', true)).toBe(true);
+    expect(isAddressAllowed('93.184.216.34', false)).toBe(true);
+  });
+
+  it('should match exact hosts and wildcard subdomains', () => {
+    const allowlist = ['files.example.com', '*.internal.example'];
+    expect(isHostAllowed('FILES.example.com', allowlist)).toBe(true);
+    expect(isHostAllowed('a.b.internal.example', allowlist)).toBe(true);
+    expect(isHostAllowed('internal.example', allowlist)).toBe(false);
+    expect(isHostAllowed('evilfiles.example.com', allowlist)).toBe(false);
+  });
+});
+
+describe('openSourceUrl', () => {
+  it('should stream an allowlisted file and name it after the URL path', async () => {
+    const source = await openSourceUrl(`${base}/exports/customers.csv`, options);
+
+    expect(source.filename).toBe('customers.csv');
+    expect(source.contentLength).toBe(CSV.length);
+    expect(await text(source.stream)).toBe(CSV);
+  });
+
+  it('should follow redirects within the allowlist', async () => {
+    const source = await openSourceUrl(`${base}/redirect`, options);
+    expect(await text(source.stream)).toBe(CSV);
+  });
+
+  it('should refuse redirects to hosts off the allowlist', async () => {
+    await expect(openSourceUrl(`${base}/redirect-away`, options)).rejects.toMatchObject({
+      reason: 'not_allowed',
+    });
+  });
+
+  it('should refuse hosts off the allowlist and non-http protocols', async () => {
+    await expect(
+      openSourceUrl(`${base}/exports/customers.csv`, { ...options, allowlist: [] })
+    ).rejects.toMatchObject({ reason: 'not_allowed' });
+    await expect(openSourceUrl('file:///etc/passwd', options)).rejects.toMatchObject({
+      reason: 'not_allowed',
+    });
+  });
+
+  it('should refuse loopback addresses, literal or resolved, without the opt-in', async () => {
+    const strict = { ...options, allowlist: ['127.0.0.1', 'localhost'], allowPrivateNetworks: false };
+    const port = new URL(base).port;
+
+    await expect(openSourceUrl(`${base}/exports/customers.csv`, strict)).rejects.toMatchObject({
+      reason: 'not_allowed',
+    });
+    await expect(
+      openSourceUrl(`http://localhost:${port}/exports/customers.csv`, strict)
+    ).rejects.toMatchObject({ reason: 'not_allowed' });
+  });
+
+  it('should reject files over the size limit, declared or not', async () => {
+    await expect(openSourceUrl(`${base}/big-declared`, options)).rejects.toMatchObject({
+      reason: 'too_large',
+    });
+
+    const source = await openSourceUrl(`${base}/big-chunked`, options);
+    await expect(text(source.stream)).rejects.toMatchObject({ reason: 'too_large' });
+  });
+
+  it('should report error statuses and time out stalled transfers', async () => {
+    await expect(openSourceUrl(`${base}/missing.csv`, options)).rejects.toMatchObject({
+      reason: 'bad_status',
+    });
+
+    const source = await openSourceUrl(`${base}/slow`, { ...options, timeoutMs: 200 });
+    await expect(text(source.stream)).rejects.toMatchObject({ reason: 'timeout' });
+  });
+});
+
+describe('openStorageSource', () => {
+  it('should open an existing key', async () => {
+    const key = `imports/${randomUUID()}/orders.csv`;
+    await saveFile(key, Buffer.from(CSV));
+
+    const source = await openStorageSource(key);
+    expect(source.filename).toBe('orders.csv');
+    expect(await text(source.stream)).toBe(CSV);
+  });
+
+  it('should refuse keys outside storage and report missing ones', async () => {
+    await expect(openStorageSource('../../etc/passwd')).rejects.toMatchObject({
+      reason: 'not_allowed',
+    });
+    await expect(openStorageSource(`imports/${randomUUID()}.csv`)).rejects.toMatchObject({
+      reason: 'not_found',
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import { writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import XLSX from 'xlsx';
+import {
+  detectSpreadsheetFormat,
+  SheetNotFoundError,
+  streamSpreadsheet,
+  type SpreadsheetFormat,
+} from '../../src/services/spreadsheet.js';
+
+function workbook(sheets: Record<string, unknown[][]>): XLSX.WorkBook {
+  const book = XLSX.utils.book_new();
+  for (const [name, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet(rows, { cellDates: true }), name);
+  }
+  return book;
+}
+
+async function writeWorkbook(book: XLSX.WorkBook, format: SpreadsheetFormat): Promise<string> {
+  const path = join(tmpdir(), `${randomUUID()}.${format}`);
+  await writeFile(path, XLSX.write(book, { type: 'buffer', bookType: format }));
+  return path;
+}
+
+async function collect(records: AsyncIterable<Record<string, unknown>>) {
+  const rows: Record<string, unknown>[] = [];
+  for await (const record of records) rows.push(record);
+  return rows;
+}
+
+const salesReport = [
+  ['Quarterly sales'],
+  [],
+  ['id', 'signed', 'amount', 'active'],
+  [1, new Date(Date.UTC(2024, 2, 1)), 12.5, true],
+  [2, new Date(Date.UTC(2024, 2, 2, 13, 30)), 40, false],
+  ['Total', null, 52.5, null],
+];
+
+describe('detectSpreadsheetFormat', () => {
+  it.each(['xlsx', 'xls', 'ods'] as const)('should recognise %s files', (format) => {
+    const buffer = XLSX.write(workbook({ Data: [['a']] }), { type: 'buffer', bookType: format });
+    expect(detectSpreadsheetFormat(buffer)).toBe(format);
+  });
+
+  it('should leave text files to the CSV parser', () => {
+    expect(detectSpreadsheetFormat(Buffer.from('id,name\n1,Ada\n'))).toBeNull();
+  });
+});
+
+describe('streamSpreadsheet', () => {
+  it.each(['xlsx', 'xls', 'ods'] as const)(
+    'should read the first non-empty %s sheet with typed values',
+    async (format) => {
+      const path = await writeWorkbook(workbook({ Notes: [], Sales: salesReport }), format);
+      const result = await streamSpreadsheet(path, format);
+      const rows = await collect(result.records);
+
+      expect(result.sheet).toMatchObject({ name: 'Sales', source: 'default', range: 'A3:D6' });
+      expect(result.header).toMatchObject({ headerRow: 2, source: 'detected' });
+      expect(rows).toEqual([
+        { id: 1, signed: '2024-03-01', amount: 12.5, active: true },
+        { id: 2, signed: '2024-03-02T13:30:00', amount: 40, active: false },
+      ]);
+      expect(result.trailingRows).toEqual([
+        { id: 'Total', signed: null, amount: 52.5, active: null },
+      ]);
+    }
+  );
+
+  it('should read the requested sheet', async () => {
+    const path = await writeWorkbook(
+      workbook({ Sales: salesReport, Regions: [['code', 'name'], ['EU', 'Europe']] }),
+      'xlsx'
+    );
+    const result = await streamSpreadsheet(path, 'xlsx', { sheet: 'Regions' });
+
+    expect(result.sheet).toMatchObject({ name: 'Regions', source: 'override' });
+    expect(await collect(result.records)).toEqual([{ code: 'EU', name: 'Europe' }]);
+  });
+
+  it('should name the available sheets when the requested one is missing', async () => {
+    const path = await writeWorkbook(workbook({ Sales: salesReport }), 'xlsx');
+
+    await expect(streamSpreadsheet(path, 'xlsx', { sheet: 'Q4' })).rejects.toThrow(
+      SheetNotFoundError
+    );
+    await expect(streamSpreadsheet(path, 'xlsx', { sheet: 'Q4' })).rejects.toThrow(
+      'Available sheets: Sales'
+    );
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { createHash, randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import {
+  fileExists,
+  listFiles,
+  loadFile,
+  moveFile,
+  saveFile,
+  saveFileWithChecksum,
+} from '../../src/services/storage.js';
+
+describe('saveFileWithChecksum', () => {
+  it('should store a stream and report its SHA-256 and size', async () => {
+    const chunks = Array.from({ length: 50 }, (_, i) => Buffer.from(`${i},row ${i}\n`));
+    const expected = Buffer.concat(chunks);
+    const key = `test/${randomUUID()}.csv`;
+
+    const stored = await saveFileWithChecksum(key, Readable.from(chunks));
+
+    expect(stored).toEqual({
+      key,
+      sha256: createHash('sha256').update(expected).digest('hex'),
+      byteCount: expected.length,
+    });
+    expect(await loadFile(key)).toEqual(expected);
+  });
+
+  it('should remove the partial file when the source fails', async () => {
+    const key = `test/${randomUUID()}.csv`;
+    const source = new Readable({
+      read() {
+        this.push('id,name\n');
+        this.destroy(new Error('connection reset'));
+      },
+    });
+
+    await expect(saveFileWithChecksum(key, source)).rejects.toThrow('connection reset');
+    expect(await fileExists(key)).toBe(false);
+  });
+});
+
+describe('listFiles and moveFile', () => {
+  it('should list files directly under a prefix, not in nested folders', async () => {
+    const prefix = `test/${randomUUID()}/`;
+    await saveFile(`${prefix}a.csv`, Buffer.from('a'));
+    await saveFile(`${prefix}b.csv`, Buffer.from('bb'));
+    await saveFile(`${prefix}nested/c.csv`, Buffer.from('c'));
+
+    const objects = await listFiles(prefix);
+
+    expect(objects.map((o) => [o.key, o.byteCount]).sort()).toEqual([
+      [`${prefix}a.csv`, 1],
+      [`${prefix}b.csv`, 2],
+    ]);
+    expect(await listFiles(`test/${randomUUID()}/`)).toEqual([]);
+  });
+
+  it('should move a file into a new folder, and fail once it has gone', async () => {
+    const prefix = `test/${randomUUID()}/`;
+    await saveFile(`${prefix}a.csv`, Buffer.from('a'));
+
+    await moveFile(`${prefix}a.csv`, `${prefix}done/a.csv`);
+
+    expect(await fileExists(`${prefix}a.csv`)).toBe(false);
+    expect((await loadFile(`${prefix}done/a.csv`)).toString()).toBe('a');
+    await expect(moveFile(`${prefix}a.csv`, `${prefix}again/a.csv`)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectHeaderRow,
+  isFooterRow,
+  normalizeHeaders,
+  withoutFooter,
+} from '../../src/services/table-layout.js';
+
+const comma = { delimiter: ',', quote: '"', escape: '"' };
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const item of items) out.push(item);
+  return out;
+}
+
+async function* iterate<T>(items: T[]): AsyncGenerator<T> {
+  yield* items;
+}
+
+describe('detectHeaderRow', () => {
+  it('should keep line 0 for plain files', () => {
+    const result = detectHeaderRow('id,name,amount\n1,Ada,10.50\n2,Grace,7\n', comma, {
+      complete: true,
+    });
+    expect(result).toMatchObject({ headerRow: 0, source: 'detected' });
+  });
+
+  it('should skip titles, blank lines and generated-on preambles', () => {
+    const sample = [
+      'Quarterly Sales Report',
+      'Generated on,2024-04-01',
+      '',
+      'region,rep,units,revenue',
+      'EMEA,Ada,12,1040.00',
+      'APAC,Grace,7,560.25',
+      '',
+    ].join('\n');
+
+    const result = detectHeaderRow(sample, comma, { complete: true });
+    expect(result.headerRow).toBe(3);
+    expect(result.confidence).toBeGreaterThan(0.5);
+  });
+
+  it('should count quoted line breaks when reporting the header line', () => {
+    const sample = '"Report\nfor March"\n\nid,name\n1,Ada\n';
+    expect(detectHeaderRow(sample, comma, { complete: true }).headerRow).toBe(3);
+  });
+
+  it('should honor an explicit header row', () => {
+    expect(
+      detectHeaderRow('a,b\n1,2\n', comma, { headerRow: 1, complete: true })
+    ).toEqual({ headerRow: 1, confidence: 1, source: 'override' });
+  });
+
+  it('should fall back to line 0 when no row looks like a header', () => {
+    const result = detectHeaderRow('2021,2022,2023\n1,2,3\n4,5,6\n', comma, { complete: true });
+    expect(result).toMatchObject({ headerRow: 0, source: 'default' });
+  });
+});
+
+describe('normalizeHeaders', () => {
+  it('should leave clean headers alone', () => {
+    expect(normalizeHeaders(['id', 'name'])).toEqual({ columns: ['id', 'name'], changes: [] });
+  });
+
+  it('should rename duplicate, blank and padded headers', () => {
+    const { columns, changes } = normalizeHeaders(['amount', ' name ', 'amount', '', '  ']);
+
+    expect(columns).toEqual(['amount', 'name', 'amount_2', 'column_4', 'column_5']);
+    expect(changes).toEqual([
+      { index: 1, original: ' name ', normalized: 'name', reason: 'trimmed' },
+      { index: 2, original: 'amount', normalized: 'amount_2', reason: 'duplicate' },
+      { index: 3, original: '', normalized: 'column_4', reason: 'blank' },
+      { index: 4, original: '  ', normalized: 'column_5', reason: 'blank' },
+    ]);
+  });
+
+  it('should not reuse names found elsewhere in the header', () => {
+    const { columns } = normalizeHeaders(['amount', 'amount', 'amount_2', '', 'column_1']);
+    expect(columns).toEqual(['amount', 'amount_3', 'amount_2', 'column_4', 'column_1']);
+    expect(new Set(columns).size).toBe(columns.length);
+  });
+});
+
+describe('footer skipping', () => {
+  it('should recognise summary rows', () => {
+    expect(isFooterRow(['Total', '', '1600.25'])).toBe(true);
+    expect(isFooterRow(['', 'Grand total:', '99'])).toBe(true);
+    expect(isFooterRow(['Generated by billing v2', '', ''])).toBe(true);
+    expect(isFooterRow(['', '', ''])).toBe(true);
+    expect(isFooterRow(['Totally Normal Ltd', 'Ada', '3'])).toBe(false);
+    expect(isFooterRow(['Total Gym', 'Ada', '3'])).toBe(false);
+    expect(isFooterRow(['Count', 'Bob', '2024-01-05'])).toBe(false);
+    expect(isFooterRow(['Count:', '', '42'])).toBe(true);
+  });
+
+  it('should drop trailing summary rows only', async () => {
+    const rows = [
+      { name: 'Total Care Inc', units: '5' },
+      { name: 'Ada', units: '12' },
+      { name: 'Total', units: '17' },
+      { name: '', units: '' },
+    ];
+    const skipped: Record<string, unknown>[] = [];
+
+    expect(await collect(withoutFooter(iterate(rows), {}, skipped))).toEqual(rows.slice(0, 2));
+    expect(skipped).toEqual(rows.slice(2));
+  });
+
+  it('should always drop configured trailing rows', async () => {
+    const rows = [1, 2, 3, 4].map((n) => ({ n: String(n) }));
+    const skipped: Record<string, unknown>[] = [];
+
+    const kept = await collect(
+      withoutFooter(iterate(rows), { skipTrailingRows: 2, detectFooter: false }, skipped)
+    );
+    expect(kept).toEqual(rows.slice(0, 2));
+    expect(skipped).toEqual(rows.slice(2));
+  });
+});
@@ -124,6 +124,12 @@ describe('inferColumnType', () => {
     expect(result.inferredType).toBe('float');
   });
 
+  it('should trust typed numbers and booleans over their text', () => {
+    expect(inferColumnType([0, 1, 1, 0]).inferredType).toBe('integer');
+    expect(inferColumnType([12.5, 40]).inferredType).toBe('float');
+    expect(inferColumnType([true, false]).inferredType).toBe('boolean');
+  });
+
   it('should handle nullable columns', () => {
     const samples = ['value1', '', 'value2', null, 'value3'];
     const result = inferColumnType(samples);
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { UniqueValueTracker } from '../../src/services/unique-tracker.js';
+
+describe('UniqueValueTracker', () => {
+  it('should report repeated values per column', () => {
+    const tracker = new UniqueValueTracker();
+    expect(tracker.checkAndAdd('id', 1)).toBe(false);
+    expect(tracker.checkAndAdd('id', 2)).toBe(false);
+    expect(tracker.checkAndAdd('id', 1)).toBe(true);
+    expect(tracker.checkAndAdd('other', 1)).toBe(false);
+  });
+
+  it('should not confuse values of different types', () => {
+    const tracker = new UniqueValueTracker();
+    expect(tracker.checkAndAdd('id', 1)).toBe(false);
+    expect(tracker.checkAndAdd('id', '1')).toBe(false);
+    expect(tracker.checkAndAdd('id', true)).toBe(false);
+  });
+
+  it('should keep detecting duplicates after switching to digests', () => {
+    const tracker = new UniqueValueTracker({ memoryBudgetBytes: 1024 });
+    for (let i = 0; i < 100; i++) {
+      expect(tracker.checkAndAdd('email', `user${i}@example.com`)).toBe(false);
+    }
+    expect(tracker.isHashed).toBe(true);
+
+    // Values seen before and after the switch are both remembered
+    expect(tracker.checkAndAdd('email', 'user0@example.com')).toBe(true);
+    expect(tracker.checkAndAdd('email', 'user99@example.com')).toBe(true);
+    expect(tracker.checkAndAdd('email', 'user100@example.com')).toBe(false);
+  });
+
+  it('should hand back first occurrences when recording additions', () => {
+    const tracker = new UniqueValueTracker({ recordAdditions: true });
+    tracker.checkAndAdd('id', 1);
+    tracker.checkAndAdd('id', 1);
+    tracker.checkAndAdd('code', 'a');
+
+    expect(tracker.takeAdditions()).toEqual([
+      { column: 'id', value: 1 },
+      { column: 'code', value: 'a' },
+    ]);
+    expect(tracker.takeAdditions()).toEqual([]);
+  });
+});
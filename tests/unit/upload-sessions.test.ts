@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { createHash, randomUUID } from 'crypto';
+import {
+  fileExists,
+  generateUploadChunkKey,
+  loadFile,
+  saveFile,
+} from '../../src/services/storage.js';
+import {
+  assembleUpload,
+  chunksCoverFile,
+  discardUploadChunks,
+} from '../../src/services/upload-sessions.js';
+import type { UploadChunk } from '../../src/types/index.js';
+
+async function storeChunks(sessionId: string, parts: string[]): Promise<UploadChunk[]> {
+  const chunks: UploadChunk[] = [];
+  let offset = 0;
+  for (const part of parts) {
+    const key = generateUploadChunkKey(sessionId, randomUUID());
+    await saveFile(key, Buffer.from(part));
+    chunks.push({ key, offset, byteCount: Buffer.byteLength(part) });
+    offset += Buffer.byteLength(part);
+  }
+  return chunks;
+}
+
+describe('chunksCoverFile', () => {
+  const chunk = (offset: number, byteCount: number) => ({ key: `k${offset}`, offset, byteCount });
+
+  it('should accept contiguous chunks in any order', () => {
+    expect(chunksCoverFile([chunk(5, 5), chunk(0, 5), chunk(10, 2)], 12)).toBe(true);
+  });
+
+  it('should reject gaps, overlaps and short uploads', () => {
+    expect(chunksCoverFile([chunk(0, 5), chunk(6, 6)], 12)).toBe(false);
+    expect(chunksCoverFile([chunk(0, 5), chunk(4, 8)], 12)).toBe(false);
+    expect(chunksCoverFile([chunk(0, 5)], 12)).toBe(false);
+    expect(chunksCoverFile([], 0)).toBe(true);
+  });
+});
+
+describe('assembleUpload', () => {
+  it('should concatenate chunks in offset order and hash the result', async () => {
+    const sessionId = randomUUID();
+    const chunks = await storeChunks(sessionId, ['id,name\n', '1,Ada\n', '2,Grace\n']);
+    const key = `raw/${randomUUID()}.csv`;
+
+    const stored = await assembleUpload([...chunks].reverse(), key);
+
+    const expected = 'id,name\n1,Ada\n2,Grace\n';
+    expect(stored).toEqual({
+      key,
+      sha256: createHash('sha256').update(expected).digest('hex'),
+      byteCount: expected.length,
+    });
+    expect((await loadFile(key)).toString()).toBe(expected);
+  });
+
+  it('should delete stored chunks on discard', async () => {
+    const chunks = await storeChunks(randomUUID(), ['a', 'b']);
+
+    await discardUploadChunks(chunks);
+
+    for (const chunk of chunks) {
+      expect(await fileExists(chunk.key)).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import { NdjsonSpillFile } from '../../src/services/spill-file.js';
+import type { StoredRow } from '../../src/services/row-store.js';
+import { UniqueValueTracker } from '../../src/services/unique-tracker.js';
+import {
+  mergeValidationChunks,
+  validateRows,
+  type ValidationChunkResult,
+} from '../../src/services/validation-runner.js';
+import type { CanonicalSchema, MappingResult, RowError } from '../../src/types/index.js';
+
+const schema: CanonicalSchema = {
+  name: 'people',
+  version: '1.0.0',
+  errorPolicy: 'flag',
+  strict: false,
+  columns: [
+    {
+      name: 'email',
+      type: 'email',
+      required: true,
+      nullable: false,
+      aliases: [],
+      validators: [{ type: 'unique' }],
+      strict: false,
+    },
+    {
+      name: 'age',
+      type: 'integer',
+      required: false,
+      nullable: true,
+      aliases: [],
+      validators: [],
+      strict: false,
+    },
+  ],
+};
+
+const mapping: MappingResult = {
+  mappings: [
+    { sourceColumn: 'email', targetColumn: 'email', method: 'exact', confidence: 1 },
+    { sourceColumn: 'age', targetColumn: 'age', method: 'exact', confidence: 1 },
+  ],
+  requiresReview: false,
+  ambiguousMappings: [],
+};
+
+const rows: StoredRow[] = [
+  ['a@x.io', '30'],
+  ['b@x.io', 'old'],
+  ['a@x.io', '41'],
+  ['c@x.io', '22'],
+  ['B@x.io', '19'],
+  ['d@x.io', 'n/a'],
+  ['c@x.io', '5'],
+  ['e@x.io', '60'],
+].map(([email, age], i) => ({ row: i + 1, data: { email, age } }));
+
+async function* iterate(items: StoredRow[]) {
+  yield* items;
+}
+
+async function validateChunk(chunkIndex: number, chunkRows: StoredRow[]) {
+  const errorsFile = new NdjsonSpillFile(`test/${randomUUID()}/errors.ndjson`);
+  const uniqueFile = new NdjsonSpillFile(`test/${randomUUID()}/unique.ndjson`);
+
+  const tally = await validateRows({
+    rows: iterate(chunkRows),
+    mappingResult: mapping,
+    canonicalSchema: schema,
+    uniqueValues: new UniqueValueTracker({ recordAdditions: true }),
+    onRowError: (rowError) => errorsFile.write(rowError),
+    onUniqueValues: async (row, additions) => {
+      for (const { column, value } of additions) {
+        await uniqueFile.write({ row, column, value });
+      }
+    },
+  });
+
+  const result: ValidationChunkResult = {
+    chunkIndex,
+    tally,
+    errorsFileKey: await errorsFile.commit(),
+    uniqueValuesFileKey: await uniqueFile.commit(),
+  };
+  return result;
+}
+
+describe('validateRows', () => {
+  it('should count rows and report errors in row order', async () => {
+    const errors: RowError[] = [];
+    const tally = await validateRows({
+      rows: iterate(rows),
+      mappingResult: mapping,
+      canonicalSchema: schema,
+      uniqueValues: new UniqueValueTracker(),
+      onRowError: async (rowError) => {
+        errors.push(rowError);
+      },
+    });
+
+    expect(errors.map((e) => e.row)).toEqual([2, 3, 5, 6, 7]);
+    expect(tally).toMatchObject({
+      validRowCount: 3,
+      invalidRowCount: 5,
+      rejectedRowCount: 0,
+      errorsByColumn: { email: 3, age: 2 },
+    });
+  });
+});
+
+describe('mergeValidationChunks', () => {
+  it('should match a sequential pass, including duplicates across chunks', async () => {
+    const sequentialErrors: RowError[] = [];
+    const sequential = await validateRows({
+      rows: iterate(rows),
+      mappingResult: mapping,
+      canonicalSchema: schema,
+      uniqueValues: new UniqueValueTracker(),
+      onRowError: async (rowError) => {
+        sequentialErrors.push(rowError);
+      },
+    });
+
+    // Chunks may finish in any order
+    const chunks = await Promise.all([
+      validateChunk(2, rows.slice(6)),
+      validateChunk(0, rows.slice(0, 3)),
+      validateChunk(1, rows.slice(3, 6)),
+    ]);
+
+    const mergedErrors: RowError[] = [];
+    const { tally, crossChunkDuplicates } = await mergeValidationChunks(
+      chunks,
+      schema,
+      new UniqueValueTracker(),
+      async (rowError) => {
+        mergedErrors.push(rowError);
+      }
+    );
+
+    // b@x.io (row 5) and c@x.io (row 7) repeat values from earlier chunks
+    expect(crossChunkDuplicates).toBe(2);
+    expect(mergedErrors).toEqual(sequentialErrors);
+    expect(tally).toEqual(sequential);
+  });
+
+  it('should reject rows that become invalid under reject_row', async () => {
+    const strictSchema: CanonicalSchema = { ...schema, errorPolicy: 'reject_row' };
+    const chunkRows = [rows[0]!, { row: 2, data: { email: 'a@x.io', age: '1' } }];
+
+    const chunks = [
+      await validateChunk(0, [chunkRows[0]!]),
+      await validateChunk(1, [chunkRows[1]!]),
+    ];
+
+    const mergedErrors: RowError[] = [];
+    const { tally } = await mergeValidationChunks(
+      chunks,
+      strictSchema,
+      new UniqueValueTracker(),
+      async (rowError) => {
+        mergedErrors.push(rowError);
+      }
+    );
+
+    expect(mergedErrors).toHaveLength(1);
+    expect(mergedErrors[0]).toMatchObject({ row: 2, action: 'rejected' });
+    expect(tally).toMatchObject({ validRowCount: 1, invalidRowCount: 1, rejectedRowCount: 1 });
+  });
+});